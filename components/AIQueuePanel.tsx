@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { useProceduralStore } from '../store/ProceduralContext';
+import { AIJob, cancelAIJob, clearFailedAIJobs, DEFAULT_AI_CONCURRENCY } from '../services/aiQueueService';
+import { useAIQueueStats } from '../hooks/useAIQueueStats';
+
+const AI_CONCURRENCY_LIMITS = [1, 2, 4, 8];
+
+const STATUS_STYLES: Record<AIJob['status'], string> = {
+    pending: 'text-slate-400',
+    running: 'text-indigo-300',
+    retrying: 'text-orange-400',
+    failed: 'text-red-400'
+};
+
+const JobRow: React.FC<{ job: AIJob }> = ({ job }) => {
+    const retryIn = job.retryAt ? Math.max(0, Math.ceil((job.retryAt - Date.now()) / 1000)) : 0;
+
+    return (
+        <div className="flex items-start justify-between space-x-2 py-1.5 border-b border-slate-700/50 last:border-b-0">
+            <div className="flex flex-col min-w-0">
+                <span className="text-[10px] text-slate-200 truncate" title={job.label}>{job.label}</span>
+                <span className={`text-[9px] font-mono uppercase ${STATUS_STYLES[job.status]}`}>
+                    {job.status}
+                    {job.attempts > 1 && ` · attempt ${job.attempts}`}
+                    {job.status === 'retrying' && ` · retry in ${retryIn}s`}
+                </span>
+                {job.error && (job.status === 'retrying' || job.status === 'failed') && (
+                    <span className="text-[9px] text-slate-500 break-words" title={job.error}>{job.error.slice(0, 140)}</span>
+                )}
+            </div>
+            <button
+                onClick={() => cancelAIJob(job.id)}
+                className="text-[9px] text-slate-500 hover:text-red-400 uppercase font-bold shrink-0"
+                title={job.status === 'failed' ? 'Dismiss' : 'Cancel this call'}
+            >
+                {job.status === 'failed' ? 'Dismiss' : 'Cancel'}
+            </button>
+        </div>
+    );
+};
+
+// Pending, running and failed AI calls across every node
+export const AIQueuePanel = () => {
+    const { projectSettings, updateProjectSettings } = useProceduralStore();
+    const stats = useAIQueueStats();
+    const [isOpen, setIsOpen] = useState(false);
+    const concurrency = projectSettings.aiConcurrency ?? DEFAULT_AI_CONCURRENCY;
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="bg-slate-800 hover:bg-slate-700 border border-slate-600 px-3 py-1.5 rounded text-xs shadow-lg flex items-center space-x-2 transition-colors"
+                title="AI job queue"
+            >
+                <span className="font-bold uppercase tracking-wider text-slate-400">Jobs</span>
+                <span className={`font-mono ${stats.running > 0 ? 'text-indigo-300 animate-pulse' : 'text-slate-300'}`}>{stats.running}/{stats.concurrency}</span>
+                {stats.pending > 0 && <span className="font-mono text-slate-400">+{stats.pending}</span>}
+                {stats.failed > 0 && <span className="font-mono text-red-400">{stats.failed} failed</span>}
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-80 bg-slate-800 border border-slate-600 rounded shadow-2xl p-2 text-xs">
+                    <div className="flex items-center justify-between pb-1.5 mb-1 border-b border-slate-700">
+                        <span className="font-bold uppercase tracking-wider text-slate-400 text-[10px]">AI Queue</span>
+                        <div className="flex items-center space-x-2">
+                            <select
+                                value={concurrency}
+                                onChange={(e) => updateProjectSettings({ aiConcurrency: Number(e.target.value) })}
+                                className="bg-slate-900 border border-slate-700 rounded text-[10px] text-slate-300 font-mono px-1 py-0.5 focus:outline-none"
+                                title="AI calls running at once"
+                            >
+                                {Array.from(new Set([...AI_CONCURRENCY_LIMITS, concurrency])).sort((a, b) => a - b).map(limit => (
+                                    <option key={limit} value={limit}>{limit} at once</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={clearFailedAIJobs}
+                                disabled={stats.failed === 0}
+                                className="text-[9px] text-slate-400 hover:text-slate-200 disabled:opacity-40 uppercase font-bold"
+                            >
+                                Clear Failed
+                            </button>
+                        </div>
+                    </div>
+                    <div className="max-h-64 overflow-y-auto custom-scrollbar">
+                        {stats.jobs.length === 0
+                            ? <div className="py-3 text-center text-slate-500 italic text-[10px]">No queued AI calls</div>
+                            : stats.jobs.map(job => <JobRow key={job.id} job={job} />)}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
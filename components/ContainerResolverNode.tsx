@@ -1,7 +1,8 @@
 import React, { memo, useMemo, useEffect, useCallback } from 'react';
 import { Handle, Position, NodeProps, useNodes, useEdges, Node, useReactFlow } from 'reactflow';
-import { PSDNodeData } from '../types';
+import { PSDNodeData, ContainerAnnotations } from '../types';
 import { createContainerContext } from '../services/psdService';
+import { describeAnnotations } from '../services/layoutService';
 import { usePsdResolver, ResolverStatus } from '../hooks/usePsdResolver';
 import { useProceduralStore } from '../store/ProceduralContext';
 
@@ -9,6 +10,7 @@ interface ChannelState {
   index: number;
   status: 'idle' | 'resolved' | 'warning' | 'error';
   containerName?: string;
+  annotations?: ContainerAnnotations;
   layerCount: number;
   message?: string;
   debugCode?: ResolverStatus;
@@ -103,6 +105,7 @@ export const ContainerResolverNode = memo(({ id, data }: NodeProps<PSDNodeData>)
         index,
         status: uiStatus,
         containerName: containerContext.containerName,
+        annotations: containerContext.annotations,
         layerCount: childCount,
         message: result.message,
         debugCode: result.status,
@@ -202,6 +205,11 @@ export const ContainerResolverNode = memo(({ id, data }: NodeProps<PSDNodeData>)
                   <div className="flex flex-col leading-tight min-w-0">
                     <div className="flex items-center space-x-1">
                        <span className="text-xs font-semibold text-slate-200 truncate">{channel.containerName}</span>
+                       {channel.annotations && (
+                         <span className="text-[8px] px-1 rounded border border-sky-500/40 bg-sky-900/30 text-sky-300 font-mono shrink-0" title={`Template defaults: ${describeAnnotations(channel.annotations)}`}>
+                           {channel.annotations.priority !== undefined ? `P${channel.annotations.priority}` : 'TPL'}
+                         </span>
+                       )}
                        <svg className="w-3 h-3 text-slate-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M17 8l4 4m0 0l-4 4m4-4H3" />
                        </svg>
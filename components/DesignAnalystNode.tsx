@@ -1,10 +1,16 @@
 import React, { memo, useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Handle, Position, NodeProps, useEdges, NodeResizer, useReactFlow, useUpdateNodeInternals, useNodes } from 'reactflow';
-import { PSDNodeData, LayoutStrategy, SerializableLayer, ChatMessage, AnalystInstanceState, ContainerContext, TemplateMetadata, ContainerDefinition, MappingContext, KnowledgeContext } from '../types';
+import { PSDNodeData, LayoutStrategy, SerializableLayer, ChatMessage, AnalystInstanceState, ContainerContext, TemplateMetadata, ContainerDefinition, ContainerAnnotations, MappingContext, KnowledgeContext } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { getSemanticThemeObject, findLayerByPath } from '../services/psdService';
-import { GoogleGenAI, Type } from "@google/genai";
-import { Brain, BrainCircuit, Ban, ClipboardList } from 'lucide-react';
+import { getSemanticThemeObject, getContainerDescendants } from '../services/psdService';
+import { renderComposite } from '../services/compositor';
+import { acquireTreePixels } from '../services/pixelCacheService';
+import { ANCHOR_GRID, STRETCH_AXES, resolveAnchorAlignment, toAnchorPoint } from '../services/layoutService';
+import { getAIProvider, toBase64Data, AIModelTier, AIPart, AIJsonRequest } from '../services/aiProvider';
+import { generateValidatedStrategy, validateLayoutStrategy, resolveStrategyLimits } from '../services/strategyValidationService';
+import { useAIUsageRecorder } from '../hooks/useAIUsageRecorder';
+import { getErrorUsage } from '../services/aiUsageService';
+import { Brain, BrainCircuit, Ban, ClipboardList, ShieldAlert } from 'lucide-react';
 import { Psd } from 'ag-psd';
 
 // Define the exact union type for model keys to match PSDNodeData
@@ -19,7 +25,7 @@ const DEFAULT_INSTANCE_STATE: AnalystInstanceState = {
 };
 
 interface ModelConfig {
-  apiModel: string;
+  tier: AIModelTier;
   label: string;
   badgeClass: string;
   headerClass: string;
@@ -28,19 +34,19 @@ interface ModelConfig {
 
 const MODELS: Record<ModelKey, ModelConfig> = {
   'gemini-3-flash': {
-    apiModel: 'gemini-3-flash-preview',
+    tier: 'fast',
     label: 'FLASH',
     badgeClass: 'bg-yellow-500 text-yellow-950 border-yellow-400',
     headerClass: 'border-yellow-500/50 bg-yellow-900/20'
   },
   'gemini-3-pro': {
-    apiModel: 'gemini-3-pro-preview',
+    tier: 'pro',
     label: 'PRO',
     badgeClass: 'bg-blue-600 text-white border-blue-500',
     headerClass: 'border-blue-500/50 bg-blue-900/20'
   },
   'gemini-3-pro-thinking': {
-    apiModel: 'gemini-3-pro-preview',
+    tier: 'pro',
     label: 'DEEP THINKING',
     badgeClass: 'bg-purple-600 text-white border-purple-500',
     headerClass: 'border-purple-500/50 bg-purple-900/20',
@@ -48,6 +54,38 @@ const MODELS: Record<ModelKey, ModelConfig> = {
   }
 };
 
+// --- Subcomponent: Anchor Grid Indicator ---
+// 3x3 miniature of the nine-point anchor. Stretched axes highlight the full row/column.
+const AnchorGrid: React.FC<{ strategy: LayoutStrategy }> = ({ strategy }) => {
+    const alignment = resolveAnchorAlignment(strategy.anchor, strategy.stretch);
+    const activePoint = toAnchorPoint(alignment);
+    const activeIndex = ANCHOR_GRID.indexOf(activePoint);
+    const activeRow = Math.floor(activeIndex / 3);
+    const activeCol = activeIndex % 3;
+    const stretchLabel = alignment.stretchX && alignment.stretchY ? 'BOTH' : alignment.stretchX ? 'X' : alignment.stretchY ? 'Y' : null;
+
+    return (
+        <div className="flex items-center space-x-2" title={`Anchor: ${activePoint}${stretchLabel ? ` / Stretch: ${stretchLabel}` : ''}`}>
+            {stretchLabel && (
+                <span className="text-[9px] px-1 py-0.5 rounded border border-cyan-500/50 text-cyan-300 font-mono font-bold">
+                    ↔ {stretchLabel}
+                </span>
+            )}
+            <span className="text-slate-400 text-[10px] font-mono">{activePoint}</span>
+            <div className="grid grid-cols-3 gap-[1px] w-[17px] h-[17px]">
+                {ANCHOR_GRID.map((point, i) => {
+                    const row = Math.floor(i / 3);
+                    const col = i % 3;
+                    const isActive = (alignment.stretchX || col === activeCol) && (alignment.stretchY || row === activeRow);
+                    return (
+                        <div key={point} className={`w-[5px] h-[5px] rounded-[1px] ${isActive ? 'bg-cyan-400' : 'bg-slate-600'}`} />
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
 // --- Subcomponent: Strategy Card Renderer ---
 // UPDATED: Removed 'Reasoning' text display. It is now handled by the parent container as a "Design Audit".
 const StrategyCard: React.FC<{ strategy: LayoutStrategy, modelConfig: ModelConfig }> = ({ strategy, modelConfig }) => {
@@ -66,7 +104,7 @@ const StrategyCard: React.FC<{ strategy: LayoutStrategy, modelConfig: ModelConfi
         >
              <div className="flex justify-between border-b border-slate-700 pb-2">
                 <span className={`font-bold ${modelConfig.badgeClass.includes('yellow') ? 'text-yellow-400' : 'text-blue-300'}`}>SEMANTIC RECOMPOSITION</span>
-                <span className="text-slate-400">{strategy.anchor}</span>
+                <AnchorGrid strategy={strategy} />
              </div>
 
              <div className="flex items-center space-x-2 mt-1">
@@ -319,6 +357,19 @@ const InstanceRow: React.FC<InstanceRowProps> = ({
 
                                         {/* TECHNICAL CARD */}
                                         <StrategyCard strategy={msg.strategySnapshot} modelConfig={activeModelConfig} />
+
+                                        {/* VALIDATION AUDIT: corrections applied before the strategy was used */}
+                                        {msg.auditNotes && (
+                                            <div className="border border-amber-500/30 bg-amber-500/5 rounded p-2 space-y-1">
+                                                <div className="flex items-center space-x-1.5">
+                                                    <ShieldAlert className="w-3 h-3 text-amber-400" />
+                                                    <span className="text-[9px] font-bold text-amber-300 uppercase tracking-widest">Validation Audit</span>
+                                                </div>
+                                                <ul className="list-disc pl-4 text-[10px] text-amber-200/80 space-y-0.5">
+                                                    {msg.auditNotes.map((note, i) => <li key={i} className="break-words">{note}</li>)}
+                                                </ul>
+                                            </div>
+                                        )}
                                     </div>
                                 )}
                             </div>
@@ -368,9 +419,10 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
   const edges = useEdges();
   const nodes = useNodes(); // Use nodes to find Source PSD
   const { setNodes } = useReactFlow();
+  const recordUsage = useAIUsageRecorder(id);
   const updateNodeInternals = useUpdateNodeInternals();
   
-  const { resolvedRegistry, templateRegistry, knowledgeRegistry, registerResolved, registerTemplate, unregisterNode, psdRegistry } = useProceduralStore();
+  const { resolvedRegistry, templateRegistry, knowledgeRegistry, registerResolved, registerTemplate, unregisterNode, psdRegistry, projectSettings } = useProceduralStore();
 
   useEffect(() => {
     return () => unregisterNode(id);
@@ -423,7 +475,13 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         containerName = containerName.replace('slot-bounds-', '');
     }
     const container = template.containers.find(c => c.name === containerName);
-    return container ? { bounds: container.bounds, name: container.name } : null;
+    return container ? {
+        id: container.id,
+        bounds: container.bounds,
+        name: container.name,
+        annotations: container.annotations,
+        subContainers: getContainerDescendants(template, container.id)
+    } : null;
   }, [edges, id, templateRegistry]);
 
   // --- Pixel Extraction Service ---
@@ -433,40 +491,19 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
       if (!loadPsdNode) return null;
       const psd = psdRegistry[loadPsdNode.id];
       if (!psd) return null;
+      const releasePixels = await acquireTreePixels(loadPsdNode.id, layers);
 
-      // Create a canvas to composite the layers
-      const canvas = document.createElement('canvas');
-      canvas.width = bounds.w;
-      canvas.height = bounds.h;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return null;
-
-      const drawLayers = (layerNodes: SerializableLayer[]) => {
-          // Iterate in reverse (painter's algorithm: bottom-up)
-          for (let i = layerNodes.length - 1; i >= 0; i--) {
-              const node = layerNodes[i];
-              if (!node.isVisible) continue;
-
-              if (node.children) {
-                  drawLayers(node.children);
-              } else {
-                  const agLayer = findLayerByPath(psd, node.id);
-                  if (agLayer && agLayer.canvas) {
-                      const dx = (agLayer.left || 0) - bounds.x;
-                      const dy = (agLayer.top || 0) - bounds.y;
-                      ctx.drawImage(agLayer.canvas, dx, dy);
-                  }
-              }
-          }
-      };
-
-      drawLayers(layers);
+      // Composite the container crop (origin = container top-left)
+      const canvas = renderComposite(layers, psd, bounds.w, bounds.h, { origin: bounds });
+      releasePixels();
+      if (!canvas) return null;
       return canvas.toDataURL('image/png');
   };
 
   // --- Store Synchronization Effect ---
   useEffect(() => {
     const syntheticContainers: ContainerDefinition[] = [];
+    const syntheticSubContainers: ContainerDefinition[] = []; // Appended last so target-out-N indices stay stable
     let canvasDims = { width: 0, height: 0 };
 
     for (let i = 0; i < instanceCount; i++) {
@@ -499,10 +536,21 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
                     if (t) canvasDims = t.canvas;
                 }
             }
+            // Relay nested sub-containers under the proxy so the Remapper can decompose parent-then-child
+            const proxyId = `proxy-target-${i}`;
+            targetData.subContainers.forEach(sub => {
+                syntheticSubContainers.push({
+                    ...sub,
+                    id: `${proxyId}:${sub.id}`,
+                    parentId: sub.parentId === targetData.id ? proxyId : `${proxyId}:${sub.parentId}`
+                });
+            });
+
             syntheticContainers.push({
-                id: `proxy-target-${i}`,
+                id: proxyId,
                 name: `target-out-${i}`, 
                 originalName: targetData.name,
+                annotations: targetData.annotations,
                 bounds: targetData.bounds,
                 normalized: {
                     x: canvasDims.width ? targetData.bounds.x / canvasDims.width : 0,
@@ -517,7 +565,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
     if (syntheticContainers.length > 0) {
         const syntheticTemplate: TemplateMetadata = {
             canvas: canvasDims.width > 0 ? canvasDims : { width: 1024, height: 1024 },
-            containers: syntheticContainers
+            containers: [...syntheticContainers, ...syntheticSubContainers]
         };
         registerTemplate(id, syntheticTemplate);
     }
@@ -564,41 +612,19 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
   };
 
   // --- AI Logic ---
-  const generateDraft = async (prompt: string, sourceReference?: string): Promise<string | null> => {
+  const generateDraft = async (index: number, prompt: string, sourceReference?: string): Promise<string | null> => {
      try {
-         const apiKey = process.env.API_KEY;
-         if (!apiKey) return null;
-         const ai = new GoogleGenAI({ apiKey });
-         
-         const parts: any[] = [];
-         
          // Inpaint/Outpaint: Attach source reference if available for style consistency
-         if (sourceReference) {
-             const base64Data = sourceReference.includes('base64,') 
-                ? sourceReference.split('base64,')[1] 
-                : sourceReference;
-             parts.push({
-                 inlineData: {
-                     mimeType: 'image/png',
-                     data: base64Data
-                 }
-             });
-         }
-         
-         parts.push({ text: `Generate a draft sketch (256x256) for: ${prompt}` });
-
-         const response = await ai.models.generateContent({
-             model: 'gemini-2.5-flash-image',
-             contents: { parts },
-             config: { imageConfig: { aspectRatio: "1:1" } }
+         const image = await getAIProvider().generateImage({
+             prompt: `Generate a draft sketch (256x256) for: ${prompt}`,
+             aspectRatio: '1:1',
+             reference: sourceReference
          });
-         
-         for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) { return `data:image/png;base64,${part.inlineData.data}`; }
-         }
-         return null;
+         recordUsage(index, image?.usage);
+         return image?.dataUrl || null;
      } catch (e) {
          console.error("Draft Generation Failed", e);
+         recordUsage(index, getErrorUsage(e));
          return null;
      }
   };
@@ -629,6 +655,17 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
 
     const layerAnalysisData = flattenLayers(sourceData.layers as SerializableLayer[]);
 
+    // Template annotations are the author's defaults; the AI may deviate only with a stated reason
+    const annotations: ContainerAnnotations | undefined = targetData.annotations ?? sourceData.container.annotations;
+    const templateIntent = annotations ? `
+        TEMPLATE INTENT (defaults declared by the template author):
+        ${annotations.anchor ? `- Preferred 'anchor': ${annotations.anchor}.` : ''}
+        ${annotations.strategy ? `- Preferred fit: ${annotations.strategy} (UNIFORM_FIT = letterbox, UNIFORM_FILL = cover, STRETCH = fill both axes).` : ''}
+        ${annotations.bleed !== undefined ? `- Allowed bleed: ${Math.round(annotations.bleed * 100)}% of the container height.` : ''}
+        ${annotations.priority !== undefined ? `- Container priority: ${annotations.priority} (1 = hero content; keep it dominant).` : ''}
+        Follow these unless the knowledge base or the content clearly requires otherwise, and say so in 'reasoning'.
+    ` : '';
+
     let prompt = `
         ROLE: Senior Visual Systems Lead & Expert Graphic Designer.
         GOAL: Perform "Knowledge-Anchored Semantic Recomposition" with Intuition Fallback.
@@ -639,7 +676,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         
         LAYER HIERARCHY (JSON):
         ${JSON.stringify(layerAnalysisData.slice(0, 40))}
-
+        ${templateIntent}
         KNOWLEDGE SCOPING PROTOCOL:
         You are analyzing the specific container: "${targetData.name}".
         Within the GLOBAL PROJECT KNOWLEDGE (if provided below), you must act as a 'Knowledge Scout.' 
@@ -651,7 +688,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         Use your expert design intuition to solve for balance, hierarchy, and optical weight.
 
         GROUNDING PROTOCOL:
-        1. Link every visual observation to a Metadata ID [layer-ID] using the deterministic path IDs provided in the JSON hierarchy.
+        1. Link every visual observation to a Metadata ID [layer-ID] using the stable layer IDs provided in the JSON hierarchy.
         2. Use the Image for visual auditing and JSON for coordinate mapping.
         3. The top-left corner (0,0) of your visual workspace is the top-left of the Target Container (${targetData.name}).
 
@@ -662,6 +699,8 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         - METHOD 'GEOMETRIC': 'generativePrompt' MUST be "".
 
         JSON OUTPUT RULES:
+        - 'anchor' is the nine-point pin (e.g. 'BOTTOM_LEFT', 'CENTER') used to place the scaled content inside the target.
+        - 'stretch' fills the target along the given axis ('X', 'Y', 'BOTH') instead of applying 'suggestedScale'. Use 'NONE' to preserve aspect ratio.
         - Leading reasoning must justify 'overrides' by citing specific brand constraints (if found) or expert intuition.
         - 'knowledgeApplied' must be set to true if Knowledge rules were explicitly used.
         - Your 'overrides' must accurately map to the 'layerId' strings provided in the hierarchy.
@@ -698,10 +737,6 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
       setAnalyzingInstances(prev => ({ ...prev, [index]: true }));
 
       try {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) throw new Error("API_KEY missing");
-
-        const ai = new GoogleGenAI({ apiKey });
         // Use effectiveKnowledge (null if muted)
         const systemInstruction = generateSystemInstruction(sourceData, targetData, history.length > 1, effectiveKnowledge);
         
@@ -712,17 +747,17 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         // 1. Extract Source Pixels for Vision
         const sourcePixelsBase64 = await extractSourcePixels(sourceData.layers as SerializableLayer[], sourceData.container.bounds);
 
-        const apiContents = history.map(msg => ({ role: msg.role, parts: [...msg.parts] }));
+        const apiContents = history.map(msg => ({ role: msg.role, parts: [...msg.parts] as AIPart[] }));
         const lastMessage = apiContents[apiContents.length - 1];
 
         if (lastMessage.role === 'user') {
-            const newParts: any[] = [];
+            const newParts: AIPart[] = [];
             
             // A. Knowledge Anchors (Brand Context) - ONLY IF NOT MUTED
             if (effectiveKnowledge?.visualAnchors) {
                 effectiveKnowledge.visualAnchors.forEach(anchor => {
                     newParts.push({
-                        inlineData: { mimeType: anchor.mimeType, data: anchor.data }
+                        image: { mimeType: anchor.mimeType, data: anchor.data }
                     });
                 });
                 if (effectiveKnowledge.visualAnchors.length > 0) {
@@ -732,9 +767,8 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
 
             // B. Source Pixels (Vision Context)
             if (sourcePixelsBase64) {
-                const base64Clean = sourcePixelsBase64.split(',')[1];
                 newParts.push({
-                    inlineData: { mimeType: 'image/png', data: base64Clean }
+                    image: { mimeType: 'image/png', data: toBase64Data(sourcePixelsBase64) }
                 });
                 newParts.push({ text: "INPUT SOURCE CONTEXT (Visual Representation of the Layers provided in JSON):" });
             }
@@ -746,63 +780,66 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
             lastMessage.parts = newParts;
         }
 
-        const requestConfig: any = {
+        const fitScale = Math.min(targetData.bounds.w / sourceData.container.bounds.w, targetData.bounds.h / sourceData.container.bounds.h);
+
+        const request: AIJsonRequest = {
+            model: modelConfig.tier,
+            contents: apiContents,
             systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
+            thinkingBudget: modelConfig.thinkingBudget,
+            schema: {
+                type: 'object',
                 properties: {
                     // NEW: Reasoning First with Description to enforce audit logic
                     reasoning: { 
-                        type: Type.STRING,
+                        type: 'string',
                         description: `MANDATORY: A professional 'Design Audit' paragraph. Critique the visual hierarchy, balance, and optical weight before proposing changes. Your reasoning must explicitly state whether you found container-specific rules to follow for "${targetData.name}" or if you are applying 'Expert Intuition' because no relevant rules were found for this container.`
                     },
-                    method: { type: Type.STRING, enum: ['GEOMETRIC', 'GENERATIVE', 'HYBRID'] },
-                    suggestedScale: { type: Type.NUMBER },
-                    anchor: { type: Type.STRING, enum: ['TOP', 'CENTER', 'BOTTOM', 'STRETCH'] },
-                    generativePrompt: { type: Type.STRING },
-                    clearance: { type: Type.BOOLEAN, description: "Set to true when resetting from Generative back to Geometric" },
+                    method: { type: 'string', enum: ['GEOMETRIC', 'GENERATIVE', 'HYBRID'] },
+                    // Defaults are what an offline provider answers: a plain proportional fit
+                    suggestedScale: { type: 'number', default: fitScale },
+                    anchor: { type: 'string', enum: [...ANCHOR_GRID], default: 'CENTER' },
+                    stretch: { type: 'string', enum: [...STRETCH_AXES], default: 'NONE' },
+                    generativePrompt: { type: 'string', default: '' },
+                    clearance: { type: 'boolean', description: "Set to true when resetting from Generative back to Geometric" },
                     knowledgeApplied: { 
-                        type: Type.BOOLEAN, 
+                        type: 'boolean', 
                         description: `Set to TRUE only if you identified and applied a rule specific to "${targetData.name}" from the knowledge base. Set to FALSE if you relied on general design intuition.` 
                     },
                     overrides: {
-                        type: Type.ARRAY,
+                        type: 'array',
                         items: {
-                            type: Type.OBJECT,
+                            type: 'object',
                             properties: {
-                                layerId: { type: Type.STRING },
-                                xOffset: { type: Type.NUMBER },
-                                yOffset: { type: Type.NUMBER },
-                                individualScale: { type: Type.NUMBER }
+                                layerId: { type: 'string' },
+                                xOffset: { type: 'number' },
+                                yOffset: { type: 'number' },
+                                individualScale: { type: 'number' }
                             },
                             required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
                         }
                     },
                     safetyReport: {
-                        type: Type.OBJECT,
+                        type: 'object',
                         properties: {
-                            allowedBleed: { type: Type.BOOLEAN },
-                            violationCount: { type: Type.INTEGER }
+                            allowedBleed: { type: 'boolean' },
+                            violationCount: { type: 'integer' }
                         },
                         required: ['allowedBleed', 'violationCount']
                     }
                 },
-                required: ['reasoning', 'method', 'suggestedScale', 'anchor', 'generativePrompt', 'clearance', 'overrides', 'safetyReport', 'knowledgeApplied']
+                required: ['reasoning', 'method', 'suggestedScale', 'anchor', 'stretch', 'generativePrompt', 'clearance', 'overrides', 'safetyReport', 'knowledgeApplied']
             }
         };
-        
-        if (modelConfig.thinkingBudget) {
-            requestConfig.thinkingConfig = { thinkingBudget: modelConfig.thinkingBudget };
-        }
-
-        const response = await ai.models.generateContent({
-            model: modelConfig.apiModel,
-            contents: apiContents,
-            config: requestConfig
-        });
 
-        const json = JSON.parse(response.text || '{}');
+        // Unknown layers are dropped and values clamped; one re-ask when the response needed corrections
+        const limits = resolveStrategyLimits(projectSettings.strategyLimits);
+        const { strategy: json, text: responseText, auditNotes, usage } = await generateValidatedStrategy(getAIProvider(), request, raw => validateLayoutStrategy(raw, {
+            layers: sourceData.layers,
+            target: targetData.bounds,
+            fallbackScale: fitScale
+        }, limits));
+        recordUsage(index, usage);
         
         // --- PAYLOAD ENRICHMENT ---
         // 1. Source Pixel Extraction
@@ -820,8 +857,9 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         const newAiMessage: ChatMessage = {
             id: Date.now().toString(),
             role: 'model',
-            parts: [{ text: response.text || '' }],
+            parts: [{ text: responseText }],
             strategySnapshot: json,
+            auditNotes: auditNotes.length > 0 ? auditNotes : undefined,
             timestamp: Date.now()
         };
 
@@ -855,7 +893,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
 
              draftTimeoutRef.current = setTimeout(async () => {
                  // Pass source reference for better style matching
-                 const url = await generateDraft(json.generativePrompt, json.sourceReference);
+                 const url = await generateDraft(index, json.generativePrompt, json.sourceReference);
                  
                  if (url) {
                      console.log("PREVIEW_GENERATED");
@@ -872,6 +910,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
 
       } catch (e: any) {
           console.error("Analysis Failed:", e);
+          recordUsage(index, getErrorUsage(e));
       } finally {
           setAnalyzingInstances(prev => ({ ...prev, [index]: false }));
       }
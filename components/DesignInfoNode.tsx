@@ -1,13 +1,25 @@
 import React, { memo, useState, useEffect } from 'react';
 import { Handle, Position, NodeProps, useReactFlow, useEdges, useNodes, Node } from 'reactflow';
-import { SerializableLayer, PSDNodeData } from '../types';
+import { SerializableLayer, PSDNodeData, DesignValidationReport, ValidationSeverity, ValidationRuleId, ValidationRuleSetting } from '../types';
+import { useProceduralStore } from '../store/ProceduralContext';
+import { VALIDATION_RULES, resolveValidationRules } from '../services/validationService';
+import { DEFAULT_BOUNDS_MODE } from '../services/boundsService';
+
+const SEVERITY_STYLES: Record<ValidationSeverity, { dot: string, text: string }> = {
+  error: { dot: 'bg-red-500', text: 'text-red-300' },
+  warning: { dot: 'bg-orange-400', text: 'text-orange-200' },
+  info: { dot: 'bg-sky-400', text: 'text-sky-200' },
+};
+
+const SEVERITY_ORDER: ValidationSeverity[] = ['error', 'warning', 'info'];
 
 interface LayerItemProps {
   node: SerializableLayer;
   depth?: number;
+  severityById?: Map<string, ValidationSeverity>;
 }
 
-const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0 }) => {
+const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0, severityById }) => {
   const [isOpen, setIsOpen] = useState(false);
   const isGroup = node.type === 'group';
   const hasChildren = isGroup && node.children && node.children.length > 0;
@@ -50,6 +62,10 @@ const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0 }) => {
         </div>
 
         <span className="text-xs text-slate-200 truncate">{node.name}</span>
+
+        {severityById?.has(node.id) && (
+          <span className={`w-1.5 h-1.5 rounded-full ml-1.5 shrink-0 ${SEVERITY_STYLES[severityById.get(node.id)!].dot}`} />
+        )}
         
         {!node.isVisible && (
            <svg className="w-3 h-3 ml-auto text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -62,15 +78,117 @@ const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0 }) => {
         <div className="border-l border-slate-700 ml-[15px]">
           {/* REVERSED: Render top-most children first */}
           {[...node.children!].reverse().map((child) => (
-            <LayerItem key={child.id} node={child} depth={depth + 1} />
+            <LayerItem key={child.id} node={child} depth={depth + 1} severityById={severityById} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Issue list plus the project's rule settings
+const ValidationPanel: React.FC<{ report: DesignValidationReport | null | undefined }> = ({ report }) => {
+  const [showRules, setShowRules] = useState(false);
+  const { projectSettings, updateProjectSettings } = useProceduralStore();
+  const config = resolveValidationRules(projectSettings.validationRules);
+  const boundsMode = projectSettings.validationBoundsMode ?? DEFAULT_BOUNDS_MODE;
+
+  const updateRule = (ruleId: ValidationRuleId, partial: Partial<ValidationRuleSetting>) => {
+    updateProjectSettings({
+      validationRules: {
+        ...projectSettings.validationRules,
+        [ruleId]: { ...config[ruleId], ...partial }
+      }
+    });
+  };
+
+  const issues = report?.issues || [];
+
+  return (
+    <div className="p-1 space-y-2">
+      <div className="flex items-center justify-between px-1">
+        <div className="flex items-center space-x-2 text-[10px] font-mono">
+          {SEVERITY_ORDER.map(severity => (
+            <span key={severity} className={`flex items-center space-x-1 ${SEVERITY_STYLES[severity].text}`}>
+              <span className={`w-1.5 h-1.5 rounded-full ${SEVERITY_STYLES[severity].dot}`} />
+              <span>{issues.filter(i => (i.severity ?? 'error') === severity).length}</span>
+            </span>
           ))}
         </div>
+        <button
+          onClick={() => setShowRules(!showRules)}
+          className={`nodrag text-[9px] uppercase font-bold tracking-wide px-1.5 py-0.5 rounded border transition-colors ${showRules ? 'bg-slate-700 border-slate-500 text-slate-200' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+        >
+          Rules
+        </button>
+      </div>
+
+      {showRules && (
+        <div className="bg-slate-900/60 border border-slate-700 rounded p-1.5 space-y-1">
+          <div className="flex items-center justify-between pb-1 mb-1 border-b border-slate-700/60" title="Opaque: measure visible pixels (alpha-trimmed). Raw: the PSD layer rectangle.">
+            <span className="text-[10px] text-slate-400">Layer bounds</span>
+            <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+              {(['opaque', 'raw'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => updateProjectSettings({ validationBoundsMode: mode })}
+                  className={`nodrag px-1.5 py-0.5 text-[9px] uppercase font-bold tracking-wide transition-colors ${boundsMode === mode ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+          </div>
+          {VALIDATION_RULES.map(rule => {
+            const setting = config[rule.id];
+            return (
+              <div key={rule.id} className="flex items-center justify-between space-x-2" title={rule.description}>
+                <label className="nodrag flex items-center space-x-1.5 cursor-pointer overflow-hidden">
+                  <input
+                    type="checkbox"
+                    checked={setting.enabled}
+                    onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+                    className="accent-blue-500 w-3 h-3 shrink-0"
+                  />
+                  <span className={`text-[10px] truncate ${setting.enabled ? 'text-slate-200' : 'text-slate-500'}`}>{rule.label}</span>
+                </label>
+                <select
+                  value={setting.severity}
+                  disabled={!setting.enabled}
+                  onChange={e => updateRule(rule.id, { severity: e.target.value as ValidationSeverity })}
+                  className="nodrag nopan appearance-none text-[9px] px-1 py-0.5 rounded font-mono bg-slate-800 text-slate-300 border border-slate-700 cursor-pointer outline-none disabled:opacity-40"
+                >
+                  {SEVERITY_ORDER.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!report ? (
+        <div className="text-[10px] text-slate-500 italic px-1">No validation report yet.</div>
+      ) : issues.length === 0 ? (
+        <div className="text-[10px] text-green-300 px-1">No issues found.</div>
+      ) : (
+        <ul className="space-y-1">
+          {SEVERITY_ORDER.flatMap(severity => issues.filter(i => (i.severity ?? 'error') === severity)).map((issue, i) => {
+            const style = SEVERITY_STYLES[issue.severity ?? 'error'];
+            return (
+              <li key={i} className="flex items-start space-x-1.5 px-1 text-[10px] leading-tight">
+                <span className={`w-1.5 h-1.5 rounded-full mt-1 shrink-0 ${style.dot}`} />
+                <span className={style.text}>{issue.message}</span>
+              </li>
+            );
+          })}
+        </ul>
       )}
     </div>
   );
 };
 
 export const DesignInfoNode = memo(({ id }: NodeProps) => {
+  const [activeTab, setActiveTab] = useState<'layers' | 'validation'>('layers');
   const edges = useEdges();
   const nodes = useNodes();
   
@@ -83,6 +201,21 @@ export const DesignInfoNode = memo(({ id }: NodeProps) => {
   }, [edges, nodes, id]);
 
   const designLayers = sourceNode?.data?.designLayers;
+  const validation = sourceNode?.data?.validation;
+
+  // Worst severity per layer, for the dots in the layer tree
+  const severityById = React.useMemo(() => {
+    const map = new Map<string, ValidationSeverity>();
+    validation?.issues.forEach(issue => {
+      if (!issue.layerId) return;
+      const severity = issue.severity ?? 'error';
+      const current = map.get(issue.layerId);
+      if (!current || SEVERITY_ORDER.indexOf(severity) < SEVERITY_ORDER.indexOf(current)) {
+        map.set(issue.layerId, severity);
+      }
+    });
+    return map;
+  }, [validation]);
 
   return (
     <div className="w-64 bg-slate-800 rounded-lg shadow-xl border border-slate-600 overflow-hidden font-sans flex flex-col h-auto max-h-96">
@@ -102,6 +235,19 @@ export const DesignInfoNode = memo(({ id }: NodeProps) => {
           </svg>
           <span className="text-sm font-semibold text-slate-200">Design Info</span>
         </div>
+        {sourceNode && (
+          <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+            {(['layers', 'validation'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`nodrag px-1.5 py-0.5 text-[9px] uppercase font-bold tracking-wide transition-colors ${activeTab === tab ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {tab === 'layers' ? 'Layers' : `Checks${validation?.issues.length ? ` (${validation.issues.length})` : ''}`}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Content */}
@@ -113,6 +259,8 @@ export const DesignInfoNode = memo(({ id }: NodeProps) => {
             </svg>
             <span className="text-xs">Connect a Loaded PSD Node</span>
           </div>
+        ) : activeTab === 'validation' ? (
+          <ValidationPanel report={validation} />
         ) : !designLayers ? (
           <div className="flex flex-col items-center justify-center h-24 text-slate-500 text-xs">
             <span>No design layers found.</span>
@@ -121,7 +269,7 @@ export const DesignInfoNode = memo(({ id }: NodeProps) => {
           <div className="py-1">
              {/* REVERSED: Render top-most layers first (Photoshop Style) */}
              {[...designLayers].reverse().map(layer => (
-               <LayerItem key={layer.id} node={layer} />
+               <LayerItem key={layer.id} node={layer} severityById={severityById} />
              ))}
           </div>
         )}
@@ -1,82 +1,26 @@
 import React, { memo, useEffect, useRef, useState, useMemo, useCallback } from 'react';
 import { Handle, Position, NodeProps, NodeResizer, useEdges } from 'reactflow';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { PSDNodeData, TransformedLayer, TransformedPayload } from '../types';
-import { findLayerByPath } from '../services/psdService';
-import { Psd } from 'ag-psd';
+import { PSDNodeData, TransformedPayload } from '../types';
+import { drawLayerTree, CompositeOptions } from '../services/compositor';
+import { acquireTreePixels } from '../services/pixelCacheService';
 import { Monitor, Eye, Activity, Grid3X3, Maximize, Scan, ZoomIn, ZoomOut, MousePointer2, Layers } from 'lucide-react';
 
-// --- HELPER: Render Single Layer ---
-const renderLayer = (ctx: CanvasRenderingContext2D, layer: TransformedLayer, psd: Psd, isPolishedView: boolean) => {
-    if (!layer.isVisible) return;
-
-    if (layer.children && layer.children.length > 0) {
-        // Reverse iteration for bottom-up composition
-        for (let i = layer.children.length - 1; i >= 0; i--) {
-            renderLayer(ctx, layer.children[i], psd, isPolishedView);
-        }
-        return;
-    }
-
-    // A) Generative Placeholder
-    if (layer.type === 'generative') {
-        ctx.save();
-        ctx.fillStyle = 'rgba(168, 85, 247, 0.15)'; 
-        ctx.strokeStyle = 'rgba(168, 85, 247, 0.6)';
-        ctx.setLineDash([4, 4]);
-        ctx.lineWidth = 1;
-        ctx.fillRect(layer.coords.x, layer.coords.y, layer.coords.w, layer.coords.h);
-        ctx.strokeRect(layer.coords.x, layer.coords.y, layer.coords.w, layer.coords.h);
-        
-        // Label
-        ctx.fillStyle = 'rgba(168, 85, 247, 0.9)';
-        ctx.font = '10px monospace';
-        ctx.fillText('AI GEN', layer.coords.x + 4, layer.coords.y + 12);
-        ctx.restore();
-        return;
-    }
-
-    // B) Standard Layer Pixel Data
-    const originalLayer = findLayerByPath(psd, layer.id);
-    if (originalLayer && originalLayer.canvas) {
-        ctx.save();
-        ctx.globalAlpha = layer.opacity;
-        
-        // Handle Rotation
-        if (layer.transform?.rotation) {
-             const cx = layer.coords.x + layer.coords.w / 2;
-             const cy = layer.coords.y + layer.coords.h / 2;
-             ctx.translate(cx, cy);
-             ctx.rotate((layer.transform.rotation * Math.PI) / 180);
-             ctx.translate(-cx, -cy);
-        }
-
-        try {
-            ctx.drawImage(
-                originalLayer.canvas,
-                layer.coords.x,
-                layer.coords.y,
-                layer.coords.w,
-                layer.coords.h
-            );
-
-            // C) Surgical Approval Dot (Polished Mode Only)
-            if (isPolishedView) {
-                const cx = layer.coords.x + layer.coords.w / 2;
-                const cy = layer.coords.y + layer.coords.h / 2;
-                
-                ctx.beginPath();
-                ctx.arc(cx, cy, 3, 0, Math.PI * 2);
-                ctx.fillStyle = '#10b981'; // Emerald-500
-                ctx.fill();
-                ctx.lineWidth = 1;
-                ctx.strokeStyle = '#064e3b'; // Emerald-900
-                ctx.stroke();
-            }
-
-        } catch(e) { /* Ignore empty/invalid canvas draw attempts */ }
-        ctx.restore();
-    }
+// --- HELPER: Surgical Approval Dot (Polished Mode Only) ---
+// Drawn inside the layer transform so it follows rotation
+const drawApprovalDot: CompositeOptions['decorateLayer'] = (ctx, layer, rect) => {
+    if (layer.type === 'generative') return;
+    const cx = rect.x + rect.w / 2;
+    const cy = rect.y + rect.h / 2;
+
+    ctx.globalAlpha = 1;
+    ctx.beginPath();
+    ctx.arc(cx, cy, 3, 0, Math.PI * 2);
+    ctx.fillStyle = '#10b981'; // Emerald-500
+    ctx.fill();
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = '#064e3b'; // Emerald-900
+    ctx.stroke();
 };
 
 // --- HELPER: Diagnostic Overlays ---
@@ -260,11 +204,13 @@ export const DesignPreviewNode = memo(({ id }: NodeProps<PSDNodeData>) => {
             ctx.fillStyle = '#1e293b'; // Slate-800
             ctx.fillRect(0, 0, w, h);
 
-            // B) Layers
+            // B) Layers (shared compositor; clipped to the target when the remap crops, e.g. UNIFORM_FILL)
             const isPolished = mode === 'CARO_FINAL' && !!payload.isPolished;
-            for (let i = payload.layers.length - 1; i >= 0; i--) {
-                renderLayer(ctx, payload.layers[i], psd, isPolished);
-            }
+            drawLayerTree(ctx, payload.layers, psd, {
+                origin: payload.targetBounds,
+                clip: payload.cropBounds,
+                decorateLayer: isPolished ? drawApprovalDot : undefined
+            });
             
             // C) Diagnostic Overlays
             drawDiagnostics(ctx, w, h, showGrid, showSafe);
@@ -272,8 +218,28 @@ export const DesignPreviewNode = memo(({ id }: NodeProps<PSDNodeData>) => {
             setStatus('RASTER_LIVE');
         };
 
-        animationFrameId = requestAnimationFrame(render);
-        return () => cancelAnimationFrame(animationFrameId);
+        // Structure-first sources decode the payload's layer pixels before the frame (pinned until drawn)
+        let isCancelled = false;
+        let releasePixels = () => {};
+        const pixels = payload ? acquireTreePixels(payload.sourceNodeId, payload.layers) : Promise.resolve(() => {});
+        pixels
+            .then(release => { releasePixels = release; }, err => console.error("Failed to decode layer pixels for preview:", err))
+            .then(() => {
+                if (isCancelled) {
+                    releasePixels();
+                    return;
+                }
+                animationFrameId = requestAnimationFrame(() => {
+                    render();
+                    releasePixels();
+                });
+            });
+
+        return () => {
+            isCancelled = true;
+            cancelAnimationFrame(animationFrameId);
+            releasePixels();
+        };
     }, [payload, psdRegistry, mode, showGrid, showSafe]);
 
     return (
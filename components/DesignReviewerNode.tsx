@@ -1,9 +1,14 @@
 import React, { memo, useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Handle, Position, NodeProps, NodeResizer, useEdges, useReactFlow, useUpdateNodeInternals, useNodes } from 'reactflow';
-import { PSDNodeData, TransformedPayload, ReviewerInstanceState, ReviewerStrategy, TransformedLayer, LayerOverride, ChatMessage } from '../types';
+import { PSDNodeData, TransformedPayload, ReviewerInstanceState, ReviewerStrategy, ChatMessage } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { findLayerByPath } from '../services/psdService';
-import { GoogleGenAI, Type } from "@google/genai";
+import { renderComposite } from '../services/compositor';
+import { acquireTreePixels } from '../services/pixelCacheService';
+import { applyOverridesToPayload } from '../services/remapEngine';
+import { getAIProvider, toBase64Data, AIPart } from '../services/aiProvider';
+import { generateValidatedStrategy, validateReviewerStrategy, resolveStrategyLimits } from '../services/strategyValidationService';
+import { useAIUsageRecorder } from '../hooks/useAIUsageRecorder';
+import { getErrorUsage } from '../services/aiUsageService';
 import { Psd } from 'ag-psd';
 import { BrainCircuit, Activity, ShieldCheck, Move, Maximize, RotateCw, CheckCircle2, ArrowRight, ScanEye } from 'lucide-react';
 
@@ -16,118 +21,22 @@ const DEFAULT_REVIEWER_STATE: ReviewerInstanceState = {
 // Renders the current mathematical layout onto a canvas for AI Vision
 const renderCurrentState = async (payload: TransformedPayload, psd: Psd): Promise<string | null> => {
     if (!payload || !psd) return null;
+    const releasePixels = await acquireTreePixels(payload.sourceNodeId, payload.layers);
 
+    // Shared compositor: same z-order, opacity and rotation rules as Preview and Export
     const { w, h } = payload.metrics.target;
-    const canvas = document.createElement('canvas');
-    canvas.width = w;
-    canvas.height = h;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-
-    // Fill background (Dark slate to help AI see boundaries)
-    ctx.fillStyle = '#0f172a';
-    ctx.fillRect(0, 0, w, h);
-
-    const drawLayers = (layers: TransformedLayer[]) => {
-        // Reverse painter's algorithm (bottom-up)
-        for (let i = layers.length - 1; i >= 0; i--) {
-            const layer = layers[i];
-            
-            if (layer.isVisible) {
-                // 1. Draw Image Content (if standard layer)
-                if (layer.type !== 'generative' && layer.type !== 'group') {
-                    const originalLayer = findLayerByPath(psd, layer.id);
-                    if (originalLayer && originalLayer.canvas) {
-                        try {
-                            // Draw at transformed coordinates
-                            ctx.globalAlpha = layer.opacity;
-                            ctx.drawImage(
-                                originalLayer.canvas, 
-                                layer.coords.x, 
-                                layer.coords.y, 
-                                layer.coords.w, 
-                                layer.coords.h
-                            );
-                        } catch (e) {
-                            console.warn("Failed to draw layer:", layer.name);
-                        }
-                    }
-                }
-                
-                // 2. Draw Generative Placeholder (if gen layer)
-                if (layer.type === 'generative') {
-                    ctx.fillStyle = 'rgba(192, 132, 252, 0.3)'; // Purple tint
-                    ctx.strokeStyle = 'rgba(192, 132, 252, 0.8)';
-                    ctx.lineWidth = 2;
-                    ctx.fillRect(layer.coords.x, layer.coords.y, layer.coords.w, layer.coords.h);
-                    ctx.strokeRect(layer.coords.x, layer.coords.y, layer.coords.w, layer.coords.h);
-                }
-
-                ctx.globalAlpha = 1.0;
-
-                // Recursion
-                if (layer.children) {
-                    drawLayers(layer.children);
-                }
-            }
-        }
-    };
-
-    drawLayers(payload.layers);
+    const canvas = renderComposite(payload.layers, psd, w, h, {
+        origin: payload.targetBounds,
+        clip: payload.cropBounds,
+        background: '#0f172a' // Dark slate to help AI see boundaries
+    });
+    releasePixels();
+    if (!canvas) return null;
 
     // Export high-quality JPEG for Vision
     return canvas.toDataURL('image/jpeg', 0.9);
 };
 
-// --- HELPER: Apply Nudges ---
-// Creates a new payload by applying CARO's overrides to the geometry
-const applyOverridesToPayload = (payload: TransformedPayload, overrides: LayerOverride[]): TransformedPayload => {
-  const deepUpdate = (layers: TransformedLayer[]): TransformedLayer[] => {
-    return layers.map(layer => {
-      const override = overrides.find(o => o.layerId === layer.id);
-      let newLayer = { ...layer };
-      
-      if (override) {
-        // Apply geometric nudges (Offsets are additive to current state)
-        const newX = layer.coords.x + override.xOffset;
-        const newY = layer.coords.y + override.yOffset;
-        
-        // Scale is multiplicative
-        const scaleMult = override.individualScale || 1;
-        
-        newLayer.coords = {
-            ...layer.coords,
-            x: newX,
-            y: newY,
-            w: layer.coords.w * scaleMult,
-            h: layer.coords.h * scaleMult
-        };
-        
-        newLayer.transform = {
-            ...layer.transform,
-            scaleX: layer.transform.scaleX * scaleMult,
-            scaleY: layer.transform.scaleY * scaleMult,
-            offsetX: newX,
-            offsetY: newY,
-            rotation: (layer.transform.rotation || 0) + (override.rotation || 0)
-        };
-      }
-      
-      if (layer.children) {
-        newLayer.children = deepUpdate(layer.children);
-      }
-      
-      return newLayer;
-    });
-  };
-
-  return {
-    ...payload,
-    layers: deepUpdate(payload.layers),
-    isPolished: true
-  };
-};
-
 // --- Subcomponent: Nudge Matrix ---
 const NudgeMatrix: React.FC<{ strategy: ReviewerStrategy | null }> = ({ strategy }) => {
     if (!strategy) return null;
@@ -245,6 +154,11 @@ const ReviewerInstanceRow: React.FC<{
                                     &gt; Applied {msg.strategySnapshot.overrides.length} surgical nudges.
                                 </div>
                             )}
+                            {msg.auditNotes?.map((note, j) => (
+                                <div key={j} className="pl-2 text-amber-500/80 italic break-words">
+                                    &gt; [AUDIT] {note}
+                                </div>
+                            ))}
                         </div>
                     ))
                 )}
@@ -286,8 +200,9 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
   const [processingState, setProcessingState] = useState<Record<number, boolean>>({});
   
   const { setNodes } = useReactFlow();
+  const recordUsage = useAIUsageRecorder(id);
   const updateNodeInternals = useUpdateNodeInternals();
-  const { payloadRegistry, psdRegistry, unregisterNode } = useProceduralStore();
+  const { payloadRegistry, psdRegistry, unregisterNode, projectSettings } = useProceduralStore();
   
   const edges = useEdges();
 
@@ -324,9 +239,7 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
           if (!visualBase64) throw new Error("Failed to composite visual state.");
 
           // 2. Prepare AI Request
-          const apiKey = process.env.API_KEY;
-          if (!apiKey) throw new Error("API Key missing");
-          const ai = new GoogleGenAI({ apiKey });
+          const provider = getAIProvider();
 
           // 3. Simplify Layer Hierarchy for Tokens
           const simplifiedLayers = payload.layers.map(l => ({
@@ -370,55 +283,52 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
             }
           `;
 
-          const parts: any[] = [
+          const parts: AIPart[] = [
               { text: prompt },
               { text: `LAYER HIERARCHY:\n${JSON.stringify(simplifiedLayers.slice(0, 50))}` }, // Limit context
-              { inlineData: { mimeType: 'image/jpeg', data: visualBase64.split(',')[1] } }
+              { image: { mimeType: 'image/jpeg', data: toBase64Data(visualBase64) } }
           ];
 
-          // 4. Call Gemini
-          const response = await ai.models.generateContent({
-              model: 'gemini-3-flash-preview',
-              contents: { parts },
-              config: {
-                  responseMimeType: "application/json",
-                  responseSchema: {
-                      type: Type.OBJECT,
-                      properties: {
-                          CARO_Audit: { type: Type.STRING },
-                          overrides: {
-                              type: Type.ARRAY,
-                              items: {
-                                  type: Type.OBJECT,
-                                  properties: {
-                                      layerId: { type: Type.STRING },
-                                      xOffset: { type: Type.NUMBER },
-                                      yOffset: { type: Type.NUMBER },
-                                      individualScale: { type: Type.NUMBER },
-                                      rotation: { type: Type.NUMBER }
-                                  },
-                                  required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
-                              }
+          // 4. Call the model (validated against the payload's layers, one re-ask on errors)
+          const limits = resolveStrategyLimits(projectSettings.strategyLimits);
+          const { strategy: newStrategy, auditNotes, usage } = await generateValidatedStrategy(provider, {
+              model: 'fast',
+              contents: [{ role: 'user', parts }],
+              schema: {
+                  type: 'object',
+                  properties: {
+                      CARO_Audit: { type: 'string' },
+                      overrides: {
+                          type: 'array',
+                          items: {
+                              type: 'object',
+                              properties: {
+                                  layerId: { type: 'string' },
+                                  xOffset: { type: 'number' },
+                                  yOffset: { type: 'number' },
+                                  individualScale: { type: 'number', default: 1 },
+                                  rotation: { type: 'number' }
+                              },
+                              required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
                           }
-                      },
-                      required: ['CARO_Audit', 'overrides']
-                  }
+                      }
+                  },
+                  required: ['CARO_Audit', 'overrides']
               }
-          });
+          }, raw => validateReviewerStrategy(raw, {
+              layers: payload.layers,
+              target: payload.metrics.target,
+              fallbackScale: 1
+          }, limits));
+          recordUsage(index, usage);
 
           // 5. Process Response
-          const result = JSON.parse(response.text || '{}');
-          
-          const newStrategy: ReviewerStrategy = {
-              CARO_Audit: result.CARO_Audit,
-              overrides: result.overrides
-          };
-
           const newLog: ChatMessage = {
               id: Date.now().toString(),
               role: 'model',
-              parts: [{ text: result.CARO_Audit }],
-              strategySnapshot: { ...payload.metrics, overrides: result.overrides } as any, // Mock strategy for UI compatibility
+              parts: [{ text: newStrategy.CARO_Audit }],
+              strategySnapshot: { ...payload.metrics, overrides: newStrategy.overrides } as any, // Mock strategy for UI compatibility
+              auditNotes: auditNotes.length > 0 ? auditNotes : undefined,
               timestamp: Date.now()
           };
 
@@ -447,6 +357,7 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
 
       } catch (e) {
           console.error("CARO Audit Failed:", e);
+          recordUsage(index, getErrorUsage(e));
       } finally {
           setProcessingState(prev => ({ ...prev, [index]: false }));
       }
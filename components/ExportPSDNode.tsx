@@ -1,27 +1,17 @@
 import React, { memo, useState, useMemo } from 'react';
-import { Handle, Position, NodeProps, useEdges } from 'reactflow';
-import { TransformedLayer, TransformedPayload, MappingContext } from '../types';
+import { Handle, Position, NodeProps, useEdges, useReactFlow } from 'reactflow';
+import { TransformedLayer, TransformedPayload, MappingContext, ContainerDefinition, PSDNodeData, PsdSourceFormat, AIUsage, TemplateMetadata, ArtboardInfo } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { findLayerByPath, writePsdFile } from '../services/psdService';
-import { Layer, Psd } from 'ag-psd';
-import { GoogleGenAI } from "@google/genai";
-
-// Helper: Calculate closest supported aspect ratio for Nano Banana
-const getClosestAspectRatio = (width: number, height: number): string => {
-    const ratio = width / height;
-    const targets = {
-        "1:1": 1,
-        "3:4": 0.75,
-        "4:3": 1.333,
-        "9:16": 0.5625,
-        "16:9": 1.777
-    };
-    
-    // Find closest aspect ratio key
-    return Object.keys(targets).reduce((prev, curr) => 
-        Math.abs(targets[curr as keyof typeof targets] - ratio) < Math.abs(targets[prev as keyof typeof targets] - ratio) ? curr : prev
-    );
-};
+import { findLayerById, writePsdFile, getTextDescriptor, getChildContainers, resolveTemplateForHandle, getPsdSourceFormat, ARTBOARD_FAMILY_HANDLE_ID } from '../services/psdService';
+import { resolveWriteFormat, formatLabel, DEFAULT_WRITE_FORMAT } from '../services/psdFormatService';
+import { getAIProvider, getClosestAspectRatio } from '../services/aiProvider';
+import { useAIUsageRecorder } from '../hooks/useAIUsageRecorder';
+import { getErrorUsage } from '../services/aiUsageService';
+import { rasterizeLayer } from '../services/compositor';
+import { acquireTreePixels } from '../services/pixelCacheService';
+import { transformLayerMask, transformVectorMask, mapPoint } from '../services/maskService';
+import { scaleLayerEffects, getEffectScale } from '../services/effectsService';
+import { Layer, Psd, LayerTextData, TextStyle, LayerMaskData } from 'ag-psd';
 
 // Helper: Convert Base64 Data URI to HTMLCanvasElement
 const base64ToCanvas = (base64: string, width: number, height: number): Promise<HTMLCanvasElement | null> => {
@@ -61,117 +51,207 @@ const base64ToCanvas = (base64: string, width: number, height: number): Promise<
     });
 };
 
-// Helper: Create a transformed version of a standard layer canvas (Rotation/Scale baking)
-const applyTransformToCanvas = (
-    sourceCanvas: HTMLCanvasElement | HTMLImageElement,
-    width: number,
-    height: number,
-    transform: { scaleX: number, scaleY: number, rotation?: number }
-): HTMLCanvasElement => {
-    // Create canvas based on target AABB dimensions
+// Helper: Move/scale/rotate ag-psd text data with its layer.
+// Font sizes (and fixed leading) scale by fontScale; the text transform keeps its own scale.
+const transformTextData = (
+    text: LayerTextData,
+    from: { x: number, y: number, w: number, h: number },
+    to: { x: number, y: number, w: number, h: number },
+    rotation: number,
+    fontScale: number
+): LayerTextData => {
+    const scaleStyle = (style: TextStyle): TextStyle => ({
+        ...style,
+        fontSize: style.fontSize !== undefined ? style.fontSize * fontScale : undefined,
+        leading: style.leading !== undefined ? style.leading * fontScale : undefined
+    });
+
+    const [a = 1, b = 0, c = 0, d = 1, tx = from.x, ty = from.y] = text.transform || [];
+    const origin = mapPoint(tx, ty, from, to, rotation);
+    const rad = (rotation * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+
+    return {
+        ...text,
+        transform: [
+            cos * a - sin * b, sin * a + cos * b,
+            cos * c - sin * d, sin * c + cos * d,
+            origin.x, origin.y
+        ],
+        style: text.style ? scaleStyle(text.style) : undefined,
+        styleRuns: text.styleRuns?.map(run => ({ ...run, style: scaleStyle(run.style) })),
+        boxBounds: text.boxBounds?.map(v => v * fontScale)
+    };
+};
+
+// Helper: Crop a canvas positioned at `rect` to `clip` (both in document space)
+const cropCanvas = (source: HTMLCanvasElement, rect: { left: number, top: number, right: number, bottom: number }, clip: { left: number, top: number, right: number, bottom: number }): HTMLCanvasElement | null => {
     const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
+    canvas.width = Math.round(clip.right - clip.left);
+    canvas.height = Math.round(clip.bottom - clip.top);
     const ctx = canvas.getContext('2d');
-    if (!ctx) return canvas;
+    if (!ctx) return null;
+    // Canvas pixels map 1:1 onto the rect after baking
+    ctx.drawImage(source, rect.left - clip.left, rect.top - clip.top, rect.right - rect.left, rect.bottom - rect.top);
+    return canvas;
+};
 
-    // Center of new bounds
-    const cx = width / 2;
-    const cy = height / 2;
+// Helper: Crop a raster mask to the bounds. A mask left entirely outside keeps
+// only its default color, which is what Photoshop shows outside any mask rect.
+const cropMaskToBounds = (mask: LayerMaskData, bounds: { x: number, y: number, w: number, h: number }): LayerMaskData => {
+    const left = mask.left ?? 0;
+    const top = mask.top ?? 0;
+    const right = mask.right ?? left;
+    const bottom = mask.bottom ?? top;
+    const clip = {
+        left: Math.max(left, bounds.x),
+        top: Math.max(top, bounds.y),
+        right: Math.min(right, bounds.x + bounds.w),
+        bottom: Math.min(bottom, bounds.y + bounds.h)
+    };
 
-    ctx.save();
-    ctx.translate(cx, cy);
-    if (transform.rotation) {
-        ctx.rotate((transform.rotation * Math.PI) / 180);
+    if (clip.right <= clip.left || clip.bottom <= clip.top) {
+        return { ...mask, left: 0, top: 0, right: 0, bottom: 0, canvas: undefined, imageData: undefined };
     }
-    
-    // Draw centered. We assume 'width' and 'height' passed here are the destination dimensions
-    // and the source should be scaled to fit? 
-    // Actually, in our pipeline, 'transform.scaleX' was already applied to calculate 'width' and 'height' in the coordinates.
-    // But 'sourceCanvas' is the original raw pixels.
-    // So we draw sourceCanvas at -w/2, -h/2 with size w, h.
-    ctx.drawImage(sourceCanvas, -width / 2, -height / 2, width, height);
-
-    ctx.restore();
-    return canvas;
+    if (clip.left === left && clip.top === top && clip.right === right && clip.bottom === bottom) return mask;
+
+    const canvas = mask.canvas ? cropCanvas(mask.canvas, { left, top, right, bottom }, clip) : undefined;
+    return { ...mask, ...clip, canvas: canvas || undefined, imageData: undefined };
+};
+
+// Helper: Crop a positioned raster layer and its masks to a bounding rect (UNIFORM_FILL remaps)
+// Returns null when the layer lies entirely outside the bounds. Live text is culled but never
+// cropped: Photoshop re-renders it from the text data, so the raster is only a preview.
+const cropLayerToBounds = (layer: Layer, bounds: { x: number, y: number, w: number, h: number }): Layer | null => {
+    const left = layer.left ?? 0;
+    const top = layer.top ?? 0;
+    const right = layer.right ?? left;
+    const bottom = layer.bottom ?? top;
+
+    const clipLeft = Math.max(left, bounds.x);
+    const clipTop = Math.max(top, bounds.y);
+    const clipRight = Math.min(right, bounds.x + bounds.w);
+    const clipBottom = Math.min(bottom, bounds.y + bounds.h);
+
+    if (clipRight <= clipLeft || clipBottom <= clipTop) return null;
+    if (layer.text) return layer;
+
+    const cropped: Layer = {
+        ...layer,
+        mask: layer.mask ? cropMaskToBounds(layer.mask, bounds) : undefined,
+        realMask: layer.realMask ? cropMaskToBounds(layer.realMask, bounds) : undefined
+    };
+    if (clipLeft === left && clipTop === top && clipRight === right && clipBottom === bottom) return cropped;
+    if (!layer.canvas) return cropped;
+
+    const canvas = cropCanvas(layer.canvas, { left, top, right, bottom }, { left: clipLeft, top: clipTop, right: clipRight, bottom: clipBottom });
+    if (!canvas) return cropped;
+
+    return {
+        ...cropped,
+        top: clipTop,
+        left: clipLeft,
+        bottom: clipBottom,
+        right: clipRight,
+        canvas
+    };
+};
+
+// Helper: Move remapped layers by (dx, dy). Artboard templates are artboard-relative, so in a
+// multi-artboard document each artboard's content is moved back to the artboard's position.
+const offsetRect = <R extends { x: number, y: number }>(rect: R, dx: number, dy: number): R => ({ ...rect, x: rect.x + dx, y: rect.y + dy });
+
+const offsetTransformedLayers = (layers: TransformedLayer[], dx: number, dy: number): TransformedLayer[] => {
+    if (dx === 0 && dy === 0) return layers;
+    return layers.map(layer => ({
+        ...layer,
+        coords: offsetRect(layer.coords, dx, dy),
+        opaqueCoords: layer.opaqueCoords && offsetRect(layer.opaqueCoords, dx, dy),
+        children: layer.children && offsetTransformedLayers(layer.children, dx, dy)
+    }));
 };
 
-// Helper: Generate Image using GenAI SDK
+// Helper: Slot name of a container. Artboards of a family often reuse container names, so their
+// slots are qualified by artboard index ("0:HEADER").
+const getSlotName = (container: ContainerDefinition, artboard?: ArtboardInfo): string => artboard ? `${artboard.index}:${container.name}` : container.name;
+
+// Helper: Artboard group spanning `rect` (document space)
+const toArtboardGroup = (artboard: ArtboardInfo, children: Layer[], rect: { x: number, y: number, w: number, h: number }): Layer => {
+    const bounds = { top: rect.y, left: rect.x, bottom: rect.y + rect.h, right: rect.x + rect.w };
+    return {
+        name: artboard.name,
+        children,
+        opened: true,
+        ...bounds,
+        artboard: { rect: bounds, presetName: artboard.presetName, backgroundType: artboard.backgroundType }
+    };
+};
+
+// Helper: Generate Image through the active AI provider
 const generateLayerImage = async (
     prompt: string, 
     width: number, 
     height: number, 
-    sourceReference?: string
+    sourceReference: string | undefined,
+    onUsage: (usage: AIUsage | undefined) => void
 ): Promise<HTMLCanvasElement | null> => {
     try {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) throw new Error("API Key missing");
-
-        const ai = new GoogleGenAI({ apiKey });
-        
-        // Construct Multi-Modal Request Parts
-        const parts: any[] = [];
-        
-        if (sourceReference) {
-            const base64Data = sourceReference.includes('base64,') 
-                ? sourceReference.split('base64,')[1] 
-                : sourceReference;
-            
-            parts.push({
-                inlineData: {
-                    mimeType: 'image/png',
-                    data: base64Data
-                }
-            });
-        }
-        
-        parts.push({ text: prompt });
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts },
-            config: {
-                imageConfig: {
-                    aspectRatio: getClosestAspectRatio(width, height) as any
-                }
-            }
+        const image = await getAIProvider().generateImage({
+            prompt,
+            aspectRatio: getClosestAspectRatio(width, height),
+            reference: sourceReference
         });
+        onUsage(image?.usage);
         
-        let base64Data = null;
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                base64Data = part.inlineData.data;
-                break;
-            }
-        }
-        
-        if (!base64Data) throw new Error("No image data returned from API");
-        return base64ToCanvas(`data:image/png;base64,${base64Data}`, width, height);
+        if (!image) throw new Error("No image data returned from API");
+        return base64ToCanvas(image.dataUrl, width, height);
 
     } catch (e) {
         console.error("Generative Fill Failed:", e);
+        onUsage(getErrorUsage(e));
         return null;
     }
 };
 
-export const ExportPSDNode = memo(({ id }: NodeProps) => {
+export const ExportPSDNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
   const [isExporting, setIsExporting] = useState(false);
   const [exportStatus, setExportStatus] = useState<string>('Idle');
   const [exportError, setExportError] = useState<string | null>(null);
 
   const edges = useEdges();
+  const { setNodes } = useReactFlow();
+  const recordUsage = useAIUsageRecorder(id);
   
   // Access global registries 
   const { psdRegistry, templateRegistry, payloadRegistry, reviewerRegistry, resolvedRegistry } = useProceduralStore();
 
   // 1. Resolve Connected Target Template from Store via Edge Source
-  const templateMetadata = useMemo(() => {
+  const { templateMetadata, isArtboardFamily } = useMemo(() => {
     const edge = edges.find(e => e.target === id && e.targetHandle === 'template-input');
-    if (!edge) return null;
-    return templateRegistry[edge.source];
+    if (!edge) return { templateMetadata: null, isArtboardFamily: false };
+    const template = resolveTemplateForHandle(templateRegistry[edge.source], edge.sourceHandle);
+    return { templateMetadata: template, isArtboardFamily: edge.sourceHandle === ARTBOARD_FAMILY_HANDLE_ID && !!template?.artboards?.length };
   }, [edges, id, templateRegistry]);
 
-  const containers = templateMetadata?.containers || [];
+  // Templates written by this node: the connected one, or every artboard of the family
+  const exportTemplates = useMemo<TemplateMetadata[]>(() => {
+    if (!templateMetadata) return [];
+    return isArtboardFamily ? templateMetadata.artboards! : [templateMetadata];
+  }, [templateMetadata, isArtboardFamily]);
+
+  const slots = useMemo(() => exportTemplates.flatMap(template => template.containers.map(container => ({
+    template,
+    container,
+    name: getSlotName(container, isArtboardFamily ? template.artboard : undefined)
+  }))), [exportTemplates, isArtboardFamily]);
+
+  const artboard = templateMetadata?.artboard;
+  const artboardExportMode = data.artboardExportMode || 'document';
+
+  const setArtboardExportMode = (mode: 'document' | 'artboard') => {
+    setNodes(nds => nds.map(n => n.id === id ? { ...n, data: { ...n.data, artboardExportMode: mode } } : n));
+  };
 
   // 2. Map Connections to Payloads (STRICT GATE LOGIC)
   const { slotConnections, validationErrors } = useMemo(() => {
@@ -222,8 +302,24 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
     return { slotConnections: map, validationErrors: errors };
   }, [edges, id, payloadRegistry, reviewerRegistry, resolvedRegistry]);
 
+  // Format that preserves the connected sources (bit depth, color mode, PSB)
+  const matchSourceFormat = !!data.matchSourceFormat;
+  const sourceWriteFormat = useMemo(() => {
+    const sourceIds = new Set<string>();
+    slotConnections.forEach(payload => sourceIds.add(payload.sourceNodeId));
+    const formats = Array.from(sourceIds)
+      .map(sourceId => psdRegistry[sourceId] ? getPsdSourceFormat(psdRegistry[sourceId]) : undefined)
+      .filter((format): format is PsdSourceFormat => !!format);
+    return resolveWriteFormat(formats);
+  }, [slotConnections, psdRegistry]);
+  const hasSourceFormat = formatLabel(sourceWriteFormat) !== formatLabel(DEFAULT_WRITE_FORMAT);
+
+  const setMatchSourceFormat = (enabled: boolean) => {
+    setNodes(nds => nds.map(n => n.id === id ? { ...n, data: { ...n.data, matchSourceFormat: enabled } } : n));
+  };
+
   // 3. Status Calculation
-  const totalSlots = containers.length;
+  const totalSlots = slots.length;
   const filledSlots = slotConnections.size;
   const isTemplateReady = !!templateMetadata;
   const isExportReady = isTemplateReady && filledSlots > 0 && validationErrors.length === 0;
@@ -236,22 +332,18 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
     setExportError(null);
     setExportStatus('Analyzing procedural graph...');
 
-    try {
-      // A. Initialize New PSD Structure
-      const newPsd: Psd = {
-        width: templateMetadata.canvas.width,
-        height: templateMetadata.canvas.height,
-        children: [],
-      };
+    const pixelReleases: (() => void)[] = [];
 
-      // B. Synthesis Phase: Pre-generate or Reuse AI assets
+    try {
+      // A. Synthesis Phase: Pre-generate or Reuse AI assets
       const generatedAssets = new Map<string, HTMLCanvasElement>();
       const generationTasks: Promise<void>[] = [];
+      const failedGenerations: string[] = []; // Layer names left out after the AI queue gave up (or was cancelled)
 
       setExportStatus('Synthesizing AI Layers...');
 
-      for (const container of containers) {
-          const payload = slotConnections.get(container.name);
+      for (const slot of slots) {
+          const payload = slotConnections.get(slot.name);
           if (!payload) continue;
           
           const findGenerativeLayers = (layers: TransformedLayer[]) => {
@@ -280,10 +372,13 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                                   layer.generativePrompt!, 
                                   layer.coords.w, 
                                   layer.coords.h,
-                                  payload.sourceReference
+                                  payload.sourceReference,
+                                  usage => recordUsage(0, usage)
                               );
                               if (canvas) {
                                   generatedAssets.set(layer.id, canvas);
+                              } else {
+                                  failedGenerations.push(layer.name);
                               }
                           };
                           generationTasks.push(task());
@@ -299,17 +394,28 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
       }
 
       if (generationTasks.length > 0) {
+          // Tasks run through the shared AI queue, so only a few generations are in flight at once
           setExportStatus(`Compiling ${generationTasks.length} high-fidelity assets...`);
           await Promise.all(generationTasks);
       }
 
-      // C. Assembly Phase: Reconstruct Hierarchy with Rotation/Scale Banking
+      // Structure-first sources: decode every exported layer, pinned until the file is written
+      setExportStatus('Decoding source pixels...');
+      for (const payload of slotConnections.values()) {
+          pixelReleases.push(await acquireTreePixels(payload.sourceNodeId, payload.layers));
+      }
+
+      // B. Assembly Phase: Reconstruct Hierarchy with Rotation/Scale Banking
       setExportStatus('Assembling PSD structure...');
 
+      // Text layers need Photoshop to re-render them from text data on open
+      let hasTextLayers = false;
+
       const reconstructHierarchy = (
         transformedLayers: TransformedLayer[], 
         sourcePsd: Psd | undefined,
-        assets: Map<string, HTMLCanvasElement>
+        assets: Map<string, HTMLCanvasElement>,
+        cropBounds?: TransformedPayload['cropBounds']
       ): Layer[] => {
         const resultLayers: Layer[] = [];
 
@@ -327,46 +433,77 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                         bottom: metaLayer.coords.y + metaLayer.coords.h,
                         right: metaLayer.coords.x + metaLayer.coords.w,
                         hidden: !metaLayer.isVisible,
-                        opacity: metaLayer.opacity * 255,
+                        opacity: metaLayer.opacity,
                         canvas: asset // Inject synthetic pixel data
                     };
                 }
             } 
             // BRANCH 2: Standard Layer (Clone + Raster Transform)
             else if (sourcePsd) {
-                const originalLayer = findLayerByPath(sourcePsd, metaLayer.id);
+                const originalLayer = findLayerById(sourcePsd, metaLayer.id);
                 
                 if (originalLayer) {
                     // Check if CARO applied overrides requiring raster bake (Rotation)
-                    const hasRotation = !!metaLayer.transform.rotation && metaLayer.transform.rotation !== 0;
+                    const rotation = metaLayer.transform.rotation || 0;
                     
                     let bakedCanvas = originalLayer.canvas;
+                    let bakedBounds = metaLayer.coords;
 
-                    // If rotation exists, we must re-rasterize the original canvas into a transformed state
-                    if (originalLayer.canvas && (hasRotation || metaLayer.transform.scaleX !== 1)) {
-                         bakedCanvas = applyTransformToCanvas(
-                             originalLayer.canvas as HTMLCanvasElement, 
-                             metaLayer.coords.w, 
-                             metaLayer.coords.h, 
-                             metaLayer.transform
-                         );
+                    // Scaled or rotated layers are re-rasterized by the shared compositor (rotated AABB)
+                    if (originalLayer.canvas && (rotation !== 0 || metaLayer.transform.scaleX !== 1 || metaLayer.transform.scaleY !== 1)) {
+                         const baked = rasterizeLayer(originalLayer.canvas, metaLayer.coords, rotation);
+                         bakedCanvas = baked.canvas;
+                         bakedBounds = baked.bounds;
                     }
 
                     newLayer = {
                         ...originalLayer, // Copy metadata
-                        top: metaLayer.coords.y,
-                        left: metaLayer.coords.x,
-                        bottom: metaLayer.coords.y + metaLayer.coords.h,
-                        right: metaLayer.coords.x + metaLayer.coords.w,
+                        top: bakedBounds.y,
+                        left: bakedBounds.x,
+                        bottom: bakedBounds.y + bakedBounds.h,
+                        right: bakedBounds.x + bakedBounds.w,
                         hidden: !metaLayer.isVisible,
-                        opacity: metaLayer.opacity * 255,
+                        opacity: metaLayer.opacity,
                         children: undefined,
                         canvas: bakedCanvas
                     };
                     
+                    // Masks live in absolute document space: move them with the layer
+                    const sourceRect = {
+                        x: originalLayer.left ?? 0,
+                        y: originalLayer.top ?? 0,
+                        w: (originalLayer.right ?? 0) - (originalLayer.left ?? 0),
+                        h: (originalLayer.bottom ?? 0) - (originalLayer.top ?? 0)
+                    };
+                    if (sourceRect.w > 0 && sourceRect.h > 0) {
+                        if (originalLayer.mask) {
+                            newLayer.mask = transformLayerMask(originalLayer.mask, sourceRect, metaLayer.coords, rotation);
+                        }
+                        if (originalLayer.realMask) {
+                            newLayer.realMask = transformLayerMask(originalLayer.realMask, sourceRect, metaLayer.coords, rotation);
+                        }
+                        if (originalLayer.vectorMask) {
+                            newLayer.vectorMask = transformVectorMask(originalLayer.vectorMask, sourceRect, metaLayer.coords, rotation);
+                        }
+                    }
+
+                    // Live text: rewrite font size and transform; the baked canvas is only a stale preview
+                    if (originalLayer.text && metaLayer.text && sourceRect.w > 0 && sourceRect.h > 0) {
+                        const fontScale = metaLayer.text.fontSize / getTextDescriptor(originalLayer.text).fontSize;
+                        newLayer.text = transformTextData(originalLayer.text, sourceRect, metaLayer.coords, rotation, fontScale);
+                        hasTextLayers = true;
+                    }
+
+                    // Effect sizes and distances follow the layer scale (e.g. no 20px stroke on a 0.3x icon)
+                    if (originalLayer.effects) {
+                        newLayer.effects = scaleLayerEffects(originalLayer.effects, getEffectScale(metaLayer.transform));
+                    }
+                    
                     if (metaLayer.type === 'group' && metaLayer.children) {
-                        newLayer.children = reconstructHierarchy(metaLayer.children, sourcePsd, assets);
+                        newLayer.children = reconstructHierarchy(metaLayer.children, sourcePsd, assets, cropBounds);
                         newLayer.opened = true;
+                    } else if (cropBounds) {
+                        newLayer = cropLayerToBounds(newLayer, cropBounds) || undefined;
                     }
                 }
             }
@@ -378,45 +515,100 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
         return resultLayers;
       };
 
-      const finalChildren: Layer[] = [];
-
-      for (const container of containers) {
-          const payload = slotConnections.get(container.name);
-          
+      // Sub-containers are written inside their parent's group, above the parent's own content.
+      // A sub-container with its own payload replaces the group the parent decomposed into it.
+      // (dx, dy) moves artboard-relative content to where the artboard sits in the document.
+      const buildContainerGroup = (template: TemplateMetadata, container: ContainerDefinition, dx: number, dy: number): Layer | null => {
+          const slotName = (c: ContainerDefinition) => getSlotName(c, isArtboardFamily ? template.artboard : undefined);
+          const payload = slotConnections.get(slotName(container));
+          const subContainers = getChildContainers(template, container.id);
+          const childGroups = subContainers
+              .map(child => buildContainerGroup(template, child, dx, dy))
+              .filter((group): group is Layer => !!group);
+          const ownedChildren = new Set(subContainers.filter(child => slotConnections.has(slotName(child))).map(child => child.name));
+
+          let reconstructedContent: Layer[] = [];
           if (payload) {
               const sourcePsd = psdRegistry[payload.sourceNodeId];
-              
-              const reconstructedContent = reconstructHierarchy(
-                  payload.layers, 
+              reconstructedContent = reconstructHierarchy(
+                  offsetTransformedLayers(payload.layers.filter(layer => !layer.nestedContainer || !ownedChildren.has(layer.nestedContainer)), dx, dy),
                   sourcePsd, 
-                  generatedAssets
+                  generatedAssets,
+                  payload.cropBounds && offsetRect(payload.cropBounds, dx, dy)
               );
-              
-              const containerGroup: Layer = {
-                  name: container.originalName,
-                  children: reconstructedContent,
-                  opened: true,
-                  top: container.bounds.y,
-                  left: container.bounds.x,
-                  bottom: container.bounds.y + container.bounds.h,
-                  right: container.bounds.x + container.bounds.w,
-              };
-
-              finalChildren.push(containerGroup);
           }
-      }
 
-      newPsd.children = finalChildren;
+          if (!payload && childGroups.length === 0) return null;
+
+          return {
+              name: container.originalName,
+              children: [...reconstructedContent, ...childGroups],
+              opened: true,
+              top: container.bounds.y + dy,
+              left: container.bounds.x + dx,
+              bottom: container.bounds.y + dy + container.bounds.h,
+              right: container.bounds.x + dx + container.bounds.w,
+          };
+      };
+
+      const buildTemplateLayers = (template: TemplateMetadata, dx: number = 0, dy: number = 0): Layer[] => template.containers
+          .filter(container => !container.parentId)
+          .map(container => buildContainerGroup(template, container, dx, dy))
+          .filter((group): group is Layer => !!group);
+
+      // C. Documents: artboards without any filled slot are left out of a family export
+      const filledTemplates = exportTemplates.filter(template => slots.some(slot => slot.template === template && slotConnections.has(slot.name)));
+      const documents: { psd: Psd, label: string }[] = [];
+
+      if (isArtboardFamily && artboardExportMode === 'artboard') {
+          // The whole family in one document, each artboard back at its rect in the source canvas
+          documents.push({
+              psd: {
+                  width: templateMetadata.canvas.width,
+                  height: templateMetadata.canvas.height,
+                  children: filledTemplates.map(template => {
+                      const { bounds } = template.artboard!;
+                      return toArtboardGroup(template.artboard!, buildTemplateLayers(template, bounds.x, bounds.y), bounds);
+                  })
+              },
+              label: 'ARTBOARDS_'
+          });
+      } else {
+          // One document per template. Artboard templates are artboard-relative, so the content already
+          // sits at the artboard's origin; in 'artboard' mode it is wrapped in an artboard spanning the canvas.
+          filledTemplates.forEach(template => {
+              const { width, height } = template.canvas;
+              const children = buildTemplateLayers(template);
+              documents.push({
+                  psd: {
+                      width,
+                      height,
+                      children: template.artboard && artboardExportMode === 'artboard'
+                          ? [toArtboardGroup(template.artboard, children, { x: 0, y: 0, w: width, h: height })]
+                          : children
+                  },
+                  label: template.artboard ? `${template.artboard.name.replace(/[^\w-]+/g, '_')}_` : ''
+              });
+          });
+      }
 
-      // D. Write to File
-      setExportStatus('Finalizing binary...');
-      await writePsdFile(newPsd, `PROCEDURAL_EXPORT_${Date.now()}.psd`);
+      // D. Write to File (optionally transcoded back to the sources' depth and color mode)
+      const writeFormat = matchSourceFormat ? sourceWriteFormat : DEFAULT_WRITE_FORMAT;
+      setExportStatus(matchSourceFormat && hasSourceFormat ? `Writing ${formatLabel(writeFormat)}...` : 'Finalizing binary...');
+      const timestamp = Date.now();
+      for (const { psd, label } of documents) {
+          await writePsdFile(psd, `PROCEDURAL_EXPORT_${label}${timestamp}.psd`, { invalidateTextLayers: hasTextLayers }, writeFormat);
+      }
       setExportStatus('Done');
+      if (failedGenerations.length > 0) {
+          setExportError(`${failedGenerations.length} generative layer(s) failed and were left out: ${failedGenerations.join(', ')}`);
+      }
 
     } catch (e: any) {
         console.error("Export Failed:", e);
         setExportError(e.message || "Unknown export error");
     } finally {
+        pixelReleases.forEach(release => release());
         setIsExporting(false);
         setTimeout(() => setExportStatus('Idle'), 3000);
     }
@@ -448,9 +640,58 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                title="Target Template Definition"
              />
              <span className={`text-xs font-mono ${isTemplateReady ? 'text-emerald-400' : 'text-slate-500 italic'}`}>
-                {isTemplateReady ? `${templateMetadata?.canvas.width}x${templateMetadata?.canvas.height} px` : 'Connect Template...'}
+                {!isTemplateReady ? 'Connect Template...' : isArtboardFamily
+                    ? `${exportTemplates.length} artboards · ${templateMetadata?.canvas.width}x${templateMetadata?.canvas.height} px`
+                    : `${templateMetadata?.canvas.width}x${templateMetadata?.canvas.height} px`}
              </span>
          </div>
+
+         {(artboard || isArtboardFamily) && (
+             <div className="flex items-center justify-between pl-4 pt-1">
+                 {artboard ? (
+                     <span className="text-[10px] text-slate-400 truncate mr-2" title={artboard.name}>
+                         Artboard: <span className="text-slate-200">{artboard.name}</span>
+                     </span>
+                 ) : (
+                     <span className="text-[10px] text-slate-400 truncate mr-2">
+                         Artboards: <span className="text-slate-200">all {exportTemplates.length}</span>
+                     </span>
+                 )}
+                 <div className="flex bg-slate-900 rounded border border-slate-700 overflow-hidden shrink-0">
+                     {(['document', 'artboard'] as const).map(mode => (
+                         <button
+                           key={mode}
+                           onClick={() => setArtboardExportMode(mode)}
+                           className={`px-1.5 py-0.5 text-[9px] uppercase font-bold tracking-wide transition-colors nodrag ${
+                               artboardExportMode === mode ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+                           }`}
+                           title={isArtboardFamily
+                               ? (mode === 'document' ? 'Write each artboard as its own document' : 'Write every artboard into one document')
+                               : (mode === 'document' ? 'Write as a standalone document' : 'Write as an artboard')}
+                         >
+                             {mode === 'document' ? 'Doc' : 'Artboard'}
+                         </button>
+                     ))}
+                 </div>
+             </div>
+         )}
+
+         {hasSourceFormat && (
+             <div className="flex items-center justify-between pl-4 pt-1">
+                 <span className="text-[10px] text-slate-400 truncate mr-2">
+                     Source: <span className="text-slate-200">{formatLabel(sourceWriteFormat)}</span>
+                 </span>
+                 <button
+                   onClick={() => setMatchSourceFormat(!matchSourceFormat)}
+                   className={`px-1.5 py-0.5 rounded border text-[9px] uppercase font-bold tracking-wide transition-colors nodrag shrink-0 ${
+                       matchSourceFormat ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-500 hover:text-slate-300'
+                   }`}
+                   title={matchSourceFormat ? 'Writing in the source format. Click to write 8-bit RGB.' : 'Writing 8-bit RGB. Click to write in the source format.'}
+                 >
+                     Match Source
+                 </button>
+             </div>
+         )}
       </div>
 
       {/* Dynamic Slots Area */}
@@ -460,64 +701,71 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                   Waiting for Target Template...
               </div>
           ) : (
-              containers.map(container => {
-                  const isFilled = slotConnections.has(container.name);
-                  const payload = slotConnections.get(container.name);
+              slots.map(({ template, container, name }, index) => {
+                  const isFilled = slotConnections.has(name);
+                  const payload = slotConnections.get(name);
+                  const artboardHeading = isArtboardFamily && slots[index - 1]?.template !== template ? template.artboard!.name : null;
                   const isGen = payload?.requiresGeneration || payload?.previewUrl; 
                   const isConfirmed = payload?.isConfirmed;
                   const isPolished = payload?.isPolished;
 
                   return (
-                      <div 
-                        key={container.id} 
-                        className={`relative flex items-center justify-between p-2 pl-4 rounded border transition-colors ${
-                            isFilled 
-                            ? 'bg-indigo-900/20 border-indigo-500/30' 
-                            : 'bg-slate-800/50 border-slate-700/50'
-                        }`}
-                      >
-                          <Handle 
-                            type="target" 
-                            position={Position.Left} 
-                            id={`input-${container.name}`}
-                            className={`!w-3 !h-3 !-left-1.5 !border-2 transition-colors duration-200 ${
+                      <React.Fragment key={name}>
+                          {artboardHeading && (
+                              <div className="text-[9px] uppercase text-slate-500 font-bold tracking-wider pt-1 px-1 truncate" title={artboardHeading}>
+                                  {artboardHeading}
+                              </div>
+                          )}
+                          <div 
+                            className={`relative flex items-center justify-between p-2 pl-4 rounded border transition-colors ${
                                 isFilled 
-                                ? '!bg-indigo-500 !border-white' 
-                                : '!bg-slate-700 !border-slate-500'
+                                ? 'bg-indigo-900/20 border-indigo-500/30' 
+                                : 'bg-slate-800/50 border-slate-700/50'
                             }`}
-                            title={`Input for ${container.name}`} 
-                          />
+                          >
+                              <Handle 
+                                type="target" 
+                                position={Position.Left} 
+                                id={`input-${name}`}
+                                className={`!w-3 !h-3 !-left-1.5 !border-2 transition-colors duration-200 ${
+                                    isFilled 
+                                    ? '!bg-indigo-500 !border-white' 
+                                    : '!bg-slate-700 !border-slate-500'
+                                }`}
+                                title={`Input for ${container.name}`} 
+                              />
                           
-                          <div className="flex flex-col flex-1 mr-2 overflow-hidden">
-                              <span className={`text-xs font-medium truncate ${isFilled ? 'text-indigo-200' : 'text-slate-400'}`}>
-                                  {container.name}
-                              </span>
-                              <div className="flex items-center space-x-1.5 mt-0.5">
-                                  {isGen && (
-                                      <span className="text-[8px] text-purple-400 font-mono leading-none">
-                                          ✨ AI
-                                      </span>
-                                  )}
-                                  {isPolished ? (
-                                      <span className="text-[8px] bg-emerald-500/20 text-emerald-300 px-1 rounded border border-emerald-500/30 leading-none">
-                                          POLISHED
-                                      </span>
-                                  ) : isFilled ? (
-                                      <span className="text-[8px] text-yellow-500 font-bold leading-none">
-                                          UNPOLISHED
-                                      </span>
-                                  ) : null}
+                              <div className="flex flex-col flex-1 mr-2 overflow-hidden">
+                                  <span className={`text-xs font-medium truncate ${isFilled ? 'text-indigo-200' : 'text-slate-400'}`}>
+                                      {container.name}
+                                  </span>
+                                  <div className="flex items-center space-x-1.5 mt-0.5">
+                                      {isGen && (
+                                          <span className="text-[8px] text-purple-400 font-mono leading-none">
+                                              ✨ AI
+                                          </span>
+                                      )}
+                                      {isPolished ? (
+                                          <span className="text-[8px] bg-emerald-500/20 text-emerald-300 px-1 rounded border border-emerald-500/30 leading-none">
+                                              POLISHED
+                                          </span>
+                                      ) : isFilled ? (
+                                          <span className="text-[8px] text-yellow-500 font-bold leading-none">
+                                              UNPOLISHED
+                                          </span>
+                                      ) : null}
+                                  </div>
                               </div>
-                          </div>
                           
-                          {isFilled ? (
-                              <svg className="w-3 h-3 text-emerald-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                              </svg>
-                          ) : (
-                              <span className="text-[9px] text-slate-600">Empty</span>
-                          )}
-                      </div>
+                              {isFilled ? (
+                                  <svg className="w-3 h-3 text-emerald-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                                  </svg>
+                              ) : (
+                                  <span className="text-[9px] text-slate-600">Empty</span>
+                              )}
+                          </div>
+                      </React.Fragment>
                   );
               })
           )}
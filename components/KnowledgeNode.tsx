@@ -4,7 +4,9 @@ import { useProceduralStore } from '../store/ProceduralContext';
 import { PSDNodeData, VisualAnchor, KnowledgeContext } from '../types';
 import { BookOpen, Image as ImageIcon, FileText, Trash2, UploadCloud, BrainCircuit, Loader2, CheckCircle2, AlertCircle, X, Layers, RefreshCw } from 'lucide-react';
 import * as pdfjsLib from 'pdfjs-dist';
-import { GoogleGenAI } from "@google/genai";
+import { getAIProvider } from '../services/aiProvider';
+import { useAIUsageRecorder } from '../hooks/useAIUsageRecorder';
+import { getErrorUsage } from '../services/aiUsageService';
 
 // Initialize PDF Worker from CDN to handle parsing off the main thread
 pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@4.0.379/build/pdf.worker.min.mjs';
@@ -122,6 +124,7 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
 
   const { registerKnowledge, unregisterNode } = useProceduralStore();
   const { setNodes } = useReactFlow();
+  const recordUsage = useAIUsageRecorder(id);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -243,11 +246,10 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         let finalRules = "";
 
         if (rawText.trim().length > 0) {
-            const apiKey = process.env.API_KEY;
-            if (apiKey) {
-                const ai = new GoogleGenAI({ apiKey });
-                const response = await ai.models.generateContent({
-                    model: 'gemini-3-flash-preview',
+            const provider = getAIProvider();
+            if (provider.isAvailable()) {
+                const response = await provider.generateText({
+                    model: 'fast',
                     contents: `
                         SOURCE MATERIAL:
                         ${rawText.substring(0, 25000)} // Truncate to be safe
@@ -259,13 +261,12 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
                         
                         Format as plain text.
                     `,
-                    config: {
-                        systemInstruction: "You are a Design Systems Lead. Extract strict procedural logic from brand guidelines."
-                    }
+                    systemInstruction: "You are a Design Systems Lead. Extract strict procedural logic from brand guidelines."
                 });
+                recordUsage(0, response.usage);
                 finalRules = response.text || "No rules generated.";
             } else {
-                 finalRules = "API Key missing. Rules could not be distilled from text.";
+                 finalRules = `${provider.label} is not configured. Rules could not be distilled from text.`;
             }
         } else if (visualAnchors.length > 0) {
             finalRules = "Adhere to the visual style, color palette, and spatial rhythm of the attached reference images.";
@@ -297,6 +298,7 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
 
     } catch (e) {
         console.error("Distillation error", e);
+        recordUsage(0, getErrorUsage(e));
     } finally {
         setIsDistilling(false);
     }
@@ -1,7 +1,14 @@
 import React, { memo, useCallback, useState, useRef, useEffect } from 'react';
 import { Handle, Position, NodeProps, useReactFlow } from 'reactflow';
-import { parsePsdFile, extractTemplateMetadata, mapLayersToContainers, getCleanLayerTree, getSemanticTheme } from '../services/psdService';
-import { PSDNodeData, TemplateMetadata } from '../types';
+import { parsePsdFile, extractTemplateMetadata, getCleanLayerTree, getSemanticTheme, buildLayerIdMigration, isAbortError, getPsdSourceFormat } from '../services/psdService';
+import { describeSourceFormatConversions, formatLabel } from '../services/psdFormatService';
+import { describeAnnotations } from '../services/layoutService';
+import { migrateDownstreamLayerIds, getDownstreamNodeIds, collectLayerReferences, findUnmatchedReferences } from '../services/layerMigrationService';
+import { diffLayerTrees, collectLayerIds } from '../services/revisionService';
+import { validateDesign } from '../services/validationService';
+import { registerPixelSource, formatMegabytes } from '../services/pixelCacheService';
+import { usePixelCacheStats } from '../hooks/usePixelCacheStats';
+import { PSDNodeData, TemplateMetadata, RevisionDiff, LayerChangeKind, PsdParseProgress, PsdParseStage, PsdSourceFormat } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
 
 // Sub-component for visualizing the template structure
@@ -44,10 +51,15 @@ const TemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metadata })
                 width: `${container.normalized.w * 100}%`,
                 height: `${container.normalized.h * 100}%`,
               }}
-              title={`${container.name} (${container.bounds.w}x${container.bounds.h})`}
+              title={[
+                `${container.name} (${container.bounds.w}x${container.bounds.h})`,
+                container.annotations ? describeAnnotations(container.annotations) : '',
+                ...(container.annotationErrors || []).map(e => `⚠ ${e}`)
+              ].filter(Boolean).join('\n')}
             >
               <div className="px-1 py-0.5 bg-black/40 text-[8px] whitespace-nowrap truncate w-full leading-none">
                 {container.name}
+                {container.annotationErrors && <span className="text-orange-400"> ⚠</span>}
               </div>
             </div>
           ))}
@@ -57,14 +69,151 @@ const TemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metadata })
   );
 };
 
+const CHANGE_STYLES: Record<LayerChangeKind, string> = {
+  added: 'text-emerald-300',
+  removed: 'text-red-300',
+  renamed: 'text-sky-300',
+  moved: 'text-amber-300',
+  resized: 'text-purple-300',
+};
+
+// Sub-component summarizing what changed since the previously loaded revision
+const RevisionReport: React.FC<{ diff: RevisionDiff, onDismiss: () => void }> = ({ diff, onDismiss }) => {
+  const counts = diff.changes.reduce((acc, change) => {
+    change.kinds.forEach(kind => { acc[kind] = (acc[kind] || 0) + 1; });
+    return acc;
+  }, {} as Partial<Record<LayerChangeKind, number>>);
+  const kinds = Object.keys(CHANGE_STYLES) as LayerChangeKind[];
+
+  return (
+    <div className="mt-3 p-2 rounded border border-sky-800 bg-sky-900/20 text-[10px] text-sky-100">
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-bold uppercase tracking-wider">Revision Diff</span>
+        <button onClick={onDismiss} className="text-sky-400 hover:text-white uppercase text-[9px]">Dismiss</button>
+      </div>
+      {diff.changes.length === 0 ? (
+        <div className="opacity-80">No layer changes since {diff.previousFileName || 'the previous file'}.</div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-x-2 mb-1">
+            {kinds.filter(kind => counts[kind]).map(kind => (
+              <span key={kind} className={`${CHANGE_STYLES[kind]} font-mono`}>{counts[kind]} {kind}</span>
+            ))}
+          </div>
+          <ul className="space-y-0.5 opacity-90 max-h-24 overflow-y-auto custom-scrollbar">
+            {diff.changes.map(change => (
+              <li key={`${change.kinds[0]}-${change.layerId}`} className="leading-tight truncate" title={change.layerId}>
+                <span className={CHANGE_STYLES[change.kinds[0]]}>{change.kinds.join('+')}</span>{' '}
+                {change.previousName ? `${change.previousName} → ${change.name}` : change.name}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      {diff.reboundCount > 0 && (
+        <div className="mt-1 text-emerald-300">{diff.reboundCount} reference{diff.reboundCount === 1 ? '' : 's'} rebound to matching layers</div>
+      )}
+      {diff.unmatched.length > 0 && (
+        <div className="mt-1 p-1 rounded border border-orange-700 bg-orange-900/30 text-orange-200">
+          <span className="font-bold uppercase tracking-wider block">{diff.unmatched.length} Unmatched Reference{diff.unmatched.length === 1 ? '' : 's'}</span>
+          <ul className="list-disc pl-3">
+            {diff.unmatched.slice(0, 4).map((ref, i) => (
+              <li key={i} className="leading-tight truncate" title={`${ref.nodeId} → ${ref.layerId}`}>{ref.label} ({ref.layerId})</li>
+            ))}
+            {diff.unmatched.length > 4 && (
+              <li className="italic text-orange-400">...and {diff.unmatched.length - 4} more</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PARSE_STAGES: { stage: PsdParseStage, label: string }[] = [
+  { stage: 'read', label: 'Reading file' },
+  { stage: 'decode', label: 'Decoding PSD' },
+  { stage: 'layers', label: 'Building layers' },
+  { stage: 'images', label: 'Transferring images' },
+];
+
+// Staged progress for the off-thread parse, with a cancel action
+const ParseProgress: React.FC<{ progress: PsdParseProgress | null, onCancel: () => void }> = ({ progress, onCancel }) => {
+  const currentIndex = progress ? PARSE_STAGES.findIndex(s => s.stage === progress.stage) : 0;
+
+  return (
+    <div className="flex flex-col py-3 space-y-2">
+      {PARSE_STAGES.map(({ stage, label }, index) => {
+        const isDone = index < currentIndex || (index === currentIndex && progress?.progress === 1);
+        const isActive = index === currentIndex && !isDone;
+        return (
+          <div key={stage} className="space-y-0.5">
+            <div className="flex items-center justify-between text-[10px]">
+              <span className={isDone ? 'text-green-400' : isActive ? 'text-slate-200' : 'text-slate-600'}>
+                {isDone ? '✓' : isActive ? '›' : '·'} {label}
+              </span>
+              {isActive && progress?.detail && <span className="text-slate-500 font-mono">{progress.detail}</span>}
+            </div>
+            {isActive && (
+              <div className="h-1 bg-slate-700 rounded overflow-hidden">
+                <div
+                  className={`h-full bg-blue-500 transition-all duration-200 ${stage === 'decode' ? 'animate-pulse w-full' : ''}`}
+                  style={stage === 'decode' ? undefined : { width: `${Math.round((progress?.progress ?? 0) * 100)}%` }}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={onCancel}
+        className="self-end mt-1 py-1 px-3 bg-slate-700 hover:bg-red-900/60 text-[10px] text-slate-300 rounded transition-colors uppercase font-medium tracking-wide"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+// Decoded layer pixels held for this source (structure-first loads decode them on demand)
+const PixelMemory: React.FC<{ nodeId: string }> = ({ nodeId }) => {
+  const stats = usePixelCacheStats();
+  const usage = stats.bySource[nodeId];
+  const isDecoding = stats.decoding.includes(nodeId);
+
+  return (
+    <div className="mt-2 flex items-center justify-between text-[9px] text-slate-500 font-mono" title="Layer pixels are decoded when a preview, review or export needs them">
+      <span>{isDecoding ? 'Decoding pixels...' : usage ? `${usage.layers} layers decoded` : 'Pixels on demand'}</span>
+      <span className={isDecoding ? 'text-blue-400 animate-pulse' : ''}>{formatMegabytes(usage?.bytes ?? 0)}</span>
+    </div>
+  );
+};
+
+// Warns when the file is not plain 8-bit RGB: what was converted for preview and remapping
+const SourceFormatNotice: React.FC<{ format: PsdSourceFormat }> = ({ format }) => {
+  const notes = describeSourceFormatConversions(format);
+  if (notes.length === 0) return null;
+
+  return (
+    <div className="mt-2 p-2 rounded border border-amber-700/50 bg-amber-900/20 text-[10px] text-amber-200">
+      <div className="font-bold uppercase tracking-wider mb-0.5">{formatLabel(format)} source</div>
+      <ul className="list-disc pl-3 space-y-0.5 opacity-90">
+        {notes.map((note, i) => <li key={i} className="leading-tight">{note}</li>)}
+      </ul>
+    </div>
+  );
+};
+
 export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
   const [isLoading, setIsLoading] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
+  const [parseProgress, setParseProgress] = useState<PsdParseProgress | null>(null);
+  const parseAbortRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { setNodes } = useReactFlow();
+  const { setNodes, getEdges } = useReactFlow();
   
   // Connect to Procedural Store
-  const { psdRegistry, registerPsd, registerTemplate, unregisterNode, triggerGlobalRefresh } = useProceduralStore();
+  const { psdRegistry, registerPsd, registerTemplate, unregisterNode, triggerGlobalRefresh, projectSettings } = useProceduralStore();
 
   // Determine State
   const isDataLoaded = !!data.template;
@@ -76,6 +225,11 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
     return () => unregisterNode(id);
   }, [id, unregisterNode]);
 
+  // Stop an in-flight parse when the node goes away
+  useEffect(() => {
+    return () => parseAbortRef.current?.abort();
+  }, []);
+
   const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -83,23 +237,44 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
     // Reset state
     setIsLoading(true);
     setLocalError(null);
+    setParseProgress(null);
+    parseAbortRef.current?.abort();
+    const controller = new AbortController();
+    parseAbortRef.current = controller;
 
     try {
       console.log(`Parsing file: ${file.name}...`);
-      const parsedPsd = await parsePsdFile(file);
+      // Structure first: layer pixels are measured, dropped, and decoded again on demand
+      const parsedPsd = await parsePsdFile(file, {
+        deferLayerImageData: true,
+        skipCompositeImageData: true,
+        signal: controller.signal,
+        onProgress: setParseProgress
+      });
       
       console.log(`Parsed PSD: ${parsedPsd.width}x${parsedPsd.height}, children: ${parsedPsd.children?.length}`);
 
+      const sourceFormat = getPsdSourceFormat(parsedPsd) || null;
+
       // Extract template metadata
       const templateData = extractTemplateMetadata(parsedPsd);
       
-      // Validate procedural rules
-      const validationReport = mapLayersToContainers(parsedPsd, templateData);
+      // Validate procedural rules (project rule set)
+      const validationReport = validateDesign(parsedPsd, templateData, projectSettings.validationRules, projectSettings.validationBoundsMode);
 
       // Extract clean visual design layer hierarchy
       const designLayers = parsedPsd.children ? getCleanLayerTree(parsedPsd.children) : [];
 
+      // Diff against the previous revision. Older projects saved index-path layer IDs,
+      // which are resolved to stable IDs first.
+      const previousLayers = data.designLayers;
+      const revision = previousLayers
+        ? diffLayerTrees(previousLayers, designLayers, buildLayerIdMigration(previousLayers, parsedPsd))
+        : null;
+      const idMigration = revision?.idMap || {};
+
       // REGISTER WITH STORE
+      registerPixelSource(id, file, parsedPsd);
       registerPsd(id, parsedPsd);
       registerTemplate(id, templateData);
       
@@ -107,8 +282,26 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
       triggerGlobalRefresh();
 
       // Update the node data in the global graph state
-      setNodes((nodes) =>
-        nodes.map((node) => {
+      // Rebind downstream strategies, overrides and anchors, then flag whatever still points nowhere
+      setNodes((nodes) => {
+        const edges = getEdges();
+        const downstream = getDownstreamNodeIds(id, edges);
+        const reboundCount = nodes
+          .filter(node => downstream.has(node.id))
+          .flatMap(node => collectLayerReferences(node.id, node.data))
+          .filter(ref => ref.layerId in idMigration).length;
+        const migrated = migrateDownstreamLayerIds(nodes, edges, id, idMigration);
+
+        const revisionDiff: RevisionDiff | null = revision ? {
+          previousFileName: data.fileName,
+          fileName: file.name,
+          timestamp: Date.now(),
+          changes: revision.changes,
+          reboundCount,
+          unmatched: findUnmatchedReferences(migrated, edges, id, collectLayerIds(designLayers))
+        } : null;
+
+        return migrated.map((node) => {
           if (node.id === id) {
             return {
               ...node,
@@ -118,14 +311,19 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
                 template: templateData,
                 validation: validationReport,
                 designLayers: designLayers, // This reference update helps downstream hooks re-run
+                revisionDiff,
+                sourceFormat,
                 error: null,
               },
             };
           }
           return node;
-        })
-      );
+        });
+      });
     } catch (err: any) {
+      // Cancelled by the user (or superseded by another upload): keep the previous state
+      if (isAbortError(err)) return;
+
       const errorMessage = err.message || 'Failed to parse PSD';
       setLocalError(errorMessage);
       console.error("PSD processing error:", err);
@@ -147,14 +345,39 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
         })
       );
     } finally {
-      setIsLoading(false);
+      if (parseAbortRef.current === controller) {
+        parseAbortRef.current = null;
+        setIsLoading(false);
+        setParseProgress(null);
+      }
     }
-  }, [id, setNodes, registerPsd, registerTemplate, triggerGlobalRefresh]);
+  }, [id, data.designLayers, data.fileName, setNodes, getEdges, registerPsd, registerTemplate, triggerGlobalRefresh, projectSettings.validationRules, projectSettings.validationBoundsMode]);
+
+  // Re-run validation when the project rule set or bounds mode changes (needs the binary)
+  const psd = psdRegistry[id];
+  useEffect(() => {
+    if (!psd || !data.template) return;
+    const report = validateDesign(psd, data.template, projectSettings.validationRules, projectSettings.validationBoundsMode);
+    if (JSON.stringify(report) === JSON.stringify(data.validation)) return;
+    setNodes((nodes) => nodes.map((node) => node.id === id ? { ...node, data: { ...node.data, validation: report } } : node));
+  }, [id, psd, data.template, data.validation, projectSettings.validationRules, projectSettings.validationBoundsMode, setNodes]);
+
+  const cancelParse = useCallback(() => {
+    parseAbortRef.current?.abort();
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  }, []);
+
+  const dismissRevisionDiff = useCallback(() => {
+    setNodes((nodes) => nodes.map((node) => node.id === id ? { ...node, data: { ...node.data, revisionDiff: null } } : node));
+  }, [id, setNodes]);
 
   const handleBoxClick = () => {
     fileInputRef.current?.click();
   };
 
+  // Older projects stored issues without a severity; those were all hard violations
+  const errorIssues = data.validation?.issues.filter(issue => (issue.severity ?? 'error') === 'error') || [];
+
   return (
     // Removed overflow-hidden to prevent clipping of the output handle
     <div className={`w-72 rounded-lg shadow-xl border font-sans transition-colors relative ${isDehydrated ? 'bg-orange-950/30 border-orange-500/50' : 'bg-slate-800 border-slate-600'}`}>
@@ -180,7 +403,7 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
       <div className="p-4">
         <input
           type="file"
-          accept=".psd"
+          accept=".psd,.psb"
           className="hidden"
           ref={fileInputRef}
           onChange={handleFileChange}
@@ -217,20 +440,12 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 13h6m-3-3v6m5 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
             </svg>
             <span className="text-xs text-slate-400 group-hover:text-slate-300 text-center font-medium">
-              Click to select .psd file
+              Click to select .psd / .psb file
             </span>
           </div>
         )}
 
-        {isLoading && (
-          <div className="flex flex-col items-center justify-center py-6 space-y-3">
-            <svg className="animate-spin h-8 w-8 text-blue-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-            </svg>
-            <span className="text-sm text-slate-300">Parsing structure...</span>
-          </div>
-        )}
+        {isLoading && <ParseProgress progress={parseProgress} onCancel={cancelParse} />}
 
         {isDataLoaded && !isLoading && !isDehydrated && (
           <div className="bg-slate-900/50 rounded p-3 border border-slate-700">
@@ -247,6 +462,10 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
             
             {data.template && <TemplatePreview metadata={data.template} />}
 
+            {data.sourceFormat && <SourceFormatNotice format={data.sourceFormat} />}
+
+            <PixelMemory nodeId={id} />
+
             {/* Validation Report */}
             {data.validation && (
               <div className={`mt-3 p-2 rounded border text-[10px] ${data.validation.isValid ? 'border-green-800 bg-green-900/20 text-green-300' : 'border-orange-800 bg-orange-900/20 text-orange-200'}`}>
@@ -255,17 +474,24 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
                 </div>
                 {!data.validation.isValid && (
                   <ul className="list-disc pl-3 space-y-0.5 opacity-90">
-                    {data.validation.issues.slice(0, 3).map((issue, i) => (
+                    {errorIssues.slice(0, 3).map((issue, i) => (
                       <li key={i} className="leading-tight">{issue.message}</li>
                     ))}
-                    {data.validation.issues.length > 3 && (
-                      <li className="italic text-orange-400">...and {data.validation.issues.length - 3} more</li>
+                    {errorIssues.length > 3 && (
+                      <li className="italic text-orange-400">...and {errorIssues.length - 3} more</li>
                     )}
                   </ul>
                 )}
+                {data.validation.issues.length > errorIssues.length && (
+                  <div className="mt-1 opacity-70">
+                    {data.validation.issues.length - errorIssues.length} warning/info issue(s) - see Design Info
+                  </div>
+                )}
               </div>
             )}
             
+            {data.revisionDiff && <RevisionReport diff={data.revisionDiff} onDismiss={dismissRevisionDiff} />}
+
             <div className="flex justify-end mt-2">
                 <button 
                 onClick={handleBoxClick}
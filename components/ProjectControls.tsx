@@ -1,10 +1,179 @@
-import React, { useRef } from 'react';
-import { useReactFlow } from 'reactflow';
-import { ProjectExport } from '../types';
+import React, { useRef, useMemo, useEffect } from 'react';
+import { useReactFlow, useNodes } from 'reactflow';
+import { ProjectExport, AIProviderId, PSDNodeData } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
+import { DEFAULT_PIXEL_CACHE_LIMIT_MB, formatMegabytes } from '../services/pixelCacheService';
+import { usePixelCacheStats } from '../hooks/usePixelCacheStats';
+import { AI_PROVIDERS, getDefaultAIProviderId } from '../services/aiProvider';
+import { AICassetteMode, setCassetteMode, getCassette, loadCassette, clearCassette } from '../services/aiCassetteService';
+import { useAICassetteStats } from '../hooks/useAICassetteStats';
+import { AIQueuePanel } from './AIQueuePanel';
+import { EMPTY_AI_USAGE, addAIUsage, sumAIUsage, setAISpend, formatUSD, formatTokens } from '../services/aiUsageService';
+
+const PIXEL_CACHE_LIMITS_MB = [256, 512, 1024, 2048];
+
+// Decoded layer pixels in memory against the project's ceiling
+const PixelMemoryGauge = () => {
+    const { projectSettings, updateProjectSettings } = useProceduralStore();
+    const stats = usePixelCacheStats();
+    const limitMB = projectSettings.pixelCacheLimitMB ?? DEFAULT_PIXEL_CACHE_LIMIT_MB;
+    const ratio = stats.limitBytes > 0 ? stats.usedBytes / stats.limitBytes : 0;
+
+    return (
+        <div
+            className="bg-slate-800 border border-slate-600 px-3 py-1.5 rounded text-xs shadow-lg flex items-center space-x-2"
+            title={`${stats.layerCount} decoded layers in memory. Least recently used layers are released above the ceiling.`}
+        >
+            <span className="font-bold uppercase tracking-wider text-slate-400">Pixels</span>
+            <div className="w-16 h-1.5 bg-slate-700 rounded overflow-hidden">
+                <div
+                    className={`h-full transition-all ${ratio > 1 ? 'bg-orange-500' : 'bg-emerald-500'} ${stats.decoding.length > 0 ? 'animate-pulse' : ''}`}
+                    style={{ width: `${Math.min(100, Math.round(ratio * 100))}%` }}
+                />
+            </div>
+            <span className="font-mono text-slate-300">{formatMegabytes(stats.usedBytes)}</span>
+            <select
+                value={limitMB}
+                onChange={(e) => updateProjectSettings({ pixelCacheLimitMB: Number(e.target.value) })}
+                className="bg-slate-900 border border-slate-700 rounded text-[10px] text-slate-300 font-mono px-1 py-0.5 focus:outline-none"
+                title="Memory ceiling for decoded layer pixels"
+            >
+                {Array.from(new Set([...PIXEL_CACHE_LIMITS_MB, limitMB])).sort((a, b) => a - b).map(mb => (
+                    <option key={mb} value={mb}>/ {mb >= 1024 ? `${mb / 1024} GB` : `${mb} MB`}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+// Which provider the AI nodes call; the mock answers offline without a key
+const AIProviderSelect = () => {
+    const { projectSettings, updateProjectSettings } = useProceduralStore();
+    const providerId = projectSettings.aiProvider ?? getDefaultAIProviderId();
+    const provider = AI_PROVIDERS.find(p => p.id === providerId);
+
+    return (
+        <div
+            className="bg-slate-800 border border-slate-600 px-3 py-1.5 rounded text-xs shadow-lg flex items-center space-x-2"
+            title="Provider used by the analyst, reviewer, knowledge, remapper and export nodes"
+        >
+            <span className="font-bold uppercase tracking-wider text-slate-400">AI</span>
+            <div className={`w-1.5 h-1.5 rounded-full ${provider?.isAvailable() ? 'bg-emerald-500' : 'bg-orange-500'}`} />
+            <select
+                value={providerId}
+                onChange={(e) => updateProjectSettings({ aiProvider: e.target.value as AIProviderId })}
+                className="bg-slate-900 border border-slate-700 rounded text-[10px] text-slate-300 font-mono px-1 py-0.5 focus:outline-none"
+            >
+                {AI_PROVIDERS.map(p => (
+                    <option key={p.id} value={p.id}>{p.label}{p.isAvailable() ? '' : ' (no key)'}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+const CASSETTE_MODES: { mode: AICassetteMode, label: string }[] = [
+    { mode: 'off', label: 'Live' },
+    { mode: 'record', label: 'Record' },
+    { mode: 'replay', label: 'Replay' }
+];
+
+// Records AI responses to a cassette file and serves them back offline
+const AICassetteControls = () => {
+    const stats = useAICassetteStats();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const onSaveCassette = () => {
+        const blob = new Blob([JSON.stringify(getCassette(), null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `AI_CASSETTE_${Date.now()}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const onLoadCassette = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text()
+            .then(text => loadCassette(JSON.parse(text)))
+            .catch(err => {
+                console.error("Failed to load cassette", err);
+                alert(`Invalid Cassette: ${err instanceof Error ? err.message : 'Could not parse JSON data.'}`);
+            });
+        e.target.value = '';
+    };
+
+    return (
+        <div
+            className="bg-slate-800 border border-slate-600 px-3 py-1.5 rounded text-xs shadow-lg flex items-center space-x-2"
+            title={stats.mode === 'replay'
+                ? `${stats.hits} responses replayed, ${stats.misses} requests without a recording`
+                : 'Record AI responses to a cassette file, or replay them offline to regenerate identical layouts'}
+        >
+            <span className="font-bold uppercase tracking-wider text-slate-400">Tape</span>
+            <div className={`w-1.5 h-1.5 rounded-full ${stats.mode === 'record' ? 'bg-red-500 animate-pulse' : stats.mode === 'replay' ? (stats.misses > 0 ? 'bg-orange-500' : 'bg-emerald-500') : 'bg-slate-600'}`} />
+            <select
+                value={stats.mode}
+                onChange={(e) => setCassetteMode(e.target.value as AICassetteMode)}
+                className="bg-slate-900 border border-slate-700 rounded text-[10px] text-slate-300 font-mono px-1 py-0.5 focus:outline-none"
+            >
+                {CASSETTE_MODES.map(({ mode, label }) => (
+                    <option key={mode} value={mode}>{label}</option>
+                ))}
+            </select>
+            <span className="font-mono text-slate-300">{stats.entryCount}</span>
+            <input type="file" ref={fileInputRef} className="hidden" accept=".json" onChange={onLoadCassette} />
+            <button onClick={() => fileInputRef.current?.click()} className="text-[10px] text-slate-400 hover:text-slate-200 uppercase font-bold" title="Load cassette file">Load</button>
+            <button onClick={onSaveCassette} disabled={stats.entryCount === 0} className="text-[10px] text-slate-400 hover:text-slate-200 disabled:opacity-40 uppercase font-bold" title="Save cassette file">Save</button>
+            <button onClick={clearCassette} disabled={stats.entryCount === 0} className="text-[10px] text-slate-400 hover:text-red-400 disabled:opacity-40 uppercase font-bold" title="Discard all recordings">Clear</button>
+        </div>
+    );
+};
+
+// Estimated AI spend of every node against the optional project budget
+const AIUsageGauge = () => {
+    const { projectSettings, updateProjectSettings } = useProceduralStore();
+    const nodes = useNodes<PSDNodeData>();
+    const total = useMemo(
+        () => nodes.reduce((sum, node) => addAIUsage(sum, sumAIUsage(node.data?.aiUsage)), EMPTY_AI_USAGE),
+        [nodes]
+    );
+    const budget = projectSettings.aiBudgetUSD;
+    const isOverBudget = !!budget && total.costUSD >= budget;
+
+    // The budget guard lives outside React and reads the spend only from here
+    useEffect(() => {
+        setAISpend(total.costUSD);
+    }, [total.costUSD]);
+
+    return (
+        <div
+            className={`bg-slate-800 border ${isOverBudget ? 'border-red-500' : 'border-slate-600'} px-3 py-1.5 rounded text-xs shadow-lg flex items-center space-x-2`}
+            title={`${total.calls} calls · ${formatTokens(total.inputTokens)} input / ${formatTokens(total.outputTokens)} output tokens (${formatTokens(total.thinkingTokens)} thinking) · ${total.images} images. Costs are estimates from list prices.`}
+        >
+            <span className="font-bold uppercase tracking-wider text-slate-400">Spend</span>
+            <span className={`font-mono ${isOverBudget ? 'text-red-400' : 'text-slate-300'}`}>{formatUSD(total.costUSD)}</span>
+            <span className="font-mono text-slate-500">{formatTokens(total.inputTokens + total.outputTokens)} tok</span>
+            <span className="text-slate-500">/</span>
+            <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={budget ?? ''}
+                placeholder="No budget"
+                onChange={(e) => updateProjectSettings({ aiBudgetUSD: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                className="w-16 bg-slate-900 border border-slate-700 rounded text-[10px] text-slate-300 font-mono px-1 py-0.5 focus:outline-none"
+                title="Project budget in USD. New AI calls are blocked once the spend reaches it."
+            />
+        </div>
+    );
+};
 
 export const ProjectControls = () => {
     const { toObject, setNodes, setEdges, setViewport } = useReactFlow();
+    const { projectSettings, replaceProjectSettings } = useProceduralStore();
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const onSave = () => {
@@ -41,7 +210,8 @@ export const ProjectControls = () => {
             timestamp: Date.now(),
             nodes: sanitizedNodes,
             edges: flow.edges,
-            viewport: flow.viewport
+            viewport: flow.viewport,
+            settings: projectSettings
         };
         
         const jsonString = JSON.stringify(projectData, null, 2);
@@ -87,6 +257,7 @@ export const ProjectControls = () => {
                     setNodes(project.nodes);
                     setEdges(project.edges);
                     setViewport(project.viewport);
+                    replaceProjectSettings(project.settings || {});
 
                     if (project.version !== '1.0.0') {
                         console.warn(`Version mismatch: Loading project version ${project.version} into runtime 1.0.0`);
@@ -104,6 +275,11 @@ export const ProjectControls = () => {
 
     return (
         <div className="fixed top-4 right-4 z-50 flex space-x-2">
+            <AIProviderSelect />
+            <AICassetteControls />
+            <AIQueuePanel />
+            <AIUsageGauge />
+            <PixelMemoryGauge />
             <input 
                 type="file" 
                 ref={fileInputRef} 
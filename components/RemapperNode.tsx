@@ -1,9 +1,14 @@
 import React, { memo, useMemo, useEffect, useCallback, useState, useRef } from 'react';
 import { Handle, Position, NodeProps, useEdges, useReactFlow, useNodes } from 'reactflow';
-import { PSDNodeData, SerializableLayer, TransformedPayload, TransformedLayer, MAX_BOUNDARY_VIOLATION_PERCENT, LayoutStrategy } from '../types';
+import { PSDNodeData, SerializableLayer, TransformedPayload, TransformedLayer, LayoutStrategy, RemapStrategy, LayerConstraint, HorizontalConstraint, VerticalConstraint, ContainerDefinition, BoundsMode } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { GoogleGenAI } from "@google/genai";
-import { Check, Sparkles, Info, Layers, Box, Cpu } from 'lucide-react';
+import { resolveLayerConstraint, parseConstraintTag, describeAnnotations, DEFAULT_LAYER_CONSTRAINT, HORIZONTAL_CONSTRAINTS, VERTICAL_CONSTRAINTS } from '../services/layoutService';
+import { remap, resolveStrategyBaseline, buildNestedMappings, DEFAULT_REMAP_STRATEGY, DEFAULT_COLLISION_CONFIG } from '../services/remapEngine';
+import { DEFAULT_BOUNDS_MODE } from '../services/boundsService';
+import { getAIProvider } from '../services/aiProvider';
+import { useAIUsageRecorder } from '../hooks/useAIUsageRecorder';
+import { getErrorUsage } from '../services/aiUsageService';
+import { Check, Sparkles, Info, Layers, Box, Cpu, Pin, Lock, Unlock, RotateCcw, Magnet, Scan } from 'lucide-react';
 
 interface InstanceData {
   index: number;
@@ -22,9 +27,11 @@ interface InstanceData {
     ready: boolean;
     name?: string;
     bounds?: { x: number, y: number, w: number, h: number };
+    definition?: ContainerDefinition;
   };
   payload: TransformedPayload | null;
   strategyUsed?: boolean;
+  geometricStrategy: RemapStrategy;
 }
 
 // --- SUB-COMPONENT: Generative Preview Overlay ---
@@ -183,21 +190,7 @@ const calculateOverrideMetrics = (
     if (!strategy.overrides || strategy.overrides.length === 0) return metrics;
 
     // 1. Calculate Geometric Baseline
-    const ratioX = targetRect.w / sourceRect.w;
-    const ratioY = targetRect.h / sourceRect.h;
-    let globalScale = Math.min(ratioX, ratioY);
-    let anchorX = targetRect.x;
-    let anchorY = targetRect.y;
-
-    if (strategy) {
-        globalScale = strategy.suggestedScale;
-        const scaledW = sourceRect.w * globalScale;
-        const scaledH = sourceRect.h * globalScale;
-        anchorX = targetRect.x + (targetRect.w - scaledW) / 2;
-        if (strategy.anchor === 'TOP') anchorY = targetRect.y;
-        else if (strategy.anchor === 'BOTTOM') anchorY = targetRect.y + (targetRect.h - scaledH);
-        else anchorY = targetRect.y + (targetRect.h - scaledH) / 2;
-    }
+    const { scaleX, scaleY, anchorX, anchorY } = resolveStrategyBaseline(strategy, sourceRect, targetRect);
 
     // 2. Recursive Traversal
     const traverse = (layers: SerializableLayer[]) => {
@@ -208,8 +201,8 @@ const calculateOverrideMetrics = (
                 // Geometric Position
                 const relX = (layer.coords.x - sourceRect.x) / sourceRect.w;
                 const relY = (layer.coords.y - sourceRect.y) / sourceRect.h;
-                const geomX = anchorX + (relX * (sourceRect.w * globalScale));
-                const geomY = anchorY + (relY * (sourceRect.h * globalScale));
+                const geomX = anchorX + (relX * (sourceRect.w * scaleX));
+                const geomY = anchorY + (relY * (sourceRect.h * scaleY));
 
                 // Semantic Position
                 const finalX = targetRect.x + override.xOffset;
@@ -288,6 +281,84 @@ const OverrideInspector = ({
     );
 };
 
+// --- SUB-COMPONENT: Layer Constraint Panel ---
+// Edits per-layer constraints for every source layer; nested layers are indented under their group
+// and constrained within its remapped frame. Name tags show as defaults until overridden.
+const flattenLayerTree = (layers: SerializableLayer[], depth: number = 0): { layer: SerializableLayer, depth: number }[] =>
+    layers.flatMap(layer => [{ layer, depth }, ...(layer.children ? flattenLayerTree(layer.children, depth + 1) : [])]);
+
+const LayerConstraintPanel = ({
+    layers,
+    storedConstraints,
+    onChange
+}: {
+    layers: SerializableLayer[],
+    storedConstraints: Record<string, LayerConstraint>,
+    onChange: (layerId: string, constraint: LayerConstraint | null) => void
+}) => {
+    const selectClass = "nodrag nopan appearance-none text-[8px] px-1 py-0.5 rounded font-mono bg-slate-900 text-cyan-200 border border-slate-700 cursor-pointer outline-none";
+    const rows = useMemo(() => flattenLayerTree(layers), [layers]);
+
+    return (
+        <div className="bg-cyan-900/10 border border-cyan-500/30 rounded p-2 mt-2" onMouseDown={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-2 pb-1 border-b border-cyan-500/20">
+                <span className="text-[9px] text-cyan-300 font-bold uppercase tracking-wider flex items-center gap-1">
+                    <Pin className="w-3 h-3" /> Layer Constraints
+                </span>
+                <span className="text-[9px] text-cyan-400/70 font-mono">{rows.length} Layers</span>
+            </div>
+            <div className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                {rows.map(({ layer, depth }) => {
+                    const stored = storedConstraints[layer.id];
+                    const tagged = parseConstraintTag(layer.name);
+                    const effective = stored || tagged || DEFAULT_LAYER_CONSTRAINT;
+                    const update = (patch: Partial<LayerConstraint>) => onChange(layer.id, { ...effective, ...patch });
+
+                    return (
+                        <div key={layer.id} className="flex items-center justify-between gap-1">
+                            <span className="text-[9px] text-slate-300 truncate flex-1" style={{ paddingLeft: depth * 8 }} title={layer.name}>{layer.name}</span>
+                            {!stored && tagged && (
+                                <span className="text-[7px] px-1 rounded border border-cyan-500/40 text-cyan-400 font-mono" title="Declared by layer name tag">TAG</span>
+                            )}
+                            <select
+                                value={effective.horizontal}
+                                onChange={(e) => update({ horizontal: e.target.value as HorizontalConstraint })}
+                                className={selectClass}
+                                title="Horizontal constraint"
+                            >
+                                {HORIZONTAL_CONSTRAINTS.map(c => <option key={c} value={c} className="text-black bg-white">{c}</option>)}
+                            </select>
+                            <select
+                                value={effective.vertical}
+                                onChange={(e) => update({ vertical: e.target.value as VerticalConstraint })}
+                                className={selectClass}
+                                title="Vertical constraint"
+                            >
+                                {VERTICAL_CONSTRAINTS.map(c => <option key={c} value={c} className="text-black bg-white">{c}</option>)}
+                            </select>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); update({ fixedSize: !effective.fixedSize }); }}
+                                className={`nodrag nopan p-0.5 rounded transition-colors ${effective.fixedSize ? 'text-cyan-300 bg-cyan-500/20' : 'text-slate-600 hover:text-slate-400'}`}
+                                title={effective.fixedSize ? 'Fixed pixel size' : 'Scales with container'}
+                            >
+                                {effective.fixedSize ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+                            </button>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onChange(layer.id, null); }}
+                                disabled={!stored}
+                                className={`nodrag nopan p-0.5 rounded transition-colors ${stored ? 'text-slate-400 hover:text-white' : 'text-slate-700 cursor-default'}`}
+                                title="Reset to name tag / default"
+                            >
+                                <RotateCcw className="w-3 h-3" />
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
 // --- HELPER: Process Breakdown Audit ---
 const getLayerAudit = (layers: TransformedLayer[]) => {
   let pixel = 0;
@@ -315,6 +386,17 @@ const getLayerAudit = (layers: TransformedLayer[]) => {
   return { pixel, group, generative, total: pixel + group + generative };
 };
 
+// --- HELPER: Geometric Strategy Resolution ---
+// Used when no AI strategy is attached. UNIFORM_FIT reproduces the legacy letterbox behaviour.
+const EMPTY_CONSTRAINTS: Record<string, LayerConstraint> = {};
+
+const REMAP_STRATEGY_OPTIONS: { value: RemapStrategy, label: string, title: string }[] = [
+    { value: 'UNIFORM_FIT', label: 'FIT', title: 'Uniform scale to fit inside the target (letterbox)' },
+    { value: 'UNIFORM_FILL', label: 'FILL', title: 'Uniform scale to cover the target (cropped to bounds)' },
+    { value: 'STRETCH', label: 'STRETCH', title: 'Independent X/Y scale to match the target exactly' },
+    { value: 'NONE', label: 'NATIVE', title: 'No scaling, content is centered at native size' },
+];
+
 // --- SUB-COMPONENT: Instance Row (Extracted) ---
 const RemapperInstanceRow = memo(({ 
     instance, 
@@ -326,7 +408,11 @@ const RemapperInstanceRow = memo(({
     displayPreviews, 
     payloadRegistry, 
     id, 
-    localSetting 
+    localSetting,
+    localStrategy,
+    setInstanceStrategy,
+    layerConstraints,
+    setLayerConstraint
 }: {
     instance: InstanceData, 
     confirmations: Record<number, string>, 
@@ -337,9 +423,14 @@ const RemapperInstanceRow = memo(({
     displayPreviews: Record<number, string>, 
     payloadRegistry: any, 
     id: string, 
-    localSetting: boolean 
+    localSetting: boolean,
+    localStrategy: RemapStrategy,
+    setInstanceStrategy: (idx: number, strategy: RemapStrategy) => void,
+    layerConstraints: Record<string, LayerConstraint>,
+    setLayerConstraint: (idx: number, layerId: string, constraint: LayerConstraint | null) => void
 }) => {
     const [isInspectorOpen, setInspectorOpen] = useState(false);
+    const [isConstraintsOpen, setConstraintsOpen] = useState(false);
 
     const hasPreview = !!instance.payload?.previewUrl;
     const isAwaiting = instance.payload?.status === 'awaiting_confirmation';
@@ -366,6 +457,10 @@ const RemapperInstanceRow = memo(({
 
     const hasOverrides = instance.source.aiStrategy?.overrides && instance.source.aiStrategy.overrides.length > 0;
 
+    const constrainedCount = useMemo(() => {
+        return (instance.source.layers || []).filter(l => resolveLayerConstraint(l, layerConstraints)).length;
+    }, [instance.source.layers, layerConstraints]);
+
     // Process Breakdown Stats (Audit)
     const audit = useMemo(() => {
         if (!instance.payload?.layers) return null;
@@ -417,8 +512,37 @@ const RemapperInstanceRow = memo(({
               <div className="relative flex items-center justify-between group">
                  <div className="flex flex-col w-full">
                      <div className="flex items-center justify-between mb-0.5">
-                        <label className="text-[9px] uppercase text-slate-500 font-bold tracking-wider ml-1">Target Slot</label>
-                        {instance.target.ready && <span className="text-[8px] text-emerald-400 font-mono">LINKED</span>}
+                        <div className="flex items-center space-x-1.5">
+                            <label className="text-[9px] uppercase text-slate-500 font-bold tracking-wider ml-1">Target Slot</label>
+                            <select
+                               value={localStrategy}
+                               onChange={(e) => setInstanceStrategy(instance.index, e.target.value as RemapStrategy)}
+                               onClick={(e) => e.stopPropagation()}
+                               onMouseDown={(e) => e.stopPropagation()}
+                               className={`nodrag nopan appearance-none text-[8px] px-1.5 py-0.5 rounded font-mono font-bold cursor-pointer outline-none border transition-colors ${instance.strategyUsed ? 'bg-slate-900 text-slate-600 border-slate-700' : 'bg-indigo-900/40 text-indigo-300 border-indigo-500/40'}`}
+                               title={instance.strategyUsed ? 'Geometric mode (overridden by AI strategy)' : 'Geometric remap mode'}
+                            >
+                                {REMAP_STRATEGY_OPTIONS.map(opt => (
+                                    <option key={opt.value} value={opt.value} title={opt.title} className="text-black bg-white">{opt.label}</option>
+                                ))}
+                            </select>
+                            {instance.source.layers && instance.source.layers.length > 0 && (
+                                <button
+                                   onClick={(e) => { e.stopPropagation(); setConstraintsOpen(!isConstraintsOpen); }}
+                                   className={`nodrag nopan flex items-center gap-0.5 p-0.5 rounded transition-colors ${isConstraintsOpen ? 'text-cyan-200 bg-cyan-500/30' : constrainedCount > 0 ? 'text-cyan-400 hover:text-cyan-300' : 'text-slate-600 hover:text-slate-500'}`}
+                                   title="Toggle Layer Constraints"
+                                >
+                                    <Pin className="w-3 h-3" />
+                                    {constrainedCount > 0 && <span className="text-[8px] font-mono">{constrainedCount}</span>}
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex items-center space-x-1">
+                            {instance.target.definition?.annotations && (
+                                <span className="text-[8px] px-1 rounded border border-sky-500/40 bg-sky-900/30 text-sky-300 font-mono" title={`Template defaults: ${describeAnnotations(instance.target.definition.annotations)}`}>TPL</span>
+                            )}
+                            {instance.target.ready && <span className="text-[8px] text-emerald-400 font-mono">LINKED</span>}
+                        </div>
                      </div>
 
                      <div className={`relative text-xs px-3 py-1.5 rounded border transition-colors ${
@@ -464,6 +588,14 @@ const RemapperInstanceRow = memo(({
                                       )}
                                   </div>
                               )}
+                              {instance.payload.collisionOverrides && (
+                                  <span
+                                      className="text-[8px] bg-amber-500/20 text-amber-300 px-1 rounded border border-amber-500/40"
+                                      title={instance.payload.collisionOverrides.map(o => `${o.layerId}: ${o.xOffset.toFixed(0)}, ${o.yOffset.toFixed(0)} @ ${o.individualScale.toFixed(2)}x`).join('\n')}
+                                  >
+                                      {instance.payload.collisionOverrides.length} DECOLLIDED
+                                  </span>
+                              )}
                               {instance.payload.requiresGeneration && effectiveAllowed && (
                                   <span className="text-[8px] bg-purple-500/20 text-purple-300 px-1 rounded border border-purple-500/40">GEN</span>
                               )}
@@ -473,7 +605,9 @@ const RemapperInstanceRow = memo(({
                           </div>
                           <span className="text-[10px] text-slate-400 font-mono">
                               {audit ? `${audit.total} Nodes • ` : ''}
-                              {instance.payload.scaleFactor.toFixed(2)}x Scale
+                              {instance.payload.remapStrategy === 'STRETCH' && instance.payload.metrics.source.w > 0 && instance.payload.metrics.source.h > 0
+                                  ? `${(instance.payload.metrics.target.w / instance.payload.metrics.source.w).toFixed(2)}x / ${(instance.payload.metrics.target.h / instance.payload.metrics.source.h).toFixed(2)}y Stretch`
+                                  : `${instance.payload.scaleFactor.toFixed(2)}x Scale`}
                           </span>
                       </div>
                       
@@ -512,6 +646,15 @@ const RemapperInstanceRow = memo(({
                           </div>
                       )}
                       
+                      {/* Layer Constraints */}
+                      {isConstraintsOpen && instance.source.layers && (
+                          <LayerConstraintPanel
+                              layers={instance.source.layers}
+                              storedConstraints={layerConstraints}
+                              onChange={(layerId, constraint) => setLayerConstraint(instance.index, layerId, constraint)}
+                          />
+                      )}
+
                       {/* Override Inspector */}
                       {isInspectorOpen && instance.source.layers && instance.source.originalBounds && instance.target.bounds && instance.source.aiStrategy && (
                           <OverrideInspector 
@@ -589,6 +732,7 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
   const isTransitioningRef = useRef<Record<number, boolean>>({});
 
   const { setNodes } = useReactFlow();
+  const recordUsage = useAIUsageRecorder(id);
   const edges = useEdges();
   const nodes = useNodes();
   
@@ -597,6 +741,9 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
 
   // GLOBAL GATE: Master Switch from Node Data
   const globalGenerationAllowed = (data as any).remapperConfig?.generationAllowed ?? true;
+  const configStrategy: RemapStrategy | undefined = data.remapperConfig?.strategy;
+  const collisionConfig = data.remapperConfig?.collision ?? DEFAULT_COLLISION_CONFIG;
+  const boundsMode: BoundsMode = data.remapperConfig?.boundsMode ?? DEFAULT_BOUNDS_MODE;
 
   useEffect(() => {
     return () => unregisterNode(id);
@@ -689,7 +836,98 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
       }));
   }, [id, setNodes]);
 
-  // 3. CONFIRM ACTION
+  // 3. STRATEGY ACTION
+  // Persists the geometric remap mode for a single instance
+  const setInstanceStrategy = useCallback((index: number, strategy: RemapStrategy) => {
+      setNodes((nds) => nds.map((n) => {
+          if (n.id === id) {
+              const currentSettings = n.data.instanceSettings || {};
+              return {
+                  ...n,
+                  data: {
+                      ...n.data,
+                      instanceSettings: {
+                          ...currentSettings,
+                          [index]: {
+                              ...(currentSettings[index] || {}),
+                              strategy
+                          }
+                      }
+                  }
+              };
+          }
+          return n;
+      }));
+  }, [id, setNodes]);
+
+  // Toggles the local collision resolver for every instance of this node
+  const toggleCollisionResolver = useCallback(() => {
+      setNodes((nds) => nds.map((n) => {
+          if (n.id === id) {
+              const currentConfig = n.data.remapperConfig || { targetContainerName: null };
+              const currentCollision = currentConfig.collision ?? DEFAULT_COLLISION_CONFIG;
+              return {
+                  ...n,
+                  data: {
+                      ...n.data,
+                      remapperConfig: {
+                          ...currentConfig,
+                          collision: { ...currentCollision, enabled: !currentCollision.enabled }
+                      }
+                  }
+              };
+          }
+          return n;
+      }));
+  }, [id, setNodes]);
+
+  // Switches constraint pinning and collision tests between opaque pixel bounds and raw layer rects
+  const toggleBoundsMode = useCallback(() => {
+      setNodes((nds) => nds.map((n) => {
+          if (n.id === id) {
+              const currentConfig = n.data.remapperConfig || { targetContainerName: null };
+              const currentMode = currentConfig.boundsMode ?? DEFAULT_BOUNDS_MODE;
+              return {
+                  ...n,
+                  data: {
+                      ...n.data,
+                      remapperConfig: { ...currentConfig, boundsMode: currentMode === 'opaque' ? 'raw' : 'opaque' }
+                  }
+              };
+          }
+          return n;
+      }));
+  }, [id, setNodes]);
+
+  // Persists a per-layer constraint for a single instance (null clears it back to tag/default)
+  const setLayerConstraint = useCallback((index: number, layerId: string, constraint: LayerConstraint | null) => {
+      setNodes((nds) => nds.map((n) => {
+          if (n.id === id) {
+              const currentSettings = n.data.instanceSettings || {};
+              const currentInstanceSetting = currentSettings[index] || {};
+              const nextConstraints = { ...(currentInstanceSetting.layerConstraints || {}) };
+              if (constraint) nextConstraints[layerId] = constraint;
+              else delete nextConstraints[layerId];
+
+              return {
+                  ...n,
+                  data: {
+                      ...n.data,
+                      instanceSettings: {
+                          ...currentSettings,
+                          [index]: {
+                              ...currentInstanceSetting,
+                              layerConstraints: nextConstraints
+                          }
+                      }
+                  }
+              };
+          }
+          return n;
+      }));
+  }, [id, setNodes]);
+
+  // 4. CONFIRM ACTION
   const handleConfirmGeneration = useCallback((index: number, prompt: string, confirmedUrl?: string) => {
       if (!confirmedUrl) return;
 
@@ -742,7 +980,8 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
                         originalBounds: context.container.bounds,
                         aiStrategy: context.aiStrategy,
                         previewUrl: context.previewUrl,
-                        targetDimensions: context.targetDimensions
+                        targetDimensions: context.targetDimensions,
+                        context
                     };
                  }
              }
@@ -776,80 +1015,43 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
                      targetData = {
                          ready: true,
                          name: containerDefinition.originalName || containerDefinition.name,
-                         bounds: containerDefinition.bounds
+                         bounds: containerDefinition.bounds,
+                         definition: containerDefinition,
+                         template
                      };
                  }
              }
         }
 
+        // Geometric mode: instance -> node config -> template annotation (target, then source) -> default
+        const annotatedStrategy = targetData.definition?.annotations?.strategy ?? sourceData.context?.container.annotations?.strategy;
+        const geometricStrategy: RemapStrategy = localSettings?.strategy ?? configStrategy ?? annotatedStrategy ?? DEFAULT_REMAP_STRATEGY;
+
         // 3. Compute Payload
         let payload: TransformedPayload | null = null;
         let strategyUsed = false;
 
         if (sourceData.ready && targetData.ready) {
-            const sourceRect = sourceData.originalBounds;
+            const strategy: LayoutStrategy | undefined = sourceData.aiStrategy;
+            strategyUsed = !!strategy;
+
+            // Sub-containers present in both templates are remapped parent-then-child
+            const sourceTemplate = loadPsdNode ? templateRegistry[loadPsdNode.id] : undefined;
+            const nested = sourceTemplate
+                ? buildNestedMappings(sourceTemplate, sourceData.name, targetData.template, targetData.definition)
+                : [];
+
+            const remapped = remap(sourceData.context, targetData.definition, strategy, {
+                geometricStrategy,
+                layerConstraints: localSettings?.layerConstraints,
+                collision: collisionConfig,
+                boundsMode,
+                sourceNodeId: sourceData.nodeId,
+                nested
+            });
             const targetRect = targetData.bounds;
-            
-            const ratioX = targetRect.w / sourceRect.w;
-            const ratioY = targetRect.h / sourceRect.h;
-            let scale = Math.min(ratioX, ratioY);
-            let anchorX = targetRect.x;
-            let anchorY = targetRect.y;
-
-            const strategy = sourceData.aiStrategy;
-            
-            if (strategy) {
-                scale = strategy.suggestedScale;
-                strategyUsed = true;
-                const scaledW = sourceRect.w * scale;
-                const scaledH = sourceRect.h * scale;
-                anchorX = targetRect.x + (targetRect.w - scaledW) / 2;
-                if (strategy.anchor === 'TOP') anchorY = targetRect.y;
-                else if (strategy.anchor === 'BOTTOM') anchorY = targetRect.y + (targetRect.h - scaledH);
-                else anchorY = targetRect.y + (targetRect.h - scaledH) / 2;
-            } else {
-                const scaledW = sourceRect.w * scale;
-                const scaledH = sourceRect.h * scale;
-                anchorX = targetRect.x + (targetRect.w - scaledW) / 2;
-                anchorY = targetRect.y + (targetRect.h - scaledH) / 2;
-            }
-
-            const transformLayers = (layers: SerializableLayer[], parentDeltaX = 0, parentDeltaY = 0): TransformedLayer[] => {
-              return layers.map(layer => {
-                const relX = (layer.coords.x - sourceRect.x) / sourceRect.w;
-                const relY = (layer.coords.y - sourceRect.y) / sourceRect.h;
-                const geomX = anchorX + (relX * (sourceRect.w * scale));
-                const geomY = anchorY + (relY * (sourceRect.h * scale));
-                let finalX = geomX + parentDeltaX;
-                let finalY = geomY + parentDeltaY;
-                let layerScaleX = scale;
-                let layerScaleY = scale;
-                const override = strategy?.overrides?.find(o => o.layerId === layer.id);
-                
-                if (override) {
-                   finalX = targetRect.x + override.xOffset;
-                   finalY = targetRect.y + override.yOffset;
-                   layerScaleX *= override.individualScale;
-                   layerScaleY *= override.individualScale;
-                }
-
-                const bleedY = targetRect.h * MAX_BOUNDARY_VIOLATION_PERCENT;
-                const minY = targetRect.y - bleedY;
-                const maxY = targetRect.y + targetRect.h + bleedY;
-                finalY = Math.max(minY, Math.min(finalY, maxY));
-                const newW = layer.coords.w * layerScaleX;
-                const newH = layer.coords.h * layerScaleY;
-
-                return {
-                  ...layer,
-                  coords: { x: finalX, y: finalY, w: newW, h: newH },
-                  transform: { scaleX: layerScaleX, scaleY: layerScaleY, offsetX: finalX, offsetY: finalY },
-                  children: layer.children ? transformLayers(layer.children, parentDeltaX, parentDeltaY) : undefined
-                };
-              });
-            };
-
-            const transformedLayers = transformLayers(sourceData.layers as SerializableLayer[]);
+            const scale = remapped.scaleFactor;
+            const transformedLayers = remapped.layers;
 
             let requiresGeneration = false;
             let status: TransformedPayload['status'] = 'success';
@@ -891,13 +1093,10 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
             const storePayload = payloadRegistry[id]?.[`result-out-${i}`];
 
             payload = {
+              ...remapped,
               status: status,
-              sourceNodeId: sourceData.nodeId,
               sourceContainer: sourceData.name,
               targetContainer: targetData.name,
-              layers: transformedLayers,
-              scaleFactor: scale,
-              metrics: { source: { w: sourceRect.w, h: sourceRect.h }, target: { w: targetRect.w, h: targetRect.h } },
               requiresGeneration: requiresGeneration,
               // Use store payload's preview if available, otherwise source data's
               previewUrl: storePayload?.previewUrl || sourceData.previewUrl,
@@ -908,7 +1107,7 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
               generationId: storePayload?.generationId,
               isSynthesizing: storePayload?.isSynthesizing,
               // PROPAGATE GATE STATE (Crucial for Store logic to act on)
-              generationAllowed: effectiveAllowed 
+              generationAllowed: effectiveAllowed
             };
         }
 
@@ -917,12 +1116,13 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
             source: sourceData,
             target: targetData,
             payload,
-            strategyUsed
+            strategyUsed,
+            geometricStrategy
         });
     }
 
     return result;
-  }, [instanceCount, edges, id, resolvedRegistry, templateRegistry, nodes, confirmations, payloadRegistry, globalGenerationAllowed, instanceSettings]);
+  }, [instanceCount, edges, id, resolvedRegistry, templateRegistry, nodes, confirmations, payloadRegistry, globalGenerationAllowed, instanceSettings, configStrategy, collisionConfig, boundsMode]);
 
   // Sync Payloads to Store
   useEffect(() => {
@@ -1024,33 +1224,15 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
                  updatePayload(id, `result-out-${idx}`, { isSynthesizing: true });
 
                  try {
-                     const apiKey = process.env.API_KEY;
-                     if (!apiKey) return;
-                     const ai = new GoogleGenAI({ apiKey });
-                     const parts: any[] = [];
-                     
-                     if (sourceRef) {
-                         const base64Data = sourceRef.includes('base64,') ? sourceRef.split('base64,')[1] : sourceRef;
-                         parts.push({ inlineData: { mimeType: 'image/png', data: base64Data } });
-                     }
-                     parts.push({ text: prompt });
-
-                     const response = await ai.models.generateContent({
-                        model: 'gemini-2.5-flash-image',
-                        contents: { parts },
-                        config: { imageConfig: { aspectRatio: "1:1" } }
+                     const image = await getAIProvider().generateImage({
+                        prompt,
+                        aspectRatio: '1:1',
+                        reference: sourceRef
                      });
+                     recordUsage(idx, image?.usage);
                      
-                     let base64Data = null;
-                     for (const part of response.candidates?.[0]?.content?.parts || []) {
-                        if (part.inlineData) {
-                            base64Data = part.inlineData.data;
-                            break;
-                        }
-                     }
-                     
-                     if (base64Data) {
-                         const url = `data:image/png;base64,${base64Data}`;
+                     if (image) {
+                         const url = image.dataUrl;
                          
                          const previousUrl = previousBlobsRef.current[idx];
                          if (previousUrl && previousUrl !== url && previousUrl.startsWith('blob:')) {
@@ -1069,6 +1251,7 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
 
                  } catch (e) {
                      console.error("Draft Generation Failed", e);
+                     recordUsage(idx, getErrorUsage(e));
                      updatePayload(id, `result-out-${idx}`, { isSynthesizing: false });
                  } finally {
                      setIsGeneratingPreview(prev => ({...prev, [idx]: false}));
@@ -1077,7 +1260,7 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
              generateDraft();
         }
     });
-  }, [instances, isGeneratingPreview, id, updatePayload, payloadRegistry, confirmations]);
+  }, [instances, isGeneratingPreview, id, updatePayload, payloadRegistry, confirmations, recordUsage]);
 
 
   const addInstance = useCallback(() => {
@@ -1099,6 +1282,20 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
            <span className="text-sm font-semibold text-indigo-100">Procedural Remapper</span>
          </div>
          <div className="flex items-center space-x-2">
+             <button 
+                onClick={(e) => { e.stopPropagation(); toggleCollisionResolver(); }}
+                className={`nodrag nopan p-1 rounded transition-colors ${collisionConfig.enabled ? 'bg-amber-500/20 text-amber-300 hover:bg-amber-500/40' : 'bg-slate-700/50 text-slate-500 hover:bg-slate-700'}`}
+                title={collisionConfig.enabled ? "Collision Resolver: On" : "Collision Resolver: Off"}
+             >
+                 <Magnet className="w-3.5 h-3.5" />
+             </button>
+             <button 
+                onClick={(e) => { e.stopPropagation(); toggleBoundsMode(); }}
+                className={`nodrag nopan p-1 rounded transition-colors ${boundsMode === 'opaque' ? 'bg-cyan-500/20 text-cyan-300 hover:bg-cyan-500/40' : 'bg-slate-700/50 text-slate-500 hover:bg-slate-700'}`}
+                title={boundsMode === 'opaque' ? "Layer Bounds: Opaque pixels (constraints & collisions)" : "Layer Bounds: Raw PSD rectangles"}
+             >
+                 <Scan className="w-3.5 h-3.5" />
+             </button>
              <button 
                 onClick={(e) => { e.stopPropagation(); toggleMasterGeneration(); }}
                 className={`nodrag nopan p-1 rounded transition-colors ${globalGenerationAllowed ? 'bg-purple-500/20 text-purple-300 hover:bg-purple-500/40' : 'bg-slate-700/50 text-slate-500 hover:bg-slate-700'}`}
@@ -1124,6 +1321,10 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
                 payloadRegistry={payloadRegistry}
                 id={id}
                 localSetting={instanceSettings[instance.index]?.generationAllowed ?? true}
+                localStrategy={instance.geometricStrategy}
+                setInstanceStrategy={setInstanceStrategy}
+                layerConstraints={instanceSettings[instance.index]?.layerConstraints || EMPTY_CONSTRAINTS}
+                setLayerConstraint={setLayerConstraint}
              />
           ))}
       </div>
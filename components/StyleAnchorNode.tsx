@@ -2,7 +2,8 @@ import React, { memo, useState, useEffect, useMemo, useRef } from 'react';
 import { Handle, Position, NodeProps, useEdges, useReactFlow } from 'reactflow';
 import { PSDNodeData, StyleAnchor } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { findLayerByPath } from '../services/psdService';
+import { findLayerById, getLayerIndex, LayerIndex } from '../services/psdService';
+import { acquireLayerPixels } from '../services/pixelCacheService';
 import { Palette, Plus, Trash2, Image as ImageIcon, Loader2 } from 'lucide-react';
 import { Layer } from 'ag-psd';
 
@@ -13,17 +14,16 @@ interface LayerOption {
 }
 
 // Flatten PSD hierarchy to a selectable list (Depth-First)
-const flattenLayers = (layers: Layer[], path: string = '', depth = 0): LayerOption[] => {
+const flattenLayers = (layers: Layer[], index: LayerIndex, depth = 0): LayerOption[] => {
     let result: LayerOption[] = [];
-    layers.forEach((layer, index) => {
-        const currentPath = path ? `${path}.${index}` : `${index}`;
+    layers.forEach(layer => {
         // Skip hidden or empty groups if desired, but for style we might want them.
         // Let's include everything that has a name.
         if (layer.name && layer.name !== '!!TEMPLATE') {
-            result.push({ id: currentPath, name: layer.name, depth });
+            result.push({ id: index.idOf.get(layer)!, name: layer.name, depth });
         }
         if (layer.children) {
-            result = result.concat(flattenLayers(layer.children, currentPath, depth + 1));
+            result = result.concat(flattenLayers(layer.children, index, depth + 1));
         }
     });
     return result;
@@ -51,7 +51,7 @@ export const StyleAnchorNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
     // 2. Build Layer Options
     const layerOptions = useMemo(() => {
         if (!psd || !psd.children) return [];
-        return flattenLayers(psd.children);
+        return flattenLayers(psd.children, getLayerIndex(psd.children));
     }, [psd]);
 
     // Cleanup
@@ -59,6 +59,13 @@ export const StyleAnchorNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         return () => unregisterNode(id);
     }, [id, unregisterNode]);
 
+    // Adopt external rewrites of the persisted anchors (e.g. layer ID migration on PSD re-upload)
+    useEffect(() => {
+        if (data.styleAnchors && data.styleAnchors !== anchors) {
+            setAnchors(data.styleAnchors);
+        }
+    }, [data.styleAnchors]);
+
     // Sync to Registry & Data Persistence
     useEffect(() => {
         // Broadcast to Global Registry for consumers
@@ -80,11 +87,20 @@ export const StyleAnchorNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         const layerOption = layerOptions.find(l => l.id === selectedLayerId);
         if (!layerOption) return;
 
-        // Retrieve Binary Layer
-        const rawLayer = findLayerByPath(psd, selectedLayerId);
+        // Retrieve Binary Layer (decoding its pixels if the source was loaded structure-first)
+        const rawLayer = findLayerById(psd, selectedLayerId);
+        let releasePixels = () => {};
+        if (rawLayer && sourcePsdId) {
+            try {
+                releasePixels = await acquireLayerPixels(sourcePsdId, [rawLayer]);
+            } catch (e) {
+                console.error("Failed to decode layer pixels:", e);
+            }
+        }
         
         // Validation: Must be a pixel layer
         if (!rawLayer || !rawLayer.canvas) {
+            releasePixels();
             alert("Selected layer contains no pixel data to sample.");
             return;
         }
@@ -130,6 +146,7 @@ export const StyleAnchorNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         } catch (e) {
             console.error("Failed to anchor style:", e);
         } finally {
+            releasePixels();
             setIsSampling(false);
         }
     };
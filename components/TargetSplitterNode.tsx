@@ -2,7 +2,7 @@ import React, { memo, useMemo, useEffect } from 'react';
 import { Handle, Position, NodeProps, useEdges, useNodes, Node } from 'reactflow';
 import { PSDNodeData } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { getSemanticThemeObject } from '../services/psdService';
+import { getSemanticThemeObject, resolveTemplateForHandle } from '../services/psdService';
 
 export const TargetSplitterNode = memo(({ id }: NodeProps) => {
   const edges = useEdges();
@@ -10,14 +10,15 @@ export const TargetSplitterNode = memo(({ id }: NodeProps) => {
   // Connect to Store
   const { templateRegistry, registerTemplate, unregisterNode } = useProceduralStore();
 
-  // 1. Identify Upstream TargetTemplate Node ID
-  const upstreamNodeId = useMemo(() => {
-    const edge = edges.find(e => e.target === id && e.targetHandle === 'template-input');
-    return edge ? edge.source : null;
+  // 1. Identify Upstream TargetTemplate Edge (the source handle may select a single artboard)
+  const upstreamEdge = useMemo(() => {
+    return edges.find(e => e.target === id && e.targetHandle === 'template-input') || null;
   }, [edges, id]);
 
   // 2. Fetch Template from Store
-  const template = upstreamNodeId ? templateRegistry[upstreamNodeId] : null;
+  const template = useMemo(() => {
+    return upstreamEdge ? resolveTemplateForHandle(templateRegistry[upstreamEdge.source], upstreamEdge.sourceHandle) : null;
+  }, [upstreamEdge, templateRegistry]);
 
   // 3. Broadcast Template as "Self" to Store
   useEffect(() => {
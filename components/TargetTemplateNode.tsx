@@ -1,6 +1,6 @@
 import React, { memo, useCallback, useState, useRef, useEffect } from 'react';
 import { Handle, Position, NodeProps, useReactFlow } from 'reactflow';
-import { parsePsdFile, extractTemplateMetadata, getSemanticTheme } from '../services/psdService';
+import { parsePsdFile, extractTemplateMetadata, extractArtboardTemplates, getArtboardHandleId, ARTBOARD_FAMILY_HANDLE_ID, getSemanticTheme } from '../services/psdService';
 import { PSDNodeData, TemplateMetadata } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
 
@@ -14,7 +14,7 @@ const TargetTemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metad
   return (
     <div className="w-full mt-2 flex flex-col items-center">
       <div className="w-full flex justify-between items-end mb-1 px-1">
-        <span className="text-[10px] uppercase text-emerald-400 font-semibold tracking-wider">Target Layout</span>
+        <span className="text-[10px] uppercase text-emerald-400 font-semibold tracking-wider truncate">{metadata.artboard ? metadata.artboard.name : 'Target Layout'}</span>
         <span className="text-[9px] text-emerald-600/70">{canvas.width} x {canvas.height}</span>
       </div>
       <div 
@@ -43,9 +43,62 @@ const TargetTemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metad
   );
 };
 
+// One row and output handle per artboard, plus one handle for the whole family; clicking a row previews it
+const ArtboardList: React.FC<{
+  artboards: TemplateMetadata[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  isConnectable: boolean;
+}> = ({ artboards, selectedIndex, onSelect, isConnectable }) => (
+  <div className="mt-2 space-y-1">
+    <div className="relative text-[10px] uppercase text-emerald-400 font-semibold tracking-wider px-1">
+      Artboards ({artboards.length})
+      <Handle
+        type="source"
+        position={Position.Right}
+        id={ARTBOARD_FAMILY_HANDLE_ID}
+        isConnectable={isConnectable}
+        title="Output: All Artboards (connect to Export PSD to write the whole family)"
+        className={`!w-3 !h-3 !-right-[36px] !border-2 transition-colors duration-300 ${isConnectable ? '!bg-emerald-500 !border-white' : '!bg-slate-600 !border-slate-400'}`}
+        style={{ top: '50%', transform: 'translateY(-50%)' }}
+      />
+    </div>
+    {artboards.map(template => {
+      const artboard = template.artboard!;
+      const isSelected = artboard.index === selectedIndex;
+      return (
+        <div
+          key={artboard.index}
+          onClick={() => onSelect(artboard.index)}
+          className={`relative flex items-center justify-between px-2 py-1.5 rounded border cursor-pointer transition-colors ${
+            isSelected ? 'bg-emerald-900/30 border-emerald-600/50' : 'bg-slate-900/30 border-slate-700/50 hover:border-slate-600'
+          }`}
+        >
+          <div className="flex flex-col leading-tight overflow-hidden mr-3">
+            <span className="text-xs font-medium text-slate-200 truncate" title={artboard.name}>{artboard.name}</span>
+            <span className="text-[9px] text-slate-500 font-mono">
+              {template.canvas.width} x {template.canvas.height} · {template.containers.length} slots
+            </span>
+          </div>
+          <Handle
+            type="source"
+            position={Position.Right}
+            id={getArtboardHandleId(artboard.index)}
+            isConnectable={isConnectable}
+            title={`Output: Artboard "${artboard.name}" Template`}
+            className={`!w-3 !h-3 !-right-[36px] !border-2 transition-colors duration-300 ${isConnectable ? '!bg-emerald-500 !border-white' : '!bg-slate-600 !border-slate-400'}`}
+            style={{ top: '50%', transform: 'translateY(-50%)' }}
+          />
+        </div>
+      );
+    })}
+  </div>
+);
+
 export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
   const [isLoading, setIsLoading] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
+  const [previewArtboard, setPreviewArtboard] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { setNodes } = useReactFlow();
 
@@ -73,14 +126,20 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
       // Optimization: Skip layer image data as we only need structure/metadata for the target
       // However, for Export assembly, we might need the original canvas state or specific layers if user demands.
       // For now, we keep it lightweight as requested.
-      const parsedPsd = await parsePsdFile(file, { skipLayerImageData: true, skipThumbnail: true });
-      const templateData = extractTemplateMetadata(parsedPsd);
+      const parsedPsd = await parsePsdFile(file, { skipLayerImageData: true, skipThumbnail: true, skipCompositeImageData: true });
+      const documentTemplate = extractTemplateMetadata(parsedPsd);
+      const artboards = extractArtboardTemplates(parsedPsd);
 
-      // Validation: Logic requirement
-      if (templateData.containers.length === 0) {
+      // Validation: Logic requirement (a document-level template or at least one artboard template)
+      if (documentTemplate.containers.length === 0 && artboards.length === 0) {
         throw new Error("INVALID TARGET: No !!TEMPLATE Group Found");
       }
 
+      const templateData: TemplateMetadata = artboards.length > 0
+        ? { ...documentTemplate, artboards }
+        : documentTemplate;
+      setPreviewArtboard(null);
+
       // REGISTER WITH STORE
       registerPsd(id, parsedPsd);
       registerTemplate(id, templateData);
@@ -132,6 +191,13 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
   const handleBoxClick = () => fileInputRef.current?.click();
   const isConnectable = isDataLoaded && hasBinary;
 
+  // Artboard documents: the document handle only makes sense if the canvas has its own !!TEMPLATE
+  const artboards = data.template?.artboards || [];
+  const hasDocumentTemplate = !data.template || data.template.containers.length > 0;
+  const previewTemplate = artboards.length > 0 && !hasDocumentTemplate
+    ? artboards.find(t => t.artboard?.index === previewArtboard) || artboards[0]
+    : artboards.find(t => t.artboard?.index === previewArtboard) || data.template;
+
   return (
     // Removed overflow-hidden to prevent clipping of the output handle
     <div className={`w-72 rounded-lg shadow-xl border font-sans transition-colors relative ${isDehydrated ? 'bg-orange-950/30 border-orange-500/50' : 'bg-slate-800 border-slate-600'}`}>
@@ -154,7 +220,7 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
       </div>
 
       <div className="p-4">
-        <input type="file" accept=".psd" className="hidden" ref={fileInputRef} onChange={handleFileChange} />
+        <input type="file" accept=".psd,.psb" className="hidden" ref={fileInputRef} onChange={handleFileChange} />
 
         {/* RE-HYDRATION UI */}
         {isDehydrated && !isLoading && (
@@ -209,7 +275,16 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
                  <span className="text-xs font-medium text-slate-200 truncate" title={data.fileName || 'target.psd'}>{data.fileName}</span>
               </div>
               
-              {data.template && <TargetTemplatePreview metadata={data.template} />}
+              {previewTemplate && <TargetTemplatePreview metadata={previewTemplate} />}
+
+              {artboards.length > 0 && (
+                <ArtboardList
+                  artboards={artboards}
+                  selectedIndex={previewTemplate?.artboard?.index ?? -1}
+                  onSelect={index => setPreviewArtboard(prev => prev === index && hasDocumentTemplate ? null : index)}
+                  isConnectable={isConnectable}
+                />
+              )}
               
               <div className="flex justify-end mt-2">
                 <button 
@@ -236,16 +311,18 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
         )}
       </div>
 
-      {/* Output Handle - Centered Right */}
-      <Handle
-        type="source"
-        position={Position.Right}
-        id="target-metadata-out"
-        isConnectable={isConnectable}
-        title="Output: Target Template Metadata"
-        className={`!w-3 !h-3 !border-2 transition-colors duration-300 ${isConnectable ? '!bg-emerald-500 !border-white' : '!bg-slate-600 !border-slate-400'}`}
-        style={{ right: -6, top: '50%', transform: 'translateY(-50%)' }}
-      />
+      {/* Output Handle - Centered Right (document template) */}
+      {hasDocumentTemplate && (
+        <Handle
+          type="source"
+          position={Position.Right}
+          id="target-metadata-out"
+          isConnectable={isConnectable}
+          title="Output: Target Template Metadata"
+          className={`!w-3 !h-3 !border-2 transition-colors duration-300 ${isConnectable ? '!bg-emerald-500 !border-white' : '!bg-slate-600 !border-slate-400'}`}
+          style={{ right: -6, top: '50%', transform: 'translateY(-50%)' }}
+        />
+      )}
     </div>
   );
 });
\ No newline at end of file
@@ -1,7 +1,7 @@
 import React, { memo, useMemo } from 'react';
 import { Handle, Position, NodeProps, useEdges, useNodes, Node } from 'reactflow';
-import { PSDNodeData } from '../types';
-import { getSemanticThemeObject } from '../services/psdService';
+import { PSDNodeData, ContainerDefinition } from '../types';
+import { getSemanticThemeObject, getLocalContainerName } from '../services/psdService';
 
 export const TemplateSplitterNode = memo(({ id }: NodeProps) => {
   const edges = useEdges();
@@ -16,10 +16,16 @@ export const TemplateSplitterNode = memo(({ id }: NodeProps) => {
 
   const template = sourceNode?.data?.template;
   
-  // SORT LOGIC: Alphabetical
+  // SORT LOGIC: Alphabetical per level, sub-containers listed under their parent
   const sortedContainers = useMemo(() => {
       if (!template?.containers) return [];
-      return [...template.containers].sort((a, b) => a.name.localeCompare(b.name));
+      const byLocalName = (a: ContainerDefinition, b: ContainerDefinition) => getLocalContainerName(a.name).localeCompare(getLocalContainerName(b.name));
+      const walk = (parentId: string | undefined, depth: number): { container: ContainerDefinition, depth: number }[] =>
+          template.containers
+              .filter(c => c.parentId === parentId)
+              .sort(byLocalName)
+              .flatMap(container => [{ container, depth }, ...walk(container.id, depth + 1)]);
+      return walk(undefined, 0);
   }, [template]);
 
   // Helper to check if a specific container handle is connected
@@ -61,7 +67,7 @@ export const TemplateSplitterNode = memo(({ id }: NodeProps) => {
             </div>
           ) : (
             <div className="flex flex-col space-y-1">
-              {sortedContainers.map((container, index) => {
+              {sortedContainers.map(({ container, depth }, index) => {
                 const theme = getSemanticThemeObject(container.name, index);
                 const isConnected = isHandleConnected(container.name);
                 
@@ -69,11 +75,13 @@ export const TemplateSplitterNode = memo(({ id }: NodeProps) => {
                   <div 
                     key={container.id} 
                     className={`relative flex items-center justify-between p-2 rounded border border-slate-700/50 bg-slate-900/30 group hover:border-slate-600 transition-colors`}
+                    style={{ marginLeft: depth * 12 }}
                   >
                     <div className="flex items-center space-x-2 overflow-hidden">
+                       {depth > 0 && <span className="text-[10px] text-slate-600 font-mono shrink-0">└</span>}
                        <div className={`w-2 h-2 rounded-full ${theme.dot} shrink-0`}></div>
                        <span className={`text-xs font-medium truncate ${theme.text}`} title={container.name}>
-                         {container.name}
+                         {getLocalContainerName(container.name)}
                        </span>
                     </div>
                     
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { AICassetteStats, getCassetteStats, subscribeCassette } from '../services/aiCassetteService';
+
+/**
+ * Live mode and size of the AI record/replay cassette (re-renders on every recording or replay).
+ */
+export const useAICassetteStats = (): AICassetteStats => {
+  return useSyncExternalStore(subscribeCassette, getCassetteStats);
+};
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { AIQueueStats, getAIQueueStats, subscribeAIQueue } from '../services/aiQueueService';
+
+/**
+ * Live state of the shared AI job queue (re-renders whenever a job is queued, starts, retries or ends).
+ */
+export const useAIQueueStats = (): AIQueueStats => {
+  return useSyncExternalStore(subscribeAIQueue, getAIQueueStats);
+};
@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import { useReactFlow } from 'reactflow';
+import { PSDNodeData, AIUsage } from '../types';
+import { addInstanceUsage } from '../services/aiUsageService';
+
+/**
+ * Returns a function that adds an AI call's usage to the node's per-instance totals (`data.aiUsage`).
+ * Responses without usage (e.g. cassette replays) are ignored.
+ *
+ * @param nodeId The node the usage is billed to.
+ */
+export const useAIUsageRecorder = (nodeId: string) => {
+  const { setNodes } = useReactFlow<PSDNodeData>();
+
+  return useCallback((index: number, usage: AIUsage | undefined) => {
+    if (!usage) return;
+    setNodes(nds => nds.map(n => n.id === nodeId
+      ? { ...n, data: { ...n.data, aiUsage: addInstanceUsage(n.data.aiUsage, index, usage) } }
+      : n));
+  }, [nodeId, setNodes]);
+};
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { PixelCacheStats, getPixelCacheStats, subscribePixelCache } from '../services/pixelCacheService';
+
+/**
+ * Live memory usage of the decoded layer pixel cache (re-renders on every decode or eviction).
+ */
+export const usePixelCacheStats = (): PixelCacheStats => {
+  return useSyncExternalStore(subscribePixelCache, getPixelCacheStats);
+};
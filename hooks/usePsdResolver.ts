@@ -41,6 +41,19 @@ const findLayerDeep = (tree: SerializableLayer[], targetName: string, caseSensit
   return null;
 };
 
+// Helper: Qualified sub-container names ("HEADER/LOGO") resolve segment by segment,
+// each segment searched deeply inside the previous match
+const findLayerByNamePath = (tree: SerializableLayer[], segments: string[], caseSensitive: boolean): SerializableLayer | null => {
+  let scope = tree;
+  let match: SerializableLayer | null = null;
+  for (const segment of segments) {
+    match = findLayerDeep(scope, segment, caseSensitive);
+    if (!match) return null;
+    scope = match.children || [];
+  }
+  return match;
+};
+
 // Helper: Recursively count leaf layers (pixels/generative)
 // Groups sum their children; Layers return 1.
 const getRecursiveLeafCount = (layer: SerializableLayer): number => {
@@ -63,7 +76,7 @@ const getRecursiveLeafCount = (layer: SerializableLayer): number => {
  * 
  * Encapsulates the logic for:
  * 1. Stripping procedural prefixes (e.g., '!!SYMBOLS' -> 'SYMBOLS')
- * 2. Strict & Case-insensitive matching using DEEP RECURSION
+ * 2. Strict & Case-insensitive matching using DEEP RECURSION (qualified "HEADER/LOGO" names match nested groups)
  * 3. Hierarchy/Content validation using RECURSIVE LEAF COUNTING
  */
 export const usePsdResolver = () => {
@@ -107,7 +120,7 @@ export const usePsdResolver = () => {
     }
 
     // 2. Strict Deep Search (Priority 1)
-    const strictMatch = findLayerDeep(designTree, cleanTargetName, true);
+    const strictMatch = findLayerByNamePath(designTree, cleanTargetName.split('/'), true);
     
     if (strictMatch) {
        const totalCount = getRecursiveLeafCount(strictMatch);
@@ -130,7 +143,7 @@ export const usePsdResolver = () => {
     }
 
     // 3. Loose Deep Search (Priority 2 - Fallback)
-    const looseMatch = findLayerDeep(designTree, cleanTargetName, false);
+    const looseMatch = findLayerByNamePath(designTree, cleanTargetName.split('/'), false);
     
     if (looseMatch) {
        const totalCount = getRecursiveLeafCount(looseMatch);
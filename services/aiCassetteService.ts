@@ -0,0 +1,159 @@
+import { AIProviderId } from '../types';
+import { AIProvider, AITextResponse, AIJsonResponse, AIImageResponse } from './aiProvider';
+
+/**
+ * Record-and-replay of AI calls.
+ *
+ * In 'record' mode every request/response pair of the active provider is stored in the cassette,
+ * keyed by a SHA-256 of the operation and the full request (prompt, system instruction, schema and
+ * attached images). In 'replay' mode responses are served from the cassette only, without touching
+ * the provider or the network, so a recorded session regenerates the exact same layouts. Cassettes
+ * are saved and loaded as JSON files.
+ */
+
+export const CASSETTE_VERSION = 1;
+
+export type AICassetteMode = 'off' | 'record' | 'replay';
+
+type AIOperation = 'text' | 'json' | 'image';
+
+type AIResponse = AITextResponse | AIJsonResponse<unknown> | AIImageResponse | null;
+
+export interface AICassetteEntry {
+  operation: AIOperation;
+  provider: AIProviderId; // Provider that produced the response
+  summary: string; // Prompt excerpt, for humans reading the file
+  response: AIResponse;
+  recordedAt: number;
+}
+
+export interface AICassette {
+  version: number;
+  entries: Record<string, AICassetteEntry>;
+}
+
+export interface AICassetteStats {
+  mode: AICassetteMode;
+  entryCount: number;
+  hits: number; // Replayed responses this session
+  misses: number; // Replay requests without a recording
+}
+
+let mode: AICassetteMode = 'off';
+let entries: Record<string, AICassetteEntry> = {};
+let hits = 0;
+let misses = 0;
+let stats: AICassetteStats = { mode, entryCount: 0, hits, misses };
+const listeners = new Set<() => void>();
+
+const publish = () => {
+  stats = { mode, entryCount: Object.keys(entries).length, hits, misses };
+  listeners.forEach(listener => listener());
+};
+
+const hashRequest = async (operation: AIOperation, request: unknown): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify({ operation, request }));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const summarize = (request: { prompt?: string, contents?: unknown }): string => {
+  const text = request.prompt ?? (typeof request.contents === 'string' ? request.contents : JSON.stringify(request.contents));
+  const clean = text.replace(/"data":"[^"]*"/g, '"data":"…"').replace(/\s+/g, ' ').trim();
+  return clean.length > 160 ? `${clean.slice(0, 160)}...` : clean;
+};
+
+// Callers may mutate what they get back (e.g. enriching a layout strategy), so never hand out stored objects
+const copy = <T>(value: T): T => structuredClone(value);
+
+const playOrRecord = async <T extends AIResponse>(
+  provider: AIProvider,
+  operation: AIOperation,
+  request: { prompt?: string, contents?: unknown, signal?: AbortSignal },
+  call: () => Promise<T>
+): Promise<T> => {
+  if (mode === 'off') return call();
+
+  // The abort signal is not part of what was asked
+  const { signal, ...asked } = request;
+  const key = await hashRequest(operation, asked);
+  if (mode === 'replay') {
+    const entry = entries[key];
+    if (!entry || entry.operation !== operation) {
+      misses++;
+      publish();
+      throw new Error(`No recorded ${operation} response for this request. Record it first or switch replay off.`);
+    }
+    hits++;
+    publish();
+    // Replays cost nothing, so they report no usage
+    const replayed = copy(entry.response as T);
+    if (replayed) delete replayed.usage;
+    return replayed;
+  }
+
+  const response = await call();
+  entries = {
+    ...entries,
+    [key]: { operation, provider: provider.id, summary: summarize(asked), response: copy(response), recordedAt: Date.now() }
+  };
+  publish();
+  return response;
+};
+
+/**
+ * Wraps a provider so its calls go through the cassette according to the current mode.
+ */
+export const withCassette = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  // Replay needs no credentials
+  isAvailable: () => mode === 'replay' || provider.isAvailable(),
+  generateText: (request) => playOrRecord(provider, 'text', request, () => provider.generateText(request)),
+  generateJson: <T>(request: Parameters<AIProvider['generateJson']>[0]) =>
+    playOrRecord(provider, 'json', request, () => provider.generateJson<T>(request)),
+  generateImage: (request) => playOrRecord(provider, 'image', request, () => provider.generateImage(request))
+});
+
+export const setCassetteMode = (next: AICassetteMode) => {
+  if (next === mode) return;
+  mode = next;
+  hits = 0;
+  misses = 0;
+  publish();
+};
+
+export const getCassette = (): AICassette => ({ version: CASSETTE_VERSION, entries });
+
+/**
+ * Replaces the recordings with a parsed cassette file. Throws on files that are not cassettes.
+ */
+export const loadCassette = (data: unknown) => {
+  const cassette = data as Partial<AICassette> | null;
+  if (!cassette || typeof cassette !== 'object' || typeof cassette.entries !== 'object' || cassette.entries === null) {
+    throw new Error('Not an AI cassette file.');
+  }
+  if (cassette.version !== CASSETTE_VERSION) {
+    throw new Error(`Unsupported cassette version ${cassette.version}.`);
+  }
+  entries = { ...cassette.entries };
+  hits = 0;
+  misses = 0;
+  publish();
+};
+
+export const clearCassette = () => {
+  entries = {};
+  hits = 0;
+  misses = 0;
+  publish();
+};
+
+export const getCassetteStats = (): AICassetteStats => stats;
+
+/**
+ * Notifies on every recording, replay or mode change; returns the unsubscribe function (`useSyncExternalStore` compatible).
+ */
+export const subscribeCassette = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
@@ -0,0 +1,146 @@
+import { AIProviderId, AIUsage } from '../types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+import { withCassette } from './aiCassetteService';
+import { withQueue } from './aiQueueService';
+import { withBudget } from './aiUsageService';
+
+/**
+ * Provider-neutral access to the generative models used by the graph.
+ *
+ * Nodes describe what they need (a model tier, messages, an optional JSON schema, or an image
+ * prompt) and never name vendor models or construct SDK clients. The active provider is a
+ * project setting; without an API key the offline mock provider is the default.
+ */
+
+// Capability tiers instead of vendor model names; each provider maps them to its own models
+export type AIModelTier = 'fast' | 'pro';
+
+export type AIPart =
+  | { text: string }
+  | { image: { mimeType: string, data: string } }; // Base64 without the data URL prefix
+
+export interface AIMessage {
+  role: 'user' | 'model';
+  parts: AIPart[];
+}
+
+// Subset of JSON Schema understood by every provider. `default` doubles as the mock provider's answer.
+export interface AISchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, AISchema>;
+  required?: string[];
+  items?: AISchema;
+  enum?: string[];
+  default?: unknown;
+}
+
+export interface AITextRequest {
+  model: AIModelTier;
+  contents: string | AIMessage[]; // A plain string is a single user message
+  systemInstruction?: string;
+  thinkingBudget?: number; // Reasoning tokens, for providers that support it
+  signal?: AbortSignal; // Cancels the call
+}
+
+export interface AIJsonRequest extends AITextRequest {
+  schema: AISchema;
+}
+
+export interface AIImageRequest {
+  prompt: string;
+  aspectRatio: string; // "1:1", "3:4", "4:3", "9:16" or "16:9"
+  reference?: string; // Style reference, base64 or data URL
+  signal?: AbortSignal; // Cancels the call
+}
+
+export interface AITextResponse {
+  text: string;
+  usage?: AIUsage; // Absent for replayed responses
+}
+
+export interface AIJsonResponse<T> {
+  data: T;
+  text: string; // Raw response, e.g. for chat transcripts
+  usage?: AIUsage;
+}
+
+export interface AIImageResponse {
+  dataUrl: string;
+  usage?: AIUsage;
+}
+
+/**
+ * Rejection of `generateJson` when the answer does not parse (e.g. it was truncated). Carries the
+ * raw text so the model can be shown what it sent.
+ */
+export class AIInvalidJsonError extends Error {
+  text: string;
+
+  constructor(text: string, cause?: unknown) {
+    super('Response was not valid JSON.', { cause });
+    this.name = 'AIInvalidJsonError';
+    this.text = text;
+  }
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  isAvailable: () => boolean; // False when required credentials are missing
+  generateText: (request: AITextRequest) => Promise<AITextResponse>;
+  generateJson: <T>(request: AIJsonRequest) => Promise<AIJsonResponse<T>>;
+  // Resolves null when the model returned no image
+  generateImage: (request: AIImageRequest) => Promise<AIImageResponse | null>;
+  // Expected cost of a call in USD, reserved against the budget while it runs; free providers omit it
+  estimateCostUSD?: (request: AITextRequest | AIImageRequest) => number;
+}
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+export const AI_PROVIDERS: AIProvider[] = Object.values(PROVIDERS);
+
+// Every provider is reached through the record/replay cassette (a pass-through while it is off),
+// the shared job queue and then the project budget, so each attempt is checked when it starts;
+// replayed responses are free and never wait
+const QUEUED_PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: withCassette(withQueue(withBudget(geminiProvider))),
+  mock: withCassette(withQueue(withBudget(mockProvider)))
+};
+
+/**
+ * Gemini when an API key is configured, otherwise the offline mock.
+ */
+export const getDefaultAIProviderId = (): AIProviderId => geminiProvider.isAvailable() ? 'gemini' : 'mock';
+
+let activeProviderId: AIProviderId = getDefaultAIProviderId();
+
+export const setActiveAIProvider = (providerId: AIProviderId) => {
+  activeProviderId = PROVIDERS[providerId] ? providerId : getDefaultAIProviderId();
+};
+
+export const getAIProvider = (): AIProvider => QUEUED_PROVIDERS[activeProviderId];
+
+/**
+ * Strips the data URL prefix from a base64 image.
+ */
+export const toBase64Data = (image: string): string => image.includes('base64,') ? image.split('base64,')[1] : image;
+
+/**
+ * Closest supported aspect ratio for an image of the given size.
+ */
+export const getClosestAspectRatio = (width: number, height: number): string => {
+  const ratio = width / height;
+  const targets: Record<string, number> = {
+    '1:1': 1,
+    '3:4': 0.75,
+    '4:3': 1.333,
+    '9:16': 0.5625,
+    '16:9': 1.777
+  };
+  return Object.keys(targets).reduce((prev, curr) => Math.abs(targets[curr] - ratio) < Math.abs(targets[prev] - ratio) ? curr : prev);
+};
@@ -0,0 +1,247 @@
+import { AIUsage } from '../types';
+import { AIProvider, AIMessage } from './aiProvider';
+import { addAIUsage, getErrorUsage, attachErrorUsage } from './aiUsageService';
+
+/**
+ * Shared queue for AI calls.
+ *
+ * Every provider call becomes a job. At most `concurrency` jobs run at once; jobs that fail with a
+ * retryable error (rate limits, overload, network) are retried with exponential backoff and do not
+ * hold a slot while waiting. Each job has its own AbortController: cancelling a job (from the queue
+ * panel or through the caller's signal) rejects the caller with an 'AbortError' DOMException and
+ * frees the slot immediately. Failed jobs stay listed until dismissed. Usage billed by failed
+ * attempts is added to the result's `usage`, or attached to the final error (see `getErrorUsage`).
+ */
+
+export const DEFAULT_AI_CONCURRENCY = 2;
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_MESSAGE = /\b(429|503|RESOURCE_EXHAUSTED|UNAVAILABLE|rate.?limit|quota|overloaded|timed? ?out)\b|Failed to fetch|NetworkError/i;
+
+export type AIJobStatus = 'pending' | 'running' | 'retrying' | 'failed';
+
+export interface AIJob {
+  id: string;
+  label: string;
+  status: AIJobStatus;
+  attempts: number;
+  error?: string; // Last error (retrying and failed jobs)
+  retryAt?: number; // Timestamp of the next attempt (retrying jobs)
+  createdAt: number;
+}
+
+export interface AIQueueStats {
+  concurrency: number;
+  jobs: AIJob[]; // Oldest first; finished and cancelled jobs are removed
+  pending: number; // Pending and retrying
+  running: number;
+  failed: number;
+}
+
+interface QueueEntry {
+  job: AIJob;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  controller: AbortController;
+  holdsSlot: boolean;
+  usage?: AIUsage; // Billed by failed attempts so far
+  timer?: ReturnType<typeof setTimeout>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const entries = new Map<string, QueueEntry>(); // Iteration order = submission order
+const listeners = new Set<() => void>();
+
+let concurrency = DEFAULT_AI_CONCURRENCY;
+let activeCount = 0;
+let nextId = 0;
+let stats: AIQueueStats = { concurrency, jobs: [], pending: 0, running: 0, failed: 0 };
+
+const publish = () => {
+  const jobs = Array.from(entries.values(), entry => ({ ...entry.job }));
+  stats = {
+    concurrency,
+    jobs,
+    pending: jobs.filter(job => job.status === 'pending' || job.status === 'retrying').length,
+    running: jobs.filter(job => job.status === 'running').length,
+    failed: jobs.filter(job => job.status === 'failed').length
+  };
+  listeners.forEach(listener => listener());
+};
+
+// Adds the usage of failed attempts to a provider response
+const withAttemptUsage = (value: unknown, usage: AIUsage | undefined): unknown => {
+  if (!usage || !value || typeof value !== 'object') return value;
+  return { ...value, usage: addAIUsage(usage, (value as { usage?: AIUsage }).usage) };
+};
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const isRetryable = (error: unknown): boolean => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUS.has(status);
+  return RETRYABLE_MESSAGE.test(describeError(error));
+};
+
+// 1s, 2s, 4s ... with up to 25% jitter so parallel jobs do not retry in lockstep
+const backoffDelay = (attempt: number) => {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(delay * (1 + Math.random() * 0.25));
+};
+
+const releaseSlot = (entry: QueueEntry) => {
+  if (!entry.holdsSlot) return;
+  entry.holdsSlot = false;
+  activeCount--;
+};
+
+const start = async (entry: QueueEntry) => {
+  const { job, controller } = entry;
+  entry.holdsSlot = true;
+  activeCount++;
+  job.status = 'running';
+  job.attempts++;
+  job.retryAt = undefined;
+  publish();
+
+  try {
+    const value = await entry.run(controller.signal);
+    if (controller.signal.aborted) return; // The caller was already rejected
+    entries.delete(job.id);
+    entry.resolve(withAttemptUsage(value, entry.usage));
+  } catch (error) {
+    const usage = getErrorUsage(error);
+    if (usage) entry.usage = addAIUsage(entry.usage, usage);
+    if (controller.signal.aborted) return;
+    job.error = describeError(error);
+    if (isRetryable(error) && job.attempts <= MAX_RETRIES) {
+      const delay = backoffDelay(job.attempts);
+      job.status = 'retrying';
+      job.retryAt = Date.now() + delay;
+      entry.timer = setTimeout(() => {
+        entry.timer = undefined;
+        job.status = 'pending';
+        pump();
+      }, delay);
+    } else {
+      console.error(`AI job failed: ${job.label}`, error);
+      job.status = 'failed';
+      entry.reject(attachErrorUsage(error, entry.usage));
+    }
+  } finally {
+    releaseSlot(entry);
+    pump();
+  }
+};
+
+// Starts pending jobs in submission order while slots are free
+const pump = () => {
+  for (const entry of entries.values()) {
+    if (activeCount >= concurrency) break;
+    if (entry.job.status === 'pending') start(entry);
+  }
+  publish();
+};
+
+/**
+ * Runs `run` as a queued job. Resolves with its result, or rejects with the final error after
+ * retries, or with an 'AbortError' DOMException when the job is cancelled or `signal` aborts.
+ */
+export const enqueueAIJob = <T>(label: string, run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(new DOMException('AI job cancelled', 'AbortError'));
+
+  return new Promise<T>((resolve, reject) => {
+    const id = `ai-job-${++nextId}`;
+    entries.set(id, {
+      job: { id, label, status: 'pending', attempts: 0, createdAt: Date.now() },
+      run,
+      controller: new AbortController(),
+      holdsSlot: false,
+      resolve: resolve as (value: unknown) => void,
+      reject
+    });
+    signal?.addEventListener('abort', () => cancelAIJob(id), { once: true });
+    pump();
+  });
+};
+
+/**
+ * Aborts a pending, running or retrying job and rejects its caller. Failed jobs are just removed.
+ */
+export const cancelAIJob = (id: string) => {
+  const entry = entries.get(id);
+  if (!entry) return;
+  entries.delete(id);
+  if (entry.timer) clearTimeout(entry.timer);
+  if (entry.job.status !== 'failed') {
+    entry.controller.abort();
+    entry.reject(attachErrorUsage(new DOMException('AI job cancelled', 'AbortError'), entry.usage));
+  }
+  releaseSlot(entry);
+  pump();
+};
+
+/**
+ * Removes every failed job from the list.
+ */
+export const clearFailedAIJobs = () => {
+  entries.forEach((entry, id) => {
+    if (entry.job.status === 'failed') entries.delete(id);
+  });
+  publish();
+};
+
+/**
+ * Sets how many jobs may run at once; raising it starts waiting jobs right away.
+ */
+export const setAIConcurrency = (limit: number) => {
+  concurrency = Math.max(1, Math.round(limit));
+  pump();
+};
+
+export const getAIQueueStats = (): AIQueueStats => stats;
+
+/**
+ * Notifies on every job change; returns the unsubscribe function (`useSyncExternalStore` compatible).
+ */
+export const subscribeAIQueue = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const describeContents = (contents: string | AIMessage[]): string => {
+  if (typeof contents === 'string') return contents;
+  const message = [...contents].reverse().find(m => m.role === 'user');
+  return message?.parts.map(part => 'text' in part ? part.text : '').join(' ') || '';
+};
+
+const jobLabel = (provider: AIProvider, operation: string, text: string) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return `${provider.label} ${operation}: ${clean.length > 60 ? `${clean.slice(0, 60)}...` : clean}`;
+};
+
+/**
+ * Wraps a provider so every call runs as a queued job.
+ */
+export const withQueue = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  generateText: (request) => enqueueAIJob(
+    jobLabel(provider, 'text', describeContents(request.contents)),
+    signal => provider.generateText({ ...request, signal }),
+    request.signal
+  ),
+  generateJson: <T>(request: Parameters<AIProvider['generateJson']>[0]) => enqueueAIJob(
+    jobLabel(provider, 'json', describeContents(request.contents)),
+    signal => provider.generateJson<T>({ ...request, signal }),
+    request.signal
+  ),
+  generateImage: (request) => enqueueAIJob(
+    jobLabel(provider, 'image', request.prompt),
+    signal => provider.generateImage({ ...request, signal }),
+    request.signal
+  )
+});
@@ -0,0 +1,126 @@
+import { AIUsage } from '../types';
+import { AIProvider } from './aiProvider';
+
+/**
+ * Token and cost accounting for AI calls, and the optional project budget.
+ *
+ * Providers attach an `AIUsage` to each response; nodes add it to their per-instance totals in
+ * `PSDNodeData.aiUsage`, which the project totals are summed from. Calls that fail after being
+ * billed (e.g. unparseable JSON, or retries before the final error) carry their usage on the error;
+ * see `getErrorUsage`. While a budget is set, each attempt is checked when the queue runs it
+ * against the node totals (the only record of spend) plus the estimated cost of the attempts still
+ * in flight, so queued bursts cannot overshoot by more than what finished calls have yet to record.
+ */
+
+export const EMPTY_AI_USAGE: AIUsage = { calls: 0, inputTokens: 0, outputTokens: 0, thinkingTokens: 0, images: 0, costUSD: 0 };
+
+export const addAIUsage = (a: AIUsage | undefined, b: AIUsage | undefined): AIUsage => {
+  const left = a || EMPTY_AI_USAGE;
+  const right = b || EMPTY_AI_USAGE;
+  return {
+    calls: left.calls + right.calls,
+    inputTokens: left.inputTokens + right.inputTokens,
+    outputTokens: left.outputTokens + right.outputTokens,
+    thinkingTokens: left.thinkingTokens + right.thinkingTokens,
+    images: left.images + right.images,
+    costUSD: left.costUSD + right.costUSD
+  };
+};
+
+/**
+ * Adds a call's usage to one instance of a node's `aiUsage` record.
+ */
+export const addInstanceUsage = (record: Record<number, AIUsage> | undefined, index: number, usage: AIUsage): Record<number, AIUsage> => ({
+  ...record,
+  [index]: addAIUsage(record?.[index], usage)
+});
+
+/**
+ * Sum over every instance of a node's `aiUsage` record.
+ */
+export const sumAIUsage = (record: Record<number, AIUsage> | undefined): AIUsage =>
+  Object.values(record || {}).reduce<AIUsage>((total, usage) => addAIUsage(total, usage), EMPTY_AI_USAGE);
+
+/**
+ * "$0.042" style label; sub-cent amounts keep three decimals.
+ */
+export const formatUSD = (amount: number): string => `$${amount.toFixed(amount < 10 ? 3 : 2)}`;
+
+/**
+ * "12.3k" style label for token counts.
+ */
+export const formatTokens = (count: number): string => count >= 1000000
+  ? `${(count / 1000000).toFixed(1)}M`
+  : count >= 1000 ? `${(count / 1000).toFixed(1)}k` : `${count}`;
+
+/**
+ * Usage billed for a failed AI call, if the error carries any.
+ */
+export const getErrorUsage = (error: unknown): AIUsage | undefined => {
+  const usage = (error as { usage?: AIUsage } | null)?.usage;
+  return usage && typeof usage === 'object' ? usage : undefined;
+};
+
+/**
+ * Attaches usage to an error thrown by an AI call (for `getErrorUsage`); returns the error.
+ */
+export const attachErrorUsage = <E>(error: E, usage: AIUsage | undefined): E => {
+  if (usage && error && typeof error === 'object') (error as { usage?: AIUsage }).usage = usage;
+  return error;
+};
+
+let budgetUSD: number | undefined;
+let spentUSD = 0; // Project total summed from the nodes
+let reservedUSD = 0; // Estimated cost of attempts in flight
+
+const BUDGET_ERROR = 'AIBudgetError';
+
+/**
+ * Sets the project budget; undefined removes it.
+ */
+export const setAIBudget = (budget: number | undefined) => {
+  budgetUSD = budget !== undefined && budget > 0 ? budget : undefined;
+};
+
+/**
+ * Sets the spend the budget is checked against: the project total summed from the nodes, so
+ * deleting a node or resetting its usage frees its share.
+ */
+export const setAISpend = (total: number) => {
+  spentUSD = total;
+};
+
+export const isAIBudgetExceeded = (): boolean => budgetUSD !== undefined && spentUSD >= budgetUSD;
+
+/**
+ * True for the error a call is refused with once the budget is spent.
+ */
+export const isAIBudgetError = (error: unknown): boolean => error instanceof Error && error.name === BUDGET_ERROR;
+
+const guard = async <T>(estimateUSD: number, call: () => Promise<T>): Promise<T> => {
+  // Refuse once spent, and when this attempt's estimate would not fit beside the running ones
+  if (budgetUSD !== undefined && (spentUSD >= budgetUSD || spentUSD + reservedUSD + estimateUSD > budgetUSD)) {
+    const reserved = reservedUSD > 0 ? `, ${formatUSD(reservedUSD)} reserved by running calls` : '';
+    const error = new Error(`AI budget of ${formatUSD(budgetUSD)} reached (${formatUSD(spentUSD)} spent${reserved}, ~${formatUSD(estimateUSD)} needed). Raise or clear the budget to make new calls.`);
+    error.name = BUDGET_ERROR;
+    throw error;
+  }
+  reservedUSD += estimateUSD;
+  try {
+    return await call();
+  } finally {
+    reservedUSD -= estimateUSD;
+  }
+};
+
+/**
+ * Wraps a provider so calls are refused once the project budget is spent. Place it inside
+ * `withQueue` so every attempt is checked when it actually starts.
+ */
+export const withBudget = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  generateText: (request) => guard(provider.estimateCostUSD?.(request) || 0, () => provider.generateText(request)),
+  generateJson: <T>(request: Parameters<AIProvider['generateJson']>[0]) =>
+    guard(provider.estimateCostUSD?.(request) || 0, () => provider.generateJson<T>(request)),
+  generateImage: (request) => guard(provider.estimateCostUSD?.(request) || 0, () => provider.generateImage(request))
+});
@@ -0,0 +1,108 @@
+import { Layer } from 'ag-psd';
+import { BoundsMode } from '../types';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+// Alpha (0-255) at or below which a pixel counts as transparent (drops soft glow fringes and dithering)
+export const OPAQUE_ALPHA_THRESHOLD = 8;
+
+export const DEFAULT_BOUNDS_MODE: BoundsMode = 'opaque';
+
+/**
+ * Tight bounds of the pixels above the alpha threshold, in canvas-local pixels.
+ * Returns null when the canvas is fully transparent or unreadable.
+ */
+export const computeOpaqueBounds = (canvas: HTMLCanvasElement, threshold: number = OPAQUE_ALPHA_THRESHOLD): Rect | null => {
+  const { width, height } = canvas;
+  if (width === 0 || height === 0) return null;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const data = ctx.getImageData(0, 0, width, height).data;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width * 4;
+    for (let x = 0; x < width; x++) {
+      if (data[row + x * 4 + 3] <= threshold) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+};
+
+const opaqueCache = new WeakMap<Layer, Rect | null>();
+
+/**
+ * Opaque bounds of a pixel layer in document space (the layer canvas offset by its left/top).
+ * Fully transparent layers yield a zero-size rect at their origin; layers without pixel data
+ * (skipped or not yet decoded image data, groups, adjustments) yield null. Masks are not applied.
+ */
+export const getOpaqueLayerRect = (layer: Layer): Rect | null => {
+  if (opaqueCache.has(layer)) return opaqueCache.get(layer)!;
+  // Not cached: pixels decoded later (see pixelCacheService) still get measured
+  if (!layer.canvas || layer.children) return null;
+
+  const left = layer.left ?? 0;
+  const top = layer.top ?? 0;
+  const local = computeOpaqueBounds(layer.canvas);
+  const rect = local
+    ? { x: left + local.x, y: top + local.y, w: local.w, h: local.h }
+    : { x: left, y: top, w: 0, h: 0 };
+
+  opaqueCache.set(layer, rect);
+  return rect;
+};
+
+/**
+ * Records bounds measured elsewhere (e.g. in the parse worker before the pixels were dropped).
+ */
+export const primeOpaqueLayerRect = (layer: Layer, rect: Rect | null) => {
+  opaqueCache.set(layer, rect);
+};
+
+/**
+ * Union of the non-empty rects, or undefined if there are none.
+ */
+export const unionRects = (rects: (Rect | null | undefined)[]): Rect | undefined => {
+  const valid = rects.filter((r): r is Rect => !!r && r.w > 0 && r.h > 0);
+  if (valid.length === 0) return undefined;
+  const x = Math.min(...valid.map(r => r.x));
+  const y = Math.min(...valid.map(r => r.y));
+  return {
+    x,
+    y,
+    w: Math.max(...valid.map(r => r.x + r.w)) - x,
+    h: Math.max(...valid.map(r => r.y + r.h)) - y
+  };
+};
+
+/**
+ * The rect a consumer should measure: the opaque bounds in 'opaque' mode when known and non-empty,
+ * otherwise the raw layer rectangle.
+ */
+export const getLayerRect = (layer: { coords: Rect, opaqueCoords?: Rect }, mode: BoundsMode = DEFAULT_BOUNDS_MODE): Rect => {
+  const opaque = layer.opaqueCoords;
+  if (mode === 'opaque' && opaque && opaque.w > 0 && opaque.h > 0) return opaque;
+  return layer.coords;
+};
+
+/**
+ * Carries opaque bounds through a change of a layer's raw rect (move and/or scale).
+ */
+export const reprojectOpaqueCoords = (opaque: Rect | undefined, from: Rect, to: Rect): Rect | undefined => {
+  if (!opaque) return undefined;
+  const sx = from.w > 0 ? to.w / from.w : 1;
+  const sy = from.h > 0 ? to.h / from.h : 1;
+  return {
+    x: to.x + (opaque.x - from.x) * sx,
+    y: to.y + (opaque.y - from.y) * sy,
+    w: opaque.w * sx,
+    h: opaque.h * sy
+  };
+};
@@ -0,0 +1,221 @@
+import { TransformedLayer, LayerOverride, CollisionRule, BoundsMode } from '../types';
+import { DEFAULT_BOUNDS_MODE, getLayerRect, reprojectOpaqueCoords } from './boundsService';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+/**
+ * Default priority rules. Layers matching no rule get priority 0.
+ * Ties are broken by z-order (upper layers win).
+ */
+export const DEFAULT_COLLISION_RULES: CollisionRule[] = [
+  { pattern: 'logo|brand', priority: 100 },
+  { pattern: 'cta|button', priority: 90 },
+  { pattern: 'legal|disclaimer|terms', priority: 80 },
+  { pattern: 'headline|title|text|copy', priority: 70 },
+  { pattern: 'bg|background|backdrop', priority: -100 },
+];
+
+// Layers covering this much of the container are treated as backdrops, not colliders
+const BACKDROP_COVERAGE = 0.6;
+// Overlaps thinner than this (px) are ignored to avoid nudging anti-aliased edges
+const COLLISION_TOLERANCE = 1;
+const DEFAULT_MIN_SCALE = 0.6;
+const SHRINK_STEP = 0.9;
+
+export interface CollisionResult {
+  layers: TransformedLayer[];
+  overrides: LayerOverride[];
+  unresolved: string[]; // Layer IDs that could not be separated
+}
+
+export interface CollisionOptions {
+  rules?: CollisionRule[];
+  minScale?: number;
+  boundsMode?: BoundsMode; // 'opaque' ignores transparent padding and glow fringes
+  lockedIds?: Set<string>; // Layers that must not move (e.g. AI overrides)
+}
+
+const intersects = (a: Rect, b: Rect): boolean => {
+  const overlapX = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const overlapY = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  return overlapX > COLLISION_TOLERANCE && overlapY > COLLISION_TOLERANCE;
+};
+
+const contains = (outer: Rect, inner: Rect): boolean => {
+  return inner.x >= outer.x && inner.y >= outer.y &&
+    inner.x + inner.w <= outer.x + outer.w && inner.y + inner.h <= outer.y + outer.h;
+};
+
+// Full containment is intentional layering (text on a button plate), not a collision
+const collides = (a: Rect, b: Rect): boolean => intersects(a, b) && !contains(a, b) && !contains(b, a);
+
+const union = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, w: Math.max(a.x + a.w, b.x + b.w) - x, h: Math.max(a.y + a.h, b.y + b.h) - y };
+};
+
+const getPriority = (name: string, rules: CollisionRule[]): number => {
+  for (const rule of rules) {
+    try {
+      if (new RegExp(rule.pattern, 'i').test(name)) return rule.priority;
+    } catch {
+      // Invalid user pattern: skip rule
+    }
+  }
+  return 0;
+};
+
+const translateLayer = (layer: TransformedLayer, dx: number, dy: number): TransformedLayer => ({
+  ...layer,
+  coords: { ...layer.coords, x: layer.coords.x + dx, y: layer.coords.y + dy },
+  opaqueCoords: layer.opaqueCoords && { ...layer.opaqueCoords, x: layer.opaqueCoords.x + dx, y: layer.opaqueCoords.y + dy },
+  transform: { ...layer.transform, offsetX: layer.transform.offsetX + dx, offsetY: layer.transform.offsetY + dy },
+  children: layer.children?.map(c => translateLayer(c, dx, dy))
+});
+
+const scaleLayer = (layer: TransformedLayer, factor: number, originX: number, originY: number): TransformedLayer => {
+  const x = originX + (layer.coords.x - originX) * factor;
+  const y = originY + (layer.coords.y - originY) * factor;
+  const coords = { x, y, w: layer.coords.w * factor, h: layer.coords.h * factor };
+  return {
+    ...layer,
+    coords,
+    opaqueCoords: reprojectOpaqueCoords(layer.opaqueCoords, layer.coords, coords),
+    text: layer.text ? { ...layer.text, fontSize: layer.text.fontSize * factor } : undefined,
+    transform: {
+      ...layer.transform,
+      scaleX: layer.transform.scaleX * factor,
+      scaleY: layer.transform.scaleY * factor,
+      offsetX: x,
+      offsetY: y
+    },
+    children: layer.children?.map(c => scaleLayer(c, factor, originX, originY))
+  };
+};
+
+/**
+ * Finds the smallest single-axis move that clears every placed rect while staying
+ * inside the allowed region. Returns null if no such move exists.
+ */
+const findNudge = (rect: Rect, placed: Rect[], region: Rect): { dx: number, dy: number } | null => {
+  const candidates: { dx: number, dy: number }[] = [];
+  for (const p of placed) {
+    if (!collides(rect, p)) continue;
+    candidates.push(
+      { dx: p.x - (rect.x + rect.w), dy: 0 },
+      { dx: (p.x + p.w) - rect.x, dy: 0 },
+      { dx: 0, dy: p.y - (rect.y + rect.h) },
+      { dx: 0, dy: (p.y + p.h) - rect.y }
+    );
+  }
+
+  let best: { dx: number, dy: number } | null = null;
+  let bestCost = Infinity;
+
+  for (const c of candidates) {
+    const moved = { ...rect, x: rect.x + c.dx, y: rect.y + c.dy };
+    if (!contains(region, moved)) continue;
+    if (placed.some(p => collides(moved, p))) continue;
+    const cost = Math.abs(c.dx) + Math.abs(c.dy);
+    if (cost < bestCost) {
+      best = c;
+      bestCost = cost;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Deterministically separates overlapping sibling layers after remapping.
+ * 
+ * Siblings are placed in priority order (rules, then z-order). Each lower-priority layer
+ * that collides with an already placed one is nudged along one axis, or progressively
+ * shrunk around its center and nudged again, until it fits or `minScale` is reached.
+ * Groups move with their children; siblings inside groups are resolved recursively.
+ * Overlaps are measured on the opaque pixel bounds by default (`boundsMode: 'raw'` uses the layer rectangles).
+ * 
+ * @param layers The transformed layer tree (absolute coordinates).
+ * @param bounds The target container rect. Moved layers stay inside it (or their original footprint).
+ * @returns The adjusted tree plus the applied changes as additive `LayerOverride`s
+ *          (the same nudge semantics the Reviewer uses).
+ */
+export const resolveCollisions = (
+  layers: TransformedLayer[],
+  bounds: Rect,
+  options: CollisionOptions = {}
+): CollisionResult => {
+  const rules = options.rules || DEFAULT_COLLISION_RULES;
+  const minScale = options.minScale ?? DEFAULT_MIN_SCALE;
+  const boundsMode = options.boundsMode ?? DEFAULT_BOUNDS_MODE;
+  const rectOf = (layer: TransformedLayer) => getLayerRect(layer, boundsMode);
+  const lockedIds = options.lockedIds || new Set<string>();
+  const overrides: LayerOverride[] = [];
+  const unresolved: string[] = [];
+  const backdropArea = bounds.w * bounds.h * BACKDROP_COVERAGE;
+
+  const resolveSiblings = (siblings: TransformedLayer[]): TransformedLayer[] => {
+    const result = [...siblings];
+
+    const order = siblings
+      .map((layer, index) => ({ layer, index, priority: getPriority(layer.name, rules) }))
+      .filter(({ layer }) =>
+        layer.isVisible &&
+        layer.type !== 'generative' &&
+        rectOf(layer).w > 0 && rectOf(layer).h > 0 &&
+        rectOf(layer).w * rectOf(layer).h < backdropArea
+      )
+      .sort((a, b) => {
+        const aLocked = lockedIds.has(a.layer.id) ? 1 : 0;
+        const bLocked = lockedIds.has(b.layer.id) ? 1 : 0;
+        return (bLocked - aLocked) || (b.priority - a.priority) || (b.index - a.index);
+      });
+
+    const placed: Rect[] = [];
+
+    for (const { layer, index } of order) {
+      const rect = rectOf(layer);
+
+      if (lockedIds.has(layer.id) || !placed.some(p => collides(rect, p))) {
+        placed.push(rect);
+        continue;
+      }
+
+      const region = union(bounds, rect);
+      let resolved: TransformedLayer | null = null;
+
+      for (let factor = 1; factor >= minScale - 1e-6; factor *= SHRINK_STEP) {
+        const cx = rect.x + rect.w / 2;
+        const cy = rect.y + rect.h / 2;
+        const scaled = { x: cx - (rect.w * factor) / 2, y: cy - (rect.h * factor) / 2, w: rect.w * factor, h: rect.h * factor };
+        const nudge = placed.some(p => collides(scaled, p)) ? findNudge(scaled, placed, region) : { dx: 0, dy: 0 };
+        if (!nudge) continue;
+
+        const shrunk = factor < 1 ? scaleLayer(layer, factor, cx, cy) : layer;
+        resolved = translateLayer(shrunk, nudge.dx, nudge.dy);
+        overrides.push({
+          layerId: layer.id,
+          xOffset: resolved.coords.x - layer.coords.x,
+          yOffset: resolved.coords.y - layer.coords.y,
+          individualScale: factor
+        });
+        break;
+      }
+
+      if (resolved) {
+        result[index] = resolved;
+        placed.push(rectOf(resolved));
+      } else {
+        unresolved.push(layer.id);
+        placed.push(rect);
+      }
+    }
+
+    return result.map(layer =>
+      layer.children ? { ...layer, children: resolveSiblings(layer.children) } : layer
+    );
+  };
+
+  return { layers: resolveSiblings(layers), overrides, unresolved };
+};
@@ -0,0 +1,317 @@
+import { Psd, BlendMode, LayerEffectsInfo } from 'ag-psd';
+import { SerializableLayer, TransformedLayer } from '../types';
+import { findLayerById } from './psdService';
+import { getMaskedLayerCanvas } from './maskService';
+import { getEffectScale, drawEffectsBelow, drawEffectsAbove } from './effectsService';
+
+type Rect = { x: number, y: number, w: number, h: number };
+type CompositeLayer = SerializableLayer | TransformedLayer;
+
+/**
+ * Shared rendering rules for every node that rasterizes a layer tree
+ * (Analyst vision input, Reviewer audit image, Preview monitor, Export baking).
+ *
+ * - Z-order: ag-psd children are stored bottom-to-top, so index 0 is painted first.
+ * - Visibility: hidden groups hide their whole subtree.
+ * - Opacity: group opacity multiplies into its children.
+ * - Blend modes and clipping groups: see `drawLayerTree`.
+ * - Rotation: degrees, around the center of the layer's (transformed) coords.
+ * - Masks: layer raster and vector masks are honored (group masks are not).
+ * - Effects: drop shadow, outer glow, stroke and color overlay are approximated, scaled with the layer.
+ * - Generative layers: supplied asset if available, otherwise a dashed placeholder.
+ */
+export interface CompositeOptions {
+  origin?: { x: number, y: number }; // Absolute point mapped to canvas (0,0)
+  clip?: Rect; // Absolute clip rect (e.g. UNIFORM_FILL crop bounds)
+  background?: string;
+  drawPlaceholders?: boolean; // Default true
+  resolveGenerative?: (layer: CompositeLayer) => CanvasImageSource | null | undefined;
+  decorateLayer?: (ctx: CanvasRenderingContext2D, layer: CompositeLayer, rect: Rect) => void; // Runs inside the layer's transform
+}
+
+const PLACEHOLDER_FILL = 'rgba(168, 85, 247, 0.15)';
+const PLACEHOLDER_STROKE = 'rgba(168, 85, 247, 0.6)';
+const PLACEHOLDER_LABEL = 'rgba(168, 85, 247, 0.9)';
+
+const getRotation = (layer: CompositeLayer): number => {
+  return ('transform' in layer && layer.transform?.rotation) || 0;
+};
+
+/**
+ * Axis-aligned bounds of a rect rotated around its center.
+ */
+export const getRotatedBounds = (rect: Rect, rotation: number): Rect => {
+  if (!rotation) return rect;
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  const w = rect.w * cos + rect.h * sin;
+  const h = rect.w * sin + rect.h * cos;
+  const cx = rect.x + rect.w / 2;
+  const cy = rect.y + rect.h / 2;
+  return { x: cx - w / 2, y: cy - h / 2, w, h };
+};
+
+/**
+ * Bakes source pixels into a new canvas at the given size and rotation.
+ * The returned bounds are the rotated AABB in the same space as `rect`.
+ */
+export const rasterizeLayer = (
+  source: CanvasImageSource,
+  rect: Rect,
+  rotation: number = 0
+): { canvas: HTMLCanvasElement, bounds: Rect } => {
+  const bounds = getRotatedBounds(rect, rotation);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bounds.w));
+  canvas.height = Math.max(1, Math.round(bounds.h));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return { canvas, bounds };
+
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  if (rotation) ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(source, -rect.w / 2, -rect.h / 2, rect.w, rect.h);
+
+  return { canvas, bounds };
+};
+
+const drawPlaceholder = (ctx: CanvasRenderingContext2D, rect: Rect) => {
+  ctx.fillStyle = PLACEHOLDER_FILL;
+  ctx.strokeStyle = PLACEHOLDER_STROKE;
+  ctx.setLineDash([4, 4]);
+  ctx.lineWidth = 1;
+  ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+  ctx.strokeRect(rect.x, rect.y, rect.w, rect.h);
+
+  ctx.setLineDash([]);
+  ctx.fillStyle = PLACEHOLDER_LABEL;
+  ctx.font = '10px monospace';
+  ctx.fillText('AI GEN', rect.x + 4, rect.y + 12);
+};
+
+// PSD blend modes without a canvas equivalent fall back to the closest operation
+const BLEND_MODE_MAP: Record<BlendMode, GlobalCompositeOperation> = {
+  'pass through': 'source-over',
+  'normal': 'source-over',
+  'dissolve': 'source-over',
+  'darken': 'darken',
+  'multiply': 'multiply',
+  'color burn': 'color-burn',
+  'linear burn': 'multiply',
+  'darker color': 'darken',
+  'lighten': 'lighten',
+  'screen': 'screen',
+  'color dodge': 'color-dodge',
+  'linear dodge': 'lighter',
+  'lighter color': 'lighten',
+  'overlay': 'overlay',
+  'soft light': 'soft-light',
+  'hard light': 'hard-light',
+  'vivid light': 'hard-light',
+  'linear light': 'hard-light',
+  'pin light': 'hard-light',
+  'hard mix': 'hard-light',
+  'difference': 'difference',
+  'exclusion': 'exclusion',
+  'subtract': 'difference',
+  'divide': 'color-dodge',
+  'hue': 'hue',
+  'saturation': 'saturation',
+  'color': 'color',
+  'luminosity': 'luminosity',
+};
+
+/**
+ * Maps a PSD blend mode to a canvas composite operation.
+ */
+export const toCompositeOperation = (blendMode: BlendMode | undefined): GlobalCompositeOperation => {
+  return (blendMode && BLEND_MODE_MAP[blendMode]) || 'source-over';
+};
+
+// Offscreen canvas matching the destination, for isolated groups and clipping groups
+const createScratch = (ctx: CanvasRenderingContext2D): CanvasRenderingContext2D | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = ctx.canvas.width;
+  canvas.height = ctx.canvas.height;
+  return canvas.getContext('2d');
+};
+
+const blit = (ctx: CanvasRenderingContext2D, source: CanvasRenderingContext2D, alpha: number, op: GlobalCompositeOperation) => {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = alpha;
+  ctx.globalCompositeOperation = op;
+  ctx.drawImage(source.canvas, 0, 0);
+  ctx.restore();
+};
+
+/**
+ * Draws a layer tree onto an existing context following the shared rules.
+ *
+ * Blend modes come from the serialized layer (or the source PSD layer for older payloads).
+ * Clipping layers are masked by the alpha of the nearest non-clipping layer below them;
+ * the base's opacity and blend mode then apply to the whole clipping group.
+ * Groups with a non-normal blend mode are isolated; others pass through.
+ */
+export const drawLayerTree = (
+  ctx: CanvasRenderingContext2D,
+  layers: CompositeLayer[],
+  psd: Psd | null | undefined,
+  options: CompositeOptions = {}
+) => {
+  const origin = options.origin || { x: 0, y: 0 };
+  const drawPlaceholders = options.drawPlaceholders ?? true;
+
+  const getSourceLayer = (layer: CompositeLayer) => {
+    return psd && layer.type !== 'generative' ? findLayerById(psd, layer.id) : null;
+  };
+  const getBlend = (layer: CompositeLayer) => toCompositeOperation(layer.blendMode ?? getSourceLayer(layer)?.blendMode);
+  const isClipping = (layer: CompositeLayer) => !!(layer.clipping ?? getSourceLayer(layer)?.clipping);
+
+  const drawLeaf = (target: CanvasRenderingContext2D, layer: CompositeLayer, alpha: number, op: GlobalCompositeOperation) => {
+    const rect = {
+      x: layer.coords.x - origin.x,
+      y: layer.coords.y - origin.y,
+      w: layer.coords.w,
+      h: layer.coords.h
+    };
+    if (rect.w <= 0 || rect.h <= 0) return;
+
+    let source: CanvasImageSource | null | undefined = null;
+    let effects: LayerEffectsInfo | undefined;
+    if (layer.type === 'generative') {
+      source = options.resolveGenerative?.(layer);
+      if (!source && !drawPlaceholders) return;
+    } else {
+      // Raster/vector masks are applied in layer space, so they follow scale and rotation
+      const sourceLayer = getSourceLayer(layer);
+      source = sourceLayer ? getMaskedLayerCanvas(sourceLayer) : null;
+      if (!source) return;
+      effects = sourceLayer?.effects;
+    }
+    const effectScale = getEffectScale('transform' in layer ? layer.transform : undefined);
+
+    target.save();
+    target.globalAlpha = alpha;
+    target.globalCompositeOperation = op;
+
+    const rotation = getRotation(layer);
+    if (rotation) {
+      const cx = rect.x + rect.w / 2;
+      const cy = rect.y + rect.h / 2;
+      target.translate(cx, cy);
+      target.rotate((rotation * Math.PI) / 180);
+      target.translate(-cx, -cy);
+    }
+
+    try {
+      if (source) {
+        if (effects) drawEffectsBelow(target, source, rect, effects, effectScale);
+        target.drawImage(source, rect.x, rect.y, rect.w, rect.h);
+        if (effects) drawEffectsAbove(target, source, rect, effects, effectScale);
+      } else {
+        drawPlaceholder(target, rect);
+      }
+      target.globalCompositeOperation = 'source-over';
+      options.decorateLayer?.(target, layer, rect);
+    } catch (e) {
+      // Ignore empty/invalid canvas draw attempts
+    }
+
+    target.restore();
+  };
+
+  const paint = (target: CanvasRenderingContext2D, layer: CompositeLayer, alpha: number, op: GlobalCompositeOperation) => {
+    if (!layer.children || layer.children.length === 0) {
+      drawLeaf(target, layer, alpha, op);
+      return;
+    }
+
+    if (op === 'source-over') {
+      // Pass-through: children composite directly, group opacity multiplies in
+      drawList(target, layer.children as CompositeLayer[], alpha);
+      return;
+    }
+
+    const isolated = createScratch(target);
+    if (!isolated) return;
+    drawList(isolated, layer.children as CompositeLayer[], 1);
+    blit(target, isolated, alpha, op);
+  };
+
+  const drawList = (target: CanvasRenderingContext2D, list: CompositeLayer[], parentAlpha: number) => {
+    for (let i = 0; i < list.length; i++) {
+      const base = list[i];
+
+      // Collect the clipping run sitting on top of this base
+      let end = i + 1;
+      while (end < list.length && isClipping(list[end])) end++;
+      const clipped = list.slice(i + 1, end);
+      i = end - 1;
+
+      // A hidden base hides its whole clipping group
+      if (!base.isVisible) continue;
+
+      const alpha = parentAlpha * base.opacity;
+      const op = getBlend(base);
+
+      if (clipped.length === 0) {
+        paint(target, base, alpha, op);
+        continue;
+      }
+
+      const group = createScratch(target);
+      const mask = createScratch(target);
+      if (!group || !mask) continue;
+
+      paint(group, base, 1, 'source-over');
+      mask.drawImage(group.canvas, 0, 0);
+
+      for (const layer of clipped) {
+        if (!layer.isVisible) continue;
+        const scratch = createScratch(target);
+        if (!scratch) continue;
+        paint(scratch, layer, layer.opacity, 'source-over');
+        scratch.globalCompositeOperation = 'destination-in';
+        scratch.drawImage(mask.canvas, 0, 0);
+        blit(group, scratch, 1, getBlend(layer));
+      }
+
+      blit(target, group, alpha, op);
+    }
+  };
+
+  ctx.save();
+  if (options.clip) {
+    ctx.beginPath();
+    ctx.rect(options.clip.x - origin.x, options.clip.y - origin.y, options.clip.w, options.clip.h);
+    ctx.clip();
+  }
+  drawList(ctx, layers, 1);
+  ctx.restore();
+};
+
+/**
+ * Composites a layer tree into a new canvas of the given size.
+ */
+export const renderComposite = (
+  layers: CompositeLayer[],
+  psd: Psd | null | undefined,
+  width: number,
+  height: number,
+  options: CompositeOptions = {}
+): HTMLCanvasElement | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  drawLayerTree(ctx, layers, psd, options);
+  return canvas;
+};
@@ -0,0 +1,186 @@
+import { LayerEffectsInfo, UnitsValue, Color } from 'ag-psd';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+const scaleUnits = (value: UnitsValue | undefined, factor: number): UnitsValue | undefined => {
+  // Only pixel-based values follow the layer; percentages (e.g. choke/spread) are size-independent
+  if (!value || value.units !== 'Pixels') return value;
+  return { ...value, value: value.value * factor };
+};
+
+/**
+ * Returns a copy of a layer's effects with every pixel size, distance and softness multiplied by `factor`.
+ * Pattern and gradient overlay scales (percent) follow the layer as well.
+ */
+export const scaleLayerEffects = (effects: LayerEffectsInfo, factor: number): LayerEffectsInfo => {
+  if (!isFinite(factor) || factor <= 0 || factor === 1) return effects;
+
+  return {
+    ...effects,
+    dropShadow: effects.dropShadow?.map(e => ({ ...e, size: scaleUnits(e.size, factor), distance: scaleUnits(e.distance, factor), choke: scaleUnits(e.choke, factor) })),
+    innerShadow: effects.innerShadow?.map(e => ({ ...e, size: scaleUnits(e.size, factor), distance: scaleUnits(e.distance, factor), choke: scaleUnits(e.choke, factor) })),
+    outerGlow: effects.outerGlow && { ...effects.outerGlow, size: scaleUnits(effects.outerGlow.size, factor), choke: scaleUnits(effects.outerGlow.choke, factor) },
+    innerGlow: effects.innerGlow && { ...effects.innerGlow, size: scaleUnits(effects.innerGlow.size, factor), choke: scaleUnits(effects.innerGlow.choke, factor) },
+    bevel: effects.bevel && { ...effects.bevel, size: scaleUnits(effects.bevel.size, factor), soften: scaleUnits(effects.bevel.soften, factor) },
+    satin: effects.satin && { ...effects.satin, size: scaleUnits(effects.satin.size, factor), distance: scaleUnits(effects.satin.distance, factor) },
+    stroke: effects.stroke?.map(e => ({ ...e, size: scaleUnits(e.size, factor) })),
+    gradientOverlay: effects.gradientOverlay?.map(e => e.scale !== undefined ? { ...e, scale: e.scale * factor } : e),
+    patternOverlay: effects.patternOverlay && effects.patternOverlay.scale !== undefined
+      ? { ...effects.patternOverlay, scale: effects.patternOverlay.scale * factor }
+      : effects.patternOverlay
+  };
+};
+
+/**
+ * Uniform effect scale for a layer transform (matches the font-size rule for text).
+ */
+export const getEffectScale = (transform?: { scaleX: number, scaleY: number }): number => {
+  return transform ? Math.min(transform.scaleX, transform.scaleY) : 1;
+};
+
+// --- PREVIEW RENDERING (approximate) ---
+
+const isActive = (effect: { enabled?: boolean } | undefined): boolean => !!effect && effect.enabled !== false;
+
+const pixels = (value: UnitsValue | undefined, scale: number): number => (value?.value ?? 0) * scale;
+
+/**
+ * Converts an ag-psd effect color to a CSS color string with the given alpha.
+ */
+export const toCssColor = (color: Color | undefined, alpha: number = 1): string => {
+  let r = 0, g = 0, b = 0;
+  if (color && 'r' in color) {
+    r = color.r; g = color.g; b = color.b;
+  } else if (color && 'fr' in color) {
+    r = color.fr * 255; g = color.fg * 255; b = color.fb * 255;
+  } else if (color && 'c' in color) {
+    // Descriptors of CMYK documents store ink percentages; naive conversion without a profile
+    const white = 255 * (1 - color.k / 100);
+    r = white * (1 - color.c / 100); g = white * (1 - color.m / 100); b = white * (1 - color.y / 100);
+  } else if (color && 'k' in color) {
+    r = g = b = color.k * 255;
+  }
+  return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${alpha})`;
+};
+
+// Solid-color copy of the source's alpha, at the draw size
+const createSilhouette = (source: CanvasImageSource, rect: Rect, color: string): HTMLCanvasElement | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(rect.w));
+  canvas.height = Math.max(1, Math.ceil(rect.h));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, rect.w, rect.h);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Draws only the canvas shadow of `image` by pushing the image itself far off-canvas
+const drawShadowOnly = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, rect: Rect, color: string, blur: number, dx: number, dy: number) => {
+  const OFFSET = 100000;
+  // Shadow offsets ignore the current transform, so cancel the push in device space
+  const m = ctx.getTransform();
+  ctx.save();
+  ctx.shadowColor = color;
+  ctx.shadowBlur = blur;
+  ctx.shadowOffsetX = dx + OFFSET * m.a;
+  ctx.shadowOffsetY = dy + OFFSET * m.b;
+  ctx.drawImage(image, rect.x - OFFSET, rect.y, rect.w, rect.h);
+  ctx.restore();
+};
+
+/**
+ * Draws the effects that sit below the layer's pixels: drop shadows, outer glow and outside/center strokes.
+ * Call inside the layer's transform, before drawing the layer. `scale` converts effect pixels to draw pixels.
+ */
+export const drawEffectsBelow = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, rect: Rect, effects: LayerEffectsInfo, scale: number) => {
+  if (effects.disabled) return;
+
+  for (const shadow of effects.dropShadow || []) {
+    if (!isActive(shadow)) continue;
+    // Photoshop angles point toward the light; the shadow falls the opposite way (y axis down)
+    const rad = ((shadow.angle ?? 120) * Math.PI) / 180;
+    const distance = pixels(shadow.distance, scale);
+    drawShadowOnly(ctx, source, rect, toCssColor(shadow.color, shadow.opacity ?? 0.75), pixels(shadow.size, scale), -Math.cos(rad) * distance, Math.sin(rad) * distance);
+  }
+
+  const glow = effects.outerGlow;
+  if (isActive(glow)) {
+    drawShadowOnly(ctx, source, rect, toCssColor(glow!.color, glow!.opacity ?? 0.75), pixels(glow!.size, scale), 0, 0);
+  }
+
+  for (const stroke of effects.stroke || []) {
+    if (!isActive(stroke) || stroke.position === 'inside') continue;
+    const size = pixels(stroke.size, scale) * (stroke.position === 'center' ? 0.5 : 1);
+    if (size <= 0) continue;
+    const silhouette = createSilhouette(source, rect, toCssColor(stroke.color));
+    if (!silhouette) continue;
+
+    // Dilate by stamping the silhouette around a ring
+    const ring = document.createElement('canvas');
+    ring.width = Math.ceil(rect.w + size * 2);
+    ring.height = Math.ceil(rect.h + size * 2);
+    const ringCtx = ring.getContext('2d');
+    if (!ringCtx) continue;
+    const steps = Math.max(8, Math.min(32, Math.ceil(size * 2)));
+    for (let i = 0; i < steps; i++) {
+      const a = (i / steps) * Math.PI * 2;
+      ringCtx.drawImage(silhouette, size + Math.cos(a) * size, size + Math.sin(a) * size, rect.w, rect.h);
+    }
+    ringCtx.drawImage(silhouette, size, size, rect.w, rect.h);
+
+    ctx.save();
+    ctx.globalAlpha *= stroke.opacity ?? 1;
+    ctx.drawImage(ring, rect.x - size, rect.y - size);
+    ctx.restore();
+  }
+};
+
+/**
+ * Draws the effects that sit on top of the layer's pixels: color overlays and inside strokes.
+ * Call inside the layer's transform, after drawing the layer.
+ */
+export const drawEffectsAbove = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, rect: Rect, effects: LayerEffectsInfo, scale: number) => {
+  if (effects.disabled) return;
+
+  for (const fill of effects.solidFill || []) {
+    if (!isActive(fill)) continue;
+    const silhouette = createSilhouette(source, rect, toCssColor(fill.color));
+    if (!silhouette) continue;
+    ctx.save();
+    ctx.globalAlpha *= fill.opacity ?? 1;
+    ctx.drawImage(silhouette, rect.x, rect.y, rect.w, rect.h);
+    ctx.restore();
+  }
+
+  for (const stroke of effects.stroke || []) {
+    if (!isActive(stroke) || (stroke.position !== 'inside' && stroke.position !== 'center')) continue;
+    const size = pixels(stroke.size, scale) * (stroke.position === 'center' ? 0.5 : 1);
+    if (size <= 0) continue;
+    const silhouette = createSilhouette(source, rect, toCssColor(stroke.color));
+    if (!silhouette) continue;
+
+    // Erode: keep the silhouette where any shifted copy exposes a transparent edge
+    const edge = silhouette.getContext('2d');
+    if (!edge) continue;
+    const inner = createSilhouette(source, rect, '#000');
+    const innerCtx = inner?.getContext('2d');
+    if (!inner || !innerCtx) continue;
+    const steps = Math.max(8, Math.min(32, Math.ceil(size * 2)));
+    innerCtx.globalCompositeOperation = 'destination-in';
+    for (let i = 0; i < steps; i++) {
+      const a = (i / steps) * Math.PI * 2;
+      innerCtx.drawImage(silhouette, Math.cos(a) * size, Math.sin(a) * size);
+    }
+    edge.globalCompositeOperation = 'destination-out';
+    edge.drawImage(inner, 0, 0);
+
+    ctx.save();
+    ctx.globalAlpha *= stroke.opacity ?? 1;
+    ctx.drawImage(silhouette, rect.x, rect.y, rect.w, rect.h);
+    ctx.restore();
+  }
+};
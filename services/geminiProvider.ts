@@ -0,0 +1,159 @@
+import { GoogleGenAI, Type, Schema, Part, Content, GenerateContentConfig, GenerateContentResponse } from '@google/genai';
+import { AIUsage } from '../types';
+import { AIProvider, AIModelTier, AIPart, AIMessage, AISchema, AIJsonRequest, AITextRequest, AIImageRequest, AIInvalidJsonError, toBase64Data } from './aiProvider';
+import { attachErrorUsage } from './aiUsageService';
+
+/**
+ * Google Gemini behind the `AIProvider` interface. The only module that talks to @google/genai.
+ */
+
+const TEXT_MODELS: Record<AIModelTier, string> = {
+  fast: 'gemini-3-flash-preview',
+  pro: 'gemini-3-pro-preview'
+};
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+// List prices in USD per million tokens; thinking tokens are billed as output
+const PRICES: Record<string, { input: number, output: number }> = {
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 }
+};
+
+// Budget reservations: prompts are ~4 characters per token, images a fixed tile count, and
+// responses are assumed to run this long on top of any thinking budget
+const CHARS_PER_TOKEN = 4;
+const IMAGE_INPUT_TOKENS = 258;
+const IMAGE_OUTPUT_TOKENS = 1290;
+const EXPECTED_OUTPUT_TOKENS = 2048;
+
+const SCHEMA_TYPES: Record<AISchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) throw new Error('API Key missing');
+  if (!client) client = new GoogleGenAI({ apiKey });
+  return client;
+};
+
+const priceTokens = (model: string, inputTokens: number, outputTokens: number): number => {
+  const price = PRICES[model];
+  return price ? (inputTokens * price.input + outputTokens * price.output) / 1000000 : 0;
+};
+
+const toUsage = (model: string, response: GenerateContentResponse, images: number = 0): AIUsage => {
+  const metadata = response.usageMetadata;
+  const inputTokens = metadata?.promptTokenCount || 0;
+  const thinkingTokens = metadata?.thoughtsTokenCount || 0;
+  const outputTokens = (metadata?.candidatesTokenCount || 0) + thinkingTokens;
+  return {
+    calls: 1,
+    inputTokens,
+    outputTokens,
+    thinkingTokens,
+    images,
+    costUSD: priceTokens(model, inputTokens, outputTokens)
+  };
+};
+
+const estimateInputTokens = (contents: string | AIMessage[], systemInstruction: string = ''): number => {
+  const parts: AIPart[] = typeof contents === 'string' ? [{ text: contents }] : contents.flatMap(message => message.parts);
+  const chars = parts.reduce((total, part) => total + ('text' in part ? part.text.length : 0), systemInstruction.length);
+  const images = parts.filter(part => 'image' in part).length;
+  return Math.ceil(chars / CHARS_PER_TOKEN) + images * IMAGE_INPUT_TOKENS;
+};
+
+const toPart = (part: AIPart): Part => 'text' in part
+  ? { text: part.text }
+  : { inlineData: { mimeType: part.image.mimeType, data: part.image.data } };
+
+const toContents = (contents: string | AIMessage[]): string | Content[] => typeof contents === 'string'
+  ? contents
+  : contents.map(message => ({ role: message.role, parts: message.parts.map(toPart) }));
+
+const toSchema = (schema: AISchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items && toSchema(schema.items),
+  properties: schema.properties && Object.fromEntries(
+    Object.entries(schema.properties).map(([key, value]) => [key, toSchema(value)])
+  )
+});
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+
+  isAvailable: () => !!process.env.API_KEY,
+
+  generateText: async ({ model, contents, systemInstruction, thinkingBudget, signal }) => {
+    const config: GenerateContentConfig = { systemInstruction, abortSignal: signal };
+    if (thinkingBudget) config.thinkingConfig = { thinkingBudget };
+    const response = await getClient().models.generateContent({ model: TEXT_MODELS[model], contents: toContents(contents), config });
+    return { text: response.text || '', usage: toUsage(TEXT_MODELS[model], response) };
+  },
+
+  generateJson: async <T>({ model, contents, systemInstruction, thinkingBudget, schema, signal }: AIJsonRequest) => {
+    const config: GenerateContentConfig = {
+      systemInstruction,
+      abortSignal: signal,
+      responseMimeType: 'application/json',
+      responseSchema: toSchema(schema)
+    };
+    if (thinkingBudget) config.thinkingConfig = { thinkingBudget };
+    const response = await getClient().models.generateContent({ model: TEXT_MODELS[model], contents: toContents(contents), config });
+    const text = response.text || '';
+    const usage = toUsage(TEXT_MODELS[model], response);
+    try {
+      return { data: JSON.parse(text || '{}') as T, text, usage };
+    } catch (e) {
+      // The tokens were billed even though the answer is unusable
+      throw attachErrorUsage(new AIInvalidJsonError(text, e), usage);
+    }
+  },
+
+  generateImage: async ({ prompt, aspectRatio, reference, signal }) => {
+    const parts: Part[] = [];
+    if (reference) {
+      parts.push({ inlineData: { mimeType: 'image/png', data: toBase64Data(reference) } });
+    }
+    parts.push({ text: prompt });
+
+    const response = await getClient().models.generateContent({
+      model: IMAGE_MODEL,
+      contents: { parts },
+      config: { imageConfig: { aspectRatio }, abortSignal: signal }
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData?.data) {
+        return {
+          dataUrl: `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`,
+          usage: toUsage(IMAGE_MODEL, response, 1)
+        };
+      }
+    }
+    return null;
+  },
+
+  estimateCostUSD: (request: AITextRequest | AIImageRequest) => {
+    if ('prompt' in request) {
+      const inputTokens = Math.ceil(request.prompt.length / CHARS_PER_TOKEN) + (request.reference ? IMAGE_INPUT_TOKENS : 0);
+      return priceTokens(IMAGE_MODEL, inputTokens, IMAGE_OUTPUT_TOKENS);
+    }
+    const outputTokens = EXPECTED_OUTPUT_TOKENS + (request.thinkingBudget || 0);
+    return priceTokens(TEXT_MODELS[request.model], estimateInputTokens(request.contents, request.systemInstruction), outputTokens);
+  }
+};
@@ -0,0 +1,129 @@
+import { Node, Edge } from 'reactflow';
+import { PSDNodeData, LayoutStrategy, LayerOverride, ChatMessage, AnalystInstanceState, ReviewerInstanceState, InstanceSettings, UnmatchedLayerReference } from '../types';
+
+type IdMap = Record<string, string>;
+
+const migrateOverrides = (overrides: LayerOverride[], map: IdMap): LayerOverride[] => {
+  return overrides.map(o => map[o.layerId] ? { ...o, layerId: map[o.layerId] } : o);
+};
+
+const migrateStrategy = (strategy: LayoutStrategy | null | undefined, map: IdMap) => {
+  if (!strategy?.overrides) return strategy;
+  return { ...strategy, overrides: migrateOverrides(strategy.overrides, map) };
+};
+
+const migrateHistory = (history: ChatMessage[] | undefined, map: IdMap): ChatMessage[] | undefined => {
+  return history?.map(msg => msg.strategySnapshot
+    ? { ...msg, strategySnapshot: migrateStrategy(msg.strategySnapshot, map)! }
+    : msg
+  );
+};
+
+const mapRecord = <T>(record: Record<number, T> | undefined, fn: (value: T) => T): Record<number, T> | undefined => {
+  if (!record) return record;
+  const result: Record<number, T> = {};
+  Object.entries(record).forEach(([key, value]) => { result[Number(key)] = fn(value); });
+  return result;
+};
+
+/**
+ * Rewrites every persisted layer reference in a node's data through an ID map
+ * (AI overrides, chat snapshots, reviewer nudges, style anchors, per-layer constraints).
+ */
+export const migrateNodeLayerIds = (data: PSDNodeData, map: IdMap): PSDNodeData => {
+  if (Object.keys(map).length === 0) return data;
+
+  return {
+    ...data,
+    layoutStrategy: migrateStrategy(data.layoutStrategy, map),
+    chatHistory: migrateHistory(data.chatHistory, map),
+    analystInstances: mapRecord<AnalystInstanceState>(data.analystInstances, state => ({
+      ...state,
+      layoutStrategy: migrateStrategy(state.layoutStrategy, map) ?? null,
+      chatHistory: migrateHistory(state.chatHistory, map) || []
+    })),
+    reviewerInstances: mapRecord<ReviewerInstanceState>(data.reviewerInstances, state => ({
+      ...state,
+      reviewerStrategy: state.reviewerStrategy
+        ? { ...state.reviewerStrategy, overrides: migrateOverrides(state.reviewerStrategy.overrides, map) }
+        : null,
+      chatHistory: migrateHistory(state.chatHistory, map) || []
+    })),
+    styleAnchors: data.styleAnchors?.map(a => map[a.layerId] ? { ...a, layerId: map[a.layerId] } : a),
+    instanceSettings: mapRecord<InstanceSettings>(data.instanceSettings, settings => settings.layerConstraints
+      ? {
+          ...settings,
+          layerConstraints: Object.fromEntries(
+            Object.entries(settings.layerConstraints).map(([layerId, c]) => [map[layerId] ?? layerId, c])
+          )
+        }
+      : settings
+    )
+  };
+};
+
+/**
+ * IDs of every node reachable downstream of `sourceId`.
+ */
+export const getDownstreamNodeIds = (sourceId: string, edges: Edge[]): Set<string> => {
+  const visited = new Set<string>();
+  const queue = [sourceId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    edges.forEach(e => {
+      if (e.source === current && !visited.has(e.target)) {
+        visited.add(e.target);
+        queue.push(e.target);
+      }
+    });
+  }
+  return visited;
+};
+
+/**
+ * Applies a layer ID migration to every node downstream of a re-uploaded PSD.
+ * Path IDs are only unique per file, so unrelated branches are left untouched.
+ */
+export const migrateDownstreamLayerIds = (nodes: Node<PSDNodeData>[], edges: Edge[], sourceId: string, map: IdMap): Node<PSDNodeData>[] => {
+  if (Object.keys(map).length === 0) return nodes;
+  const downstream = getDownstreamNodeIds(sourceId, edges);
+  return nodes.map(node => downstream.has(node.id)
+    ? { ...node, data: migrateNodeLayerIds(node.data, map) }
+    : node
+  );
+};
+
+/**
+ * Lists the live layer references held in a node's data (chat history snapshots are not live).
+ */
+export const collectLayerReferences = (nodeId: string, data: PSDNodeData): UnmatchedLayerReference[] => {
+  const refs: UnmatchedLayerReference[] = [];
+  const push = (source: UnmatchedLayerReference['source'], layerId: string, label: string) => {
+    refs.push({ nodeId, source, layerId, label });
+  };
+
+  data.layoutStrategy?.overrides?.forEach(o => push('override', o.layerId, 'Strategy override'));
+  Object.entries(data.analystInstances || {}).forEach(([i, state]) => {
+    state.layoutStrategy?.overrides?.forEach(o => push('override', o.layerId, `Instance ${Number(i) + 1} override`));
+  });
+  Object.entries(data.reviewerInstances || {}).forEach(([i, state]) => {
+    state.reviewerStrategy?.overrides.forEach(o => push('reviewer', o.layerId, `Instance ${Number(i) + 1} nudge`));
+  });
+  data.styleAnchors?.forEach(a => push('styleAnchor', a.layerId, `Style anchor "${a.layerName}"`));
+  Object.entries(data.instanceSettings || {}).forEach(([i, settings]) => {
+    Object.keys(settings.layerConstraints || {}).forEach(layerId => push('constraint', layerId, `Instance ${Number(i) + 1} constraint`));
+  });
+
+  return refs;
+};
+
+/**
+ * References downstream of `sourceId` whose layer no longer exists in the current revision.
+ */
+export const findUnmatchedReferences = (nodes: Node<PSDNodeData>[], edges: Edge[], sourceId: string, validIds: Set<string>): UnmatchedLayerReference[] => {
+  const downstream = getDownstreamNodeIds(sourceId, edges);
+  return nodes
+    .filter(node => downstream.has(node.id))
+    .flatMap(node => collectLayerReferences(node.id, node.data))
+    .filter(ref => !validIds.has(ref.layerId));
+};
@@ -0,0 +1,329 @@
+import { AnchorPoint, LegacyAnchor, StretchAxis, LayerConstraint, HorizontalConstraint, VerticalConstraint, SerializableLayer, ContainerAnnotations, RemapStrategy } from '../types';
+
+export type HorizontalAlign = 'LEFT' | 'CENTER' | 'RIGHT';
+export type VerticalAlign = 'TOP' | 'CENTER' | 'BOTTOM';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+export interface AnchorAlignment {
+  horizontal: HorizontalAlign;
+  vertical: VerticalAlign;
+  stretchX: boolean;
+  stretchY: boolean;
+}
+
+/**
+ * The nine anchor points in row-major order (top row first).
+ * Used for schema enums and grid-style UI rendering.
+ */
+export const ANCHOR_GRID: AnchorPoint[] = [
+  'TOP_LEFT', 'TOP_CENTER', 'TOP_RIGHT',
+  'CENTER_LEFT', 'CENTER', 'CENTER_RIGHT',
+  'BOTTOM_LEFT', 'BOTTOM_CENTER', 'BOTTOM_RIGHT',
+];
+
+export const STRETCH_AXES: StretchAxis[] = ['NONE', 'X', 'Y', 'BOTH'];
+
+/**
+ * Normalizes an anchor (including legacy TOP/BOTTOM/STRETCH values) and stretch mode
+ * into per-axis alignment flags.
+ * 
+ * @param anchor The strategy anchor. Unknown values fall back to CENTER.
+ * @param stretch Optional stretch axes. Legacy 'STRETCH' anchors imply BOTH.
+ */
+export const resolveAnchorAlignment = (anchor: AnchorPoint | LegacyAnchor | undefined, stretch?: StretchAxis): AnchorAlignment => {
+  let vertical: VerticalAlign = 'CENTER';
+  let horizontal: HorizontalAlign = 'CENTER';
+  let effectiveStretch: StretchAxis = stretch || 'NONE';
+
+  switch (anchor) {
+    case 'TOP':
+      vertical = 'TOP';
+      break;
+    case 'BOTTOM':
+      vertical = 'BOTTOM';
+      break;
+    case 'STRETCH':
+      if (!stretch) effectiveStretch = 'BOTH';
+      break;
+    default:
+      if (anchor && ANCHOR_GRID.includes(anchor)) {
+        const [v, h] = anchor === 'CENTER' ? ['CENTER', 'CENTER'] : anchor.split('_');
+        vertical = v as VerticalAlign;
+        horizontal = h as HorizontalAlign;
+      }
+      break;
+  }
+
+  return {
+    horizontal,
+    vertical,
+    stretchX: effectiveStretch === 'X' || effectiveStretch === 'BOTH',
+    stretchY: effectiveStretch === 'Y' || effectiveStretch === 'BOTH',
+  };
+};
+
+/**
+ * Converts an alignment back to its canonical grid point (used for display).
+ */
+export const toAnchorPoint = (alignment: AnchorAlignment): AnchorPoint => {
+  if (alignment.vertical === 'CENTER' && alignment.horizontal === 'CENTER') return 'CENTER';
+  return `${alignment.vertical}_${alignment.horizontal}` as AnchorPoint;
+};
+
+/**
+ * Returns the top-left position of a scaled box placed inside a target rect.
+ * Stretched axes are pinned to the target origin.
+ */
+export const alignWithin = (
+  alignment: AnchorAlignment,
+  target: { x: number, y: number, w: number, h: number },
+  scaledW: number,
+  scaledH: number
+): { x: number, y: number } => {
+  let x = target.x;
+  let y = target.y;
+
+  if (!alignment.stretchX) {
+    if (alignment.horizontal === 'CENTER') x = target.x + (target.w - scaledW) / 2;
+    else if (alignment.horizontal === 'RIGHT') x = target.x + (target.w - scaledW);
+  }
+
+  if (!alignment.stretchY) {
+    if (alignment.vertical === 'CENTER') y = target.y + (target.h - scaledH) / 2;
+    else if (alignment.vertical === 'BOTTOM') y = target.y + (target.h - scaledH);
+  }
+
+  return { x, y };
+};
+
+// --- PER-LAYER CONSTRAINTS ---
+
+export const DEFAULT_LAYER_CONSTRAINT: LayerConstraint = { horizontal: 'SCALE', vertical: 'SCALE' };
+
+export const HORIZONTAL_CONSTRAINTS: HorizontalConstraint[] = ['LEFT', 'RIGHT', 'LEFT_RIGHT', 'CENTER', 'SCALE'];
+export const VERTICAL_CONSTRAINTS: VerticalConstraint[] = ['TOP', 'BOTTOM', 'TOP_BOTTOM', 'CENTER', 'SCALE'];
+
+const CONSTRAINT_TAG_REGEX = /\[([^\]]+)\]\s*$/;
+
+/**
+ * Parses a trailing constraint tag from a layer name, e.g. "Logo [left top fixed]"
+ * or "Legal [bottom, left-right]".
+ * 
+ * Tokens: left, right, left-right, hcenter, top, bottom, top-bottom, vcenter,
+ * center, scale, fixed. 'center' and 'scale' apply to any axis not otherwise pinned.
+ * Returns null when there is no tag or it contains an unknown token, so ordinary
+ * bracketed names (e.g. "Hero [copy]") are left alone.
+ */
+export const parseConstraintTag = (name: string): LayerConstraint | null => {
+  const match = name.match(CONSTRAINT_TAG_REGEX);
+  if (!match) return null;
+
+  const tokens = match[1].toLowerCase().split(/[\s,;]+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  let horizontal: HorizontalConstraint | null = null;
+  let vertical: VerticalConstraint | null = null;
+  let fallback: 'CENTER' | 'SCALE' | null = null;
+  let fixedSize = false;
+
+  for (const token of tokens) {
+    switch (token) {
+      case 'left': horizontal = horizontal === 'RIGHT' ? 'LEFT_RIGHT' : 'LEFT'; break;
+      case 'right': horizontal = horizontal === 'LEFT' ? 'LEFT_RIGHT' : 'RIGHT'; break;
+      case 'left-right': horizontal = 'LEFT_RIGHT'; break;
+      case 'hcenter': horizontal = 'CENTER'; break;
+      case 'top': vertical = vertical === 'BOTTOM' ? 'TOP_BOTTOM' : 'TOP'; break;
+      case 'bottom': vertical = vertical === 'TOP' ? 'TOP_BOTTOM' : 'BOTTOM'; break;
+      case 'top-bottom': vertical = 'TOP_BOTTOM'; break;
+      case 'vcenter': vertical = 'CENTER'; break;
+      case 'center': fallback = 'CENTER'; break;
+      case 'scale': fallback = 'SCALE'; break;
+      case 'fixed': fixedSize = true; break;
+      default: return null;
+    }
+  }
+
+  return {
+    horizontal: horizontal || fallback || 'SCALE',
+    vertical: vertical || fallback || 'SCALE',
+    ...(fixedSize ? { fixedSize } : {})
+  };
+};
+
+/**
+ * Resolves the effective constraint for a layer.
+ * Constraints stored in node data take precedence over name tags.
+ * Returns null when the layer is unconstrained (plain container-wide scaling).
+ */
+export const resolveLayerConstraint = (
+  layer: SerializableLayer,
+  stored?: Record<string, LayerConstraint>
+): LayerConstraint | null => {
+  return stored?.[layer.id] || parseConstraintTag(layer.name);
+};
+
+type AxisMode = 'START' | 'END' | 'BOTH' | 'CENTER' | 'SCALE';
+
+const AXIS_MODE: Record<HorizontalConstraint | VerticalConstraint, AxisMode> = {
+  LEFT: 'START', TOP: 'START',
+  RIGHT: 'END', BOTTOM: 'END',
+  LEFT_RIGHT: 'BOTH', TOP_BOTTOM: 'BOTH',
+  CENTER: 'CENTER',
+  SCALE: 'SCALE',
+};
+
+// Resolves one axis. Pinned margins scale with the layer (sizeScale), so fixed-size layers keep exact pixel margins.
+const resolveAxis = (
+  mode: AxisMode,
+  layerStart: number, layerLen: number,
+  sourceStart: number, sourceLen: number,
+  targetStart: number, targetLen: number,
+  axisScale: number, sizeScale: number,
+  geometricStart: number
+): { start: number, len: number } => {
+  const before = layerStart - sourceStart;
+  const after = (sourceStart + sourceLen) - (layerStart + layerLen);
+  const len = layerLen * sizeScale;
+
+  switch (mode) {
+    case 'START':
+      return { start: targetStart + before * sizeScale, len };
+    case 'END':
+      return { start: targetStart + targetLen - after * sizeScale - len, len };
+    case 'BOTH':
+      return { start: targetStart + before * sizeScale, len: Math.max(1, targetLen - (before + after) * sizeScale) };
+    case 'CENTER': {
+      const centerOffset = (layerStart + layerLen / 2) - (sourceStart + sourceLen / 2);
+      return { start: targetStart + targetLen / 2 + centerOffset * axisScale - len / 2, len };
+    }
+    case 'SCALE':
+    default: {
+      // Keep the geometric placement; fixed-size layers stay centered on their scaled footprint
+      const scaledLen = layerLen * axisScale;
+      return { start: geometricStart + (scaledLen - len) / 2, len };
+    }
+  }
+};
+
+/**
+ * Places a layer inside the target according to its constraint.
+ * 
+ * @param geometric The layer's position under plain container-wide scaling (used for SCALE axes).
+ * @returns Absolute target rect plus the effective per-axis scale factors.
+ */
+export const applyLayerConstraint = (
+  constraint: LayerConstraint,
+  layer: Rect,
+  source: Rect,
+  target: Rect,
+  scaleX: number,
+  scaleY: number,
+  geometric: { x: number, y: number }
+): Rect & { scaleX: number, scaleY: number } => {
+  // Pinned layers keep their aspect ratio; only SCALE / stretch axes distort
+  const uniform = Math.min(scaleX, scaleY);
+  const sizeX = constraint.fixedSize ? 1 : (constraint.horizontal === 'SCALE' ? scaleX : uniform);
+  const sizeY = constraint.fixedSize ? 1 : (constraint.vertical === 'SCALE' ? scaleY : uniform);
+
+  const h = resolveAxis(AXIS_MODE[constraint.horizontal], layer.x, layer.w, source.x, source.w, target.x, target.w, scaleX, sizeX, geometric.x);
+  const v = resolveAxis(AXIS_MODE[constraint.vertical], layer.y, layer.h, source.y, source.h, target.y, target.h, scaleY, sizeY, geometric.y);
+
+  return {
+    x: h.start,
+    y: v.start,
+    w: h.len,
+    h: v.len,
+    scaleX: layer.w > 0 ? h.len / layer.w : sizeX,
+    scaleY: layer.h > 0 ? v.len / layer.h : sizeY,
+  };
+};
+
+// --- CONTAINER ANNOTATIONS ---
+
+// Trailing "[key=value; ...]" block on a template container name
+const ANNOTATION_REGEX = /^(.*?)\s*\[([^\]]*=[^\]]*)\]\s*$/;
+
+const ANCHOR_ALIASES: Record<string, AnchorPoint> = {
+  'top': 'TOP_CENTER', 'bottom': 'BOTTOM_CENTER', 'left': 'CENTER_LEFT', 'right': 'CENTER_RIGHT',
+  'center': 'CENTER', 'middle': 'CENTER',
+  'top-left': 'TOP_LEFT', 'top-right': 'TOP_RIGHT', 'bottom-left': 'BOTTOM_LEFT', 'bottom-right': 'BOTTOM_RIGHT',
+};
+
+const STRATEGY_ALIASES: Record<string, RemapStrategy> = {
+  'fit': 'UNIFORM_FIT', 'fill': 'UNIFORM_FILL', 'stretch': 'STRETCH', 'none': 'NONE', 'native': 'NONE',
+};
+
+const MAX_ANNOTATED_BLEED = 0.5;
+
+/**
+ * Splits a template container name into its clean name and annotation block.
+ * Keys: anchor (top, bottom-left, CENTER_RIGHT...), strategy (fit, fill, stretch, none),
+ * bleed (0.05 or 5%), priority (integer, 1 = most important). Separators: ';' or ','.
+ * Unknown keys or values are skipped and reported in `errors`.
+ *
+ * @param name The container name with the '!!' prefix already removed.
+ */
+export const parseContainerAnnotations = (name: string): { name: string, annotations?: ContainerAnnotations, errors: string[] } => {
+  const match = name.match(ANNOTATION_REGEX);
+  if (!match) return { name, errors: [] };
+
+  const annotations: ContainerAnnotations = {};
+  const errors: string[] = [];
+
+  for (const pair of match[2].split(/[;,]/).map(p => p.trim()).filter(Boolean)) {
+    const [rawKey, ...rest] = pair.split('=');
+    const key = rawKey.trim().toLowerCase();
+    const value = rest.join('=').trim();
+    const normalized = value.toLowerCase().replace(/[\s_]+/g, '-');
+
+    switch (key) {
+      case 'anchor': {
+        const upper = value.toUpperCase().replace(/[\s-]+/g, '_') as AnchorPoint;
+        const anchor = ANCHOR_ALIASES[normalized] || (ANCHOR_GRID.includes(upper) ? upper : undefined);
+        if (anchor) annotations.anchor = anchor;
+        else errors.push(`Unknown anchor '${value}'`);
+        break;
+      }
+      case 'strategy': {
+        const upper = value.toUpperCase().replace(/[\s-]+/g, '_') as RemapStrategy;
+        const strategy = STRATEGY_ALIASES[normalized] || (['STRETCH', 'UNIFORM_FIT', 'UNIFORM_FILL', 'NONE'].includes(upper) ? upper : undefined);
+        if (strategy) annotations.strategy = strategy;
+        else errors.push(`Unknown strategy '${value}'`);
+        break;
+      }
+      case 'bleed': {
+        const bleed = value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+        if (isFinite(bleed) && bleed >= 0) annotations.bleed = Math.min(bleed, MAX_ANNOTATED_BLEED);
+        else errors.push(`Invalid bleed '${value}'`);
+        break;
+      }
+      case 'priority': {
+        const priority = Number(value);
+        if (Number.isInteger(priority)) annotations.priority = priority;
+        else errors.push(`Invalid priority '${value}'`);
+        break;
+      }
+      default:
+        errors.push(`Unknown annotation '${rawKey.trim()}'`);
+    }
+  }
+
+  return {
+    name: match[1].trim(),
+    annotations: Object.keys(annotations).length > 0 ? annotations : undefined,
+    errors
+  };
+};
+
+/**
+ * Short human readable form of an annotation block (e.g. "anchor=BOTTOM_CENTER · fill · bleed 5%").
+ */
+export const describeAnnotations = (annotations: ContainerAnnotations): string => {
+  const parts: string[] = [];
+  if (annotations.anchor) parts.push(`anchor=${annotations.anchor}`);
+  if (annotations.strategy) parts.push(`strategy=${annotations.strategy}`);
+  if (annotations.bleed !== undefined) parts.push(`bleed=${Math.round(annotations.bleed * 1000) / 10}%`);
+  if (annotations.priority !== undefined) parts.push(`priority=${annotations.priority}`);
+  return parts.join(' · ');
+};
@@ -0,0 +1,219 @@
+import { Layer, LayerMaskData, LayerVectorMask, BezierPath } from 'ag-psd';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+/**
+ * Maps an absolute document point from a layer's source rect into its transformed rect,
+ * then rotates it (degrees) around the transformed rect's center.
+ */
+export const mapPoint = (x: number, y: number, from: Rect, to: Rect, rotation: number = 0): { x: number, y: number } => {
+  const sx = from.w > 0 ? to.w / from.w : 1;
+  const sy = from.h > 0 ? to.h / from.h : 1;
+  let px = to.x + (x - from.x) * sx;
+  let py = to.y + (y - from.y) * sy;
+
+  if (rotation) {
+    const rad = (rotation * Math.PI) / 180;
+    const cx = to.x + to.w / 2;
+    const cy = to.y + to.h / 2;
+    const dx = px - cx;
+    const dy = py - cy;
+    px = cx + dx * Math.cos(rad) - dy * Math.sin(rad);
+    py = cy + dx * Math.sin(rad) + dy * Math.cos(rad);
+  }
+
+  return { x: px, y: py };
+};
+
+/**
+ * Returns a copy of a raster layer mask moved, scaled and rotated with its layer.
+ * The mask canvas is re-rasterized; uncovered corners take the mask's default color.
+ *
+ * @param from The layer's original rect (absolute document coordinates).
+ * @param to The layer's transformed rect before rotation.
+ */
+export const transformLayerMask = (mask: LayerMaskData, from: Rect, to: Rect, rotation: number = 0): LayerMaskData => {
+  const left = mask.left ?? 0;
+  const top = mask.top ?? 0;
+  const maskW = (mask.right ?? left) - left;
+  const maskH = (mask.bottom ?? top) - top;
+  if (maskW <= 0 || maskH <= 0) return { ...mask };
+
+  const sx = from.w > 0 ? to.w / from.w : 1;
+  const sy = from.h > 0 ? to.h / from.h : 1;
+  const scaledW = maskW * sx;
+  const scaledH = maskH * sy;
+
+  // Mask center follows the layer transform; the mask itself rotates around that center
+  const center = mapPoint(left + maskW / 2, top + maskH / 2, from, to, rotation);
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  const boundsW = rotation ? scaledW * cos + scaledH * sin : scaledW;
+  const boundsH = rotation ? scaledW * sin + scaledH * cos : scaledH;
+
+  const newLeft = Math.round(center.x - boundsW / 2);
+  const newTop = Math.round(center.y - boundsH / 2);
+  const result: LayerMaskData = {
+    ...mask,
+    left: newLeft,
+    top: newTop,
+    right: newLeft + Math.max(1, Math.round(boundsW)),
+    bottom: newTop + Math.max(1, Math.round(boundsH)),
+    imageData: undefined
+  };
+
+  if (mask.canvas) {
+    const canvas = document.createElement('canvas');
+    canvas.width = result.right! - result.left!;
+    canvas.height = result.bottom! - result.top!;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      const fill = mask.defaultColor ?? 0;
+      ctx.fillStyle = `rgb(${fill}, ${fill}, ${fill})`;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.translate(canvas.width / 2, canvas.height / 2);
+      if (rotation) ctx.rotate(rad);
+      ctx.drawImage(mask.canvas, -scaledW / 2, -scaledH / 2, scaledW, scaledH);
+    }
+    result.canvas = canvas;
+  }
+
+  return result;
+};
+
+/**
+ * Returns a copy of a vector mask with every bezier knot mapped through the layer transform.
+ */
+export const transformVectorMask = (vectorMask: LayerVectorMask, from: Rect, to: Rect, rotation: number = 0): LayerVectorMask => {
+  const mapPath = (path: BezierPath): BezierPath => ({
+    ...path,
+    knots: path.knots.map(knot => {
+      const points: number[] = [];
+      for (let i = 0; i + 1 < knot.points.length; i += 2) {
+        const p = mapPoint(knot.points[i], knot.points[i + 1], from, to, rotation);
+        points.push(p.x, p.y);
+      }
+      return { ...knot, points };
+    })
+  });
+
+  return { ...vectorMask, paths: vectorMask.paths.map(mapPath) };
+};
+
+// --- PREVIEW MASKING ---
+
+const maskedCache = new WeakMap<Layer, HTMLCanvasElement>();
+
+// Builds a canvas path from bezier knots (points: [inX, inY, anchorX, anchorY, outX, outY])
+const traceBezierPath = (ctx: CanvasRenderingContext2D, path: BezierPath, offsetX: number, offsetY: number) => {
+  const knots = path.knots;
+  if (knots.length === 0) return;
+
+  ctx.moveTo(knots[0].points[2] - offsetX, knots[0].points[3] - offsetY);
+  const segments = path.open ? knots.length - 1 : knots.length;
+  for (let i = 0; i < segments; i++) {
+    const a = knots[i].points;
+    const b = knots[(i + 1) % knots.length].points;
+    ctx.bezierCurveTo(a[4] - offsetX, a[5] - offsetY, b[0] - offsetX, b[1] - offsetY, b[2] - offsetX, b[3] - offsetY);
+  }
+  if (!path.open) ctx.closePath();
+};
+
+// Alpha mask in layer-local pixels from a grayscale raster mask
+const buildRasterAlpha = (layer: Layer, width: number, height: number): HTMLCanvasElement | null => {
+  const mask = layer.mask;
+  if (!mask?.canvas || mask.disabled) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const fill = mask.defaultColor ?? 0;
+  ctx.fillStyle = `rgb(${fill}, ${fill}, ${fill})`;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(mask.canvas, (mask.left ?? 0) - (layer.left ?? 0), (mask.top ?? 0) - (layer.top ?? 0));
+
+  // Luminance -> alpha
+  const data = ctx.getImageData(0, 0, width, height);
+  for (let i = 0; i < data.data.length; i += 4) {
+    data.data[i + 3] = data.data[i];
+  }
+  ctx.putImageData(data, 0, 0);
+  return canvas;
+};
+
+// Alpha mask in layer-local pixels from vector paths (boolean operations applied in order)
+const buildVectorAlpha = (layer: Layer, width: number, height: number): HTMLCanvasElement | null => {
+  const vectorMask = layer.vectorMask;
+  if (!vectorMask || vectorMask.disable || vectorMask.paths.length === 0) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const offsetX = layer.left ?? 0;
+  const offsetY = layer.top ?? 0;
+  ctx.fillStyle = '#fff';
+  if (vectorMask.fillStartsWithAllPixels) ctx.fillRect(0, 0, width, height);
+
+  for (const path of vectorMask.paths) {
+    ctx.globalCompositeOperation =
+      path.operation === 'subtract' ? 'destination-out' :
+      path.operation === 'intersect' ? 'destination-in' :
+      path.operation === 'exclude' ? 'xor' :
+      'source-over';
+    ctx.beginPath();
+    traceBezierPath(ctx, path, offsetX, offsetY);
+    ctx.fill(path.fillRule === 'even-odd' ? 'evenodd' : 'nonzero');
+  }
+
+  if (vectorMask.invert) {
+    ctx.globalCompositeOperation = 'xor';
+    ctx.fillRect(0, 0, width, height);
+  }
+  return canvas;
+};
+
+/**
+ * Returns the layer's pixels with its raster and vector masks applied (layer-local space),
+ * or the plain canvas when the layer has no active mask. Results are cached per layer.
+ */
+export const getMaskedLayerCanvas = (layer: Layer): HTMLCanvasElement | undefined => {
+  const source = layer.canvas;
+  if (!source) return undefined;
+
+  const hasRaster = !!layer.mask?.canvas && !layer.mask.disabled;
+  const hasVector = !!layer.vectorMask && !layer.vectorMask.disable && layer.vectorMask.paths.length > 0;
+  if (!hasRaster && !hasVector) return source;
+
+  const cached = maskedCache.get(layer);
+  if (cached) return cached;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return source;
+
+  ctx.drawImage(source, 0, 0);
+  for (const alpha of [buildRasterAlpha(layer, canvas.width, canvas.height), buildVectorAlpha(layer, canvas.width, canvas.height)]) {
+    if (!alpha) continue;
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(alpha, 0, 0);
+  }
+
+  maskedCache.set(layer, canvas);
+  return canvas;
+};
+
+/**
+ * Forgets the masked copy of a layer whose pixels were released.
+ */
+export const releaseMaskedLayerCanvas = (layer: Layer) => {
+  maskedCache.delete(layer);
+};
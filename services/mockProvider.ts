@@ -0,0 +1,112 @@
+import { AIUsage } from '../types';
+import { AIProvider, AISchema, AIMessage, AIJsonRequest } from './aiProvider';
+
+/**
+ * Offline stand-in for a model provider: no network, no key, and the same request always gets
+ * the same answer. JSON answers follow the request schema (`default` values first, then the first
+ * enum value, 0, false, empty arrays); images are labelled placeholders.
+ */
+
+// FNV-1a over the serialized request (without its abort signal)
+const hashRequest = (request: unknown): number => {
+  const input = JSON.stringify(request, (key, value) => key === 'signal' ? undefined : value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const toHex = (hash: number) => hash.toString(16).padStart(8, '0');
+
+const lastUserText = (contents: string | AIMessage[]): string => {
+  if (typeof contents === 'string') return contents;
+  const message = [...contents].reverse().find(m => m.role === 'user');
+  return message?.parts.map(part => 'text' in part ? part.text : '').join(' ') || '';
+};
+
+const excerpt = (text: string, length: number = 80): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > length ? `${clean.slice(0, length)}...` : clean;
+};
+
+const mockValue = (schema: AISchema, key: string, tag: string): unknown => {
+  if (schema.default !== undefined) return schema.default;
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([name, child]) => [name, mockValue(child, name, tag)]));
+    case 'array':
+      return [];
+    case 'string':
+      return schema.enum?.length ? schema.enum[0] : `Mock ${key} (${tag})`;
+    case 'boolean':
+      return false;
+    default:
+      return 0;
+  }
+};
+
+// Token estimate of ~4 characters per token; the mock never costs anything
+const estimateUsage = (request: unknown, output: string, images: number = 0): AIUsage => ({
+  calls: 1,
+  inputTokens: Math.ceil(JSON.stringify(request, (key, value) => key === 'signal' ? undefined : value).length / 4),
+  outputTokens: Math.ceil(output.length / 4),
+  thinkingTokens: 0,
+  images,
+  costUSD: 0
+});
+
+const ASPECT_RATIOS: Record<string, number> = { '1:1': 1, '3:4': 0.75, '4:3': 4 / 3, '9:16': 0.5625, '16:9': 16 / 9 };
+
+const drawPlaceholder = (prompt: string, aspectRatio: string, hash: number): string | null => {
+  const ratio = ASPECT_RATIOS[aspectRatio] || 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = ratio >= 1 ? 512 : Math.round(512 * ratio);
+  canvas.height = ratio >= 1 ? Math.round(512 / ratio) : 512;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const hue = hash % 360;
+  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  gradient.addColorStop(0, `hsl(${hue}, 55%, 35%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 55%, 20%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.textAlign = 'center';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.fillText('MOCK', canvas.width / 2, canvas.height / 2 - 12);
+  ctx.font = '14px sans-serif';
+  ctx.fillText(excerpt(prompt, 48), canvas.width / 2, canvas.height / 2 + 16, canvas.width - 24);
+  ctx.fillText(toHex(hash), canvas.width / 2, canvas.height / 2 + 36);
+  return canvas.toDataURL('image/png');
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+
+  isAvailable: () => true,
+
+  generateText: async (request) => {
+    request.signal?.throwIfAborted();
+    const tag = toHex(hashRequest(request));
+    const text = `Offline mock response ${tag} to: "${excerpt(lastUserText(request.contents))}"`;
+    return { text, usage: estimateUsage(request, text) };
+  },
+
+  generateJson: async <T>(request: AIJsonRequest) => {
+    request.signal?.throwIfAborted();
+    const data = mockValue(request.schema, 'response', toHex(hashRequest(request))) as T;
+    const text = JSON.stringify(data);
+    return { data, text, usage: estimateUsage(request, text) };
+  },
+
+  generateImage: async (request) => {
+    request.signal?.throwIfAborted();
+    const dataUrl = drawPlaceholder(request.prompt, request.aspectRatio, hashRequest(request));
+    return dataUrl ? { dataUrl, usage: estimateUsage(request, '', 1) } : null;
+  }
+};
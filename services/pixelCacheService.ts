@@ -0,0 +1,301 @@
+import { Psd, Layer } from 'ag-psd';
+import { SerializableLayer, TransformedLayer } from '../types';
+import { parsePsdFile, getLayerIndex, findLayerById, findLayerByPath, dropLayerPixels, isLayerPixelDataDeferred } from './psdService';
+import { releaseMaskedLayerCanvas } from './maskService';
+
+/**
+ * On-demand layer pixels for structure-first PSD sources.
+ *
+ * Load PSD nodes keep only the layer structure (`deferLayerImageData`) plus the original File.
+ * Consumers that draw pixels (compositor, export, style sampling) call `acquireLayerPixels` /
+ * `acquireTreePixels` first; missing layers are decoded from the file and attached to the registered
+ * Layer objects. Misses that arrive while a source is decoding are batched, so a burst of acquisitions
+ * costs one extra parse of the file rather than one each. Decoded layers form an LRU that is trimmed
+ * to the memory ceiling; acquired layers stay pinned until the consumer calls the returned release function.
+ */
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_PIXEL_CACHE_LIMIT_MB = 512;
+
+export interface PixelCacheStats {
+  usedBytes: number;
+  limitBytes: number;
+  layerCount: number;
+  bySource: Record<string, { bytes: number, layers: number }>;
+  decoding: string[]; // Source IDs with a decode in flight
+}
+
+interface PixelSource {
+  file: File;
+  psd: Psd;
+}
+
+interface CacheEntry {
+  sourceId: string;
+  bytes: number;
+}
+
+interface DecodeBatch {
+  layers: Set<Layer>;
+  controller: AbortController; // Aborted once every waiting acquisition gave up
+  waiting: number;
+  done: Promise<void>;
+}
+
+type TreeLayer = SerializableLayer | TransformedLayer;
+
+const sources = new Map<string, PixelSource>();
+const entries = new Map<Layer, CacheEntry>(); // Iteration order = least recently used first
+const queues = new Map<string, Promise<void>>(); // Settles when the source's last queued decode does
+const batches = new Map<string, DecodeBatch>(); // Next decode per source, still collecting layers
+const pins = new Map<Layer, number>(); // Layer -> number of unreleased acquisitions
+const decoding = new Set<string>();
+const listeners = new Set<() => void>();
+
+let limitBytes = DEFAULT_PIXEL_CACHE_LIMIT_MB * MB;
+let usedBytes = 0;
+let stats: PixelCacheStats = { usedBytes: 0, limitBytes, layerCount: 0, bySource: {}, decoding: [] };
+
+const canvasBytes = (canvas: HTMLCanvasElement | undefined) => canvas ? canvas.width * canvas.height * 4 : 0;
+
+const layerBytes = (layer: Layer) => canvasBytes(layer.canvas) + canvasBytes(layer.mask?.canvas) + canvasBytes(layer.realMask?.canvas);
+
+// Rebuilds the immutable snapshot handed to subscribers
+const publish = () => {
+  const bySource: PixelCacheStats['bySource'] = {};
+  entries.forEach(entry => {
+    const current = bySource[entry.sourceId] || { bytes: 0, layers: 0 };
+    bySource[entry.sourceId] = { bytes: current.bytes + entry.bytes, layers: current.layers + 1 };
+  });
+  stats = { usedBytes, limitBytes, layerCount: entries.size, bySource, decoding: Array.from(decoding) };
+  listeners.forEach(listener => listener());
+};
+
+const evictLayer = (layer: Layer, entry: CacheEntry) => {
+  dropLayerPixels(layer);
+  releaseMaskedLayerCanvas(layer);
+  entries.delete(layer);
+  usedBytes -= entry.bytes;
+};
+
+// Drops least recently used layers until the cache fits, skipping pinned layers
+const trim = () => {
+  for (const [layer, entry] of entries) {
+    if (usedBytes <= limitBytes) break;
+    if (!pins.has(layer)) evictLayer(layer, entry);
+  }
+};
+
+const pin = (layers: Layer[]) => layers.forEach(layer => pins.set(layer, (pins.get(layer) || 0) + 1));
+
+const unpin = (layers: Layer[]) => layers.forEach(layer => {
+  const count = (pins.get(layer) || 0) - 1;
+  if (count > 0) pins.set(layer, count);
+  else pins.delete(layer);
+});
+
+const touch = (layer: Layer) => {
+  const entry = entries.get(layer);
+  if (!entry) return;
+  entries.delete(layer);
+  entries.set(layer, entry);
+};
+
+const getLayerPaths = (psd: Psd): Map<Layer, string> => {
+  const index = getLayerIndex(psd.children || []);
+  const paths = new Map<Layer, string>();
+  index.pathToId.forEach((id, path) => {
+    const layer = index.byId.get(id);
+    if (layer) paths.set(layer, path);
+  });
+  return paths;
+};
+
+// Decodes the batch's layers that are still missing with a single parse of the file
+const decodeBatch = async (sourceId: string, batch: DecodeBatch) => {
+  const source = sources.get(sourceId);
+  if (!source) return;
+
+  // The previous decode may have covered some of them
+  const paths = getLayerPaths(source.psd);
+  const wanted = Array.from(batch.layers).filter(layer => isLayerPixelDataDeferred(layer) && paths.has(layer));
+  if (wanted.length === 0) return;
+
+  decoding.add(sourceId);
+  publish();
+  try {
+    // The same file yields the same tree, so index paths line up with the registered structure
+    const decoded = await parsePsdFile(source.file, {
+      retainLayerPaths: wanted.map(layer => paths.get(layer)!),
+      skipThumbnail: true,
+      skipCompositeImageData: true,
+      signal: batch.controller.signal
+    });
+
+    // Replaced or released while decoding: the pixels belong to nobody
+    if (sources.get(sourceId) !== source) return;
+
+    wanted.forEach(layer => {
+      const from = findLayerByPath(decoded, paths.get(layer)!);
+      if (!from) return;
+      if (from.canvas) layer.canvas = from.canvas;
+      if (layer.mask && from.mask?.canvas) layer.mask.canvas = from.mask.canvas;
+      if (layer.realMask && from.realMask?.canvas) layer.realMask.canvas = from.realMask.canvas;
+
+      const bytes = layerBytes(layer);
+      if (bytes === 0) return;
+      entries.set(layer, { sourceId, bytes });
+      usedBytes += bytes;
+    });
+  } finally {
+    decoding.delete(sourceId);
+    trim();
+    publish();
+  }
+};
+
+// Adds layers to the source's collecting batch, queueing a new one behind the running decode if needed
+const joinBatch = (sourceId: string, layers: Layer[]): DecodeBatch => {
+  let batch = batches.get(sourceId);
+  if (!batch || batch.controller.signal.aborted) {
+    const created: DecodeBatch = { layers: new Set(), controller: new AbortController(), waiting: 0, done: Promise.resolve() };
+    const previous = queues.get(sourceId) || Promise.resolve();
+    created.done = previous.then(() => {
+      if (batches.get(sourceId) === created) batches.delete(sourceId);
+      return decodeBatch(sourceId, created);
+    });
+    const settled = created.done.catch(() => undefined);
+    queues.set(sourceId, settled);
+    settled.then(() => {
+      if (queues.get(sourceId) === settled) queues.delete(sourceId);
+    });
+    batches.set(sourceId, created);
+    batch = created;
+  }
+  layers.forEach(layer => batch!.layers.add(layer));
+  batch.waiting++;
+  return batch;
+};
+
+// Waits for a batch on behalf of one acquisition; the shared decode only stops when nobody waits for it
+const waitForBatch = (batch: DecodeBatch, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const leave = () => {
+    if (--batch.waiting === 0) batch.controller.abort();
+    reject(new DOMException('Pixel decoding was cancelled.', 'AbortError'));
+  };
+  if (signal?.aborted) {
+    leave();
+    return;
+  }
+  signal?.addEventListener('abort', leave, { once: true });
+  batch.done.then(resolve, reject).finally(() => signal?.removeEventListener('abort', leave));
+});
+
+/**
+ * Makes a source's layers decodable on demand. Replaces (and frees) a previous registration.
+ */
+export const registerPixelSource = (sourceId: string, file: File, psd: Psd) => {
+  releasePixelSource(sourceId);
+  sources.set(sourceId, { file, psd });
+};
+
+/**
+ * Frees every cached layer of a source and forgets its file.
+ */
+export const releasePixelSource = (sourceId: string) => {
+  sources.delete(sourceId);
+  queues.delete(sourceId);
+  batches.delete(sourceId);
+  entries.forEach((entry, layer) => {
+    if (entry.sourceId === sourceId) evictLayer(layer, entry);
+  });
+  publish();
+};
+
+/**
+ * Decodes the pixels and masks of the given layers (groups include their descendants) if they are not in memory
+ * and pins them until the returned release function is called (calling it twice is harmless).
+ * Resolves immediately for sources that were loaded with full pixel data.
+ * Aborting `signal` rejects with an 'AbortError' DOMException.
+ */
+export const acquireLayerPixels = async (sourceId: string, layers: Layer[], signal?: AbortSignal): Promise<() => void> => {
+  if (!sources.has(sourceId)) return () => {};
+
+  // Groups and adjustment layers stay in the list: their masks are deferred too
+  const all: Layer[] = [];
+  const collect = (list: Layer[]) => list.forEach(layer => {
+    all.push(layer);
+    if (layer.children) collect(layer.children);
+  });
+  collect(layers);
+
+  let isReleased = false;
+  const release = () => {
+    if (isReleased) return;
+    isReleased = true;
+    unpin(all);
+    trim();
+    publish();
+  };
+
+  pin(all);
+  all.forEach(touch);
+  const missing = all.filter(isLayerPixelDataDeferred);
+  if (missing.length === 0) {
+    trim();
+    publish();
+    return release;
+  }
+
+  try {
+    await waitForBatch(joinBatch(sourceId, missing), signal);
+  } catch (error) {
+    release();
+    throw error;
+  }
+  return release;
+};
+
+/**
+ * `acquireLayerPixels` for a serialized or transformed layer tree (e.g. a payload's layers).
+ * Generative layers have no source pixels and are skipped.
+ */
+export const acquireTreePixels = (sourceId: string, tree: TreeLayer[], signal?: AbortSignal): Promise<() => void> => {
+  const source = sources.get(sourceId);
+  if (!source) return Promise.resolve(() => {});
+
+  const layers: Layer[] = [];
+  const collect = (list: TreeLayer[]) => list.forEach(node => {
+    const layer = node.type !== 'generative' ? findLayerById(source.psd, node.id) : null;
+    if (layer) layers.push(layer);
+    if (node.children) collect(node.children);
+  });
+  collect(tree);
+
+  return acquireLayerPixels(sourceId, layers, signal);
+};
+
+/**
+ * Sets the memory ceiling and trims the cache to it.
+ */
+export const setPixelCacheLimit = (megabytes: number) => {
+  limitBytes = Math.max(1, megabytes) * MB;
+  trim();
+  publish();
+};
+
+export const getPixelCacheStats = (): PixelCacheStats => stats;
+
+/**
+ * Notifies on every cache change; returns the unsubscribe function (`useSyncExternalStore` compatible).
+ */
+export const subscribePixelCache = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+/**
+ * "12.3 MB" style label for byte counts.
+ */
+export const formatMegabytes = (bytes: number): string => `${(bytes / MB).toFixed(bytes < 10 * MB ? 1 : 0)} MB`;
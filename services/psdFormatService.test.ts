@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { readPsd, writePsd, initializeCanvas, Psd, PixelData } from 'ag-psd';
+import { transcodePsd, convertCmykToRgb, PsdWriteFormat } from './psdFormatService';
+
+// Node has no canvas; reading with `useImageData` only needs plain pixel buffers
+initializeCanvas(
+  () => { throw new Error('Canvas is not available in tests.'); },
+  (width, height) => ({ width, height, data: new Uint8ClampedArray(width * height * 4) }) as ImageData
+);
+
+const WIDTH = 24;
+const HEIGHT = 16;
+
+// Deterministic RGBA content with flat runs (PackBits repeats) and noisy stretches (literals)
+const pattern = (width: number, height: number, seed: number): PixelData => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const flat = x < width / 3;
+      data[i] = flat ? 200 : (x * 37 + y * 11 + seed) % 256;
+      data[i + 1] = flat ? 30 : (x * 13 + y * 53 + seed * 7) % 256;
+      data[i + 2] = flat ? 90 : (x * 71 + y * 5 + seed * 3) % 256;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const maskPattern = (width: number, height: number): PixelData => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const value = (i * 29) % 256;
+    data.set([value, value, value, 255], i * 4);
+  }
+  return { width, height, data };
+};
+
+const createDocument = (): Psd => ({
+  width: WIDTH,
+  height: HEIGHT,
+  imageData: pattern(WIDTH, HEIGHT, 1),
+  children: [
+    { name: 'Background', top: 0, left: 0, bottom: HEIGHT, right: WIDTH, imageData: pattern(WIDTH, HEIGHT, 2) },
+    {
+      name: 'Masked',
+      top: 2, left: 3, bottom: 12, right: 15,
+      imageData: pattern(12, 10, 3),
+      mask: { top: 4, left: 5, bottom: 10, right: 13, defaultColor: 0, imageData: maskPattern(8, 6) }
+    },
+    {
+      name: 'Group',
+      opened: true,
+      children: [{ name: 'Inside', top: 8, left: 10, bottom: 14, right: 20, imageData: pattern(10, 6, 4) }]
+    }
+  ]
+});
+
+// 16-bit planes hold v * 257; compare everything at 8 bits
+const toBytes = (pixels: PixelData | undefined): number[] => {
+  if (!pixels) return [];
+  return Array.from(pixels.data, value => pixels.data instanceof Uint16Array ? Math.round(value / 257) : value);
+};
+
+const ICC_PROFILE = 1039;
+
+const resourcesOffset = (view: DataView) => 26 + 4 + view.getUint32(26);
+
+// IDs of the image resource blocks ('8BIM', id, padded Pascal name, padded data)
+const resourceIds = (buffer: ArrayBuffer): number[] => {
+  const view = new DataView(buffer);
+  const start = resourcesOffset(view);
+  const end = start + 4 + view.getUint32(start);
+  const ids: number[] = [];
+  for (let offset = start + 4; offset < end;) {
+    ids.push(view.getUint16(offset + 4));
+    const nameLength = view.getUint8(offset + 6);
+    offset += 7 + nameLength + ((nameLength + 1) % 2);
+    const size = view.getUint32(offset);
+    offset += 4 + size + (size % 2);
+  }
+  return ids;
+};
+
+// Appends a resource block with an empty name
+const withResource = (buffer: ArrayBuffer, id: number, data: number[]): ArrayBuffer => {
+  const view = new DataView(buffer);
+  const start = resourcesOffset(view);
+  const length = view.getUint32(start);
+  const block = new Uint8Array(12 + data.length + (data.length % 2));
+  const blockView = new DataView(block.buffer);
+  block.set([0x38, 0x42, 0x49, 0x4d]); // '8BIM'
+  blockView.setUint16(4, id);
+  blockView.setUint32(8, data.length);
+  block.set(data, 12);
+
+  const bytes = new Uint8Array(buffer);
+  const result = new Uint8Array(buffer.byteLength + block.length);
+  result.set(bytes.subarray(0, start + 4 + length));
+  result.set(block, start + 4 + length);
+  result.set(bytes.subarray(start + 4 + length), start + 4 + length + block.length);
+  new DataView(result.buffer).setUint32(start, length + block.length);
+  return result.buffer;
+};
+
+const roundTrip = (format: PsdWriteFormat): { source: Psd, result: Psd } => {
+  const source = createDocument();
+  const written = writePsd(source, { psb: format.isLargeDocument, generateThumbnail: false });
+  const transcoded = transcodePsd(written, format);
+  const result = readPsd(convertCmykToRgb(transcoded), { useImageData: true, skipThumbnail: true });
+  return { source, result };
+};
+
+const formats: [string, PsdWriteFormat, number, number][] = [
+  ['PSB', { isLargeDocument: true, bitsPerChannel: 8, colorMode: 'rgb' }, 8, 3],
+  ['16-bit RGB', { isLargeDocument: false, bitsPerChannel: 16, colorMode: 'rgb' }, 16, 3],
+  ['8-bit CMYK', { isLargeDocument: false, bitsPerChannel: 8, colorMode: 'cmyk' }, 8, 4]
+];
+
+describe('transcodePsd', () => {
+  it.each(formats)('writes %s headers', (_, format, bits, mode) => {
+    const header = new DataView(transcodePsd(writePsd(createDocument(), { psb: format.isLargeDocument }), format));
+    expect(header.getUint16(4)).toBe(format.isLargeDocument ? 2 : 1);
+    expect(header.getUint16(22)).toBe(bits);
+    expect(header.getUint16(24)).toBe(mode);
+  });
+
+  it.each(formats)('round-trips layer pixels and masks through %s', (_, format) => {
+    const { source, result } = roundTrip(format);
+    const [background, masked, group] = result.children!;
+
+    expect(result.children!.map(layer => layer.name)).toEqual(['Background', 'Masked', 'Group']);
+    expect(toBytes(background.imageData)).toEqual(toBytes(source.children![0].imageData));
+
+    expect(masked).toMatchObject({ top: 2, left: 3, bottom: 12, right: 15 });
+    expect(toBytes(masked.imageData)).toEqual(toBytes(source.children![1].imageData));
+    expect(masked.mask).toMatchObject({ top: 4, left: 5, bottom: 10, right: 13, defaultColor: 0 });
+    expect(toBytes(masked.mask!.imageData).filter((_, i) => i % 4 === 0))
+      .toEqual(toBytes(source.children![1].mask!.imageData).filter((_, i) => i % 4 === 0));
+
+    expect(group.children!.map(layer => layer.name)).toEqual(['Inside']);
+    expect(toBytes(group.children![0].imageData)).toEqual(toBytes(source.children![2].children![0].imageData));
+  });
+
+  it.each(formats)('round-trips the composite image through %s', (_, format) => {
+    const { source, result } = roundTrip(format);
+    expect(toBytes(result.imageData)).toEqual(toBytes(source.imageData));
+  });
+
+  it('returns 8-bit RGB unchanged', () => {
+    const buffer = writePsd(createDocument());
+    expect(transcodePsd(buffer, { isLargeDocument: false, bitsPerChannel: 8, colorMode: 'rgb' })).toBe(buffer);
+  });
+});
+
+describe('convertCmykToRgb', () => {
+  it('returns non-CMYK documents unchanged', () => {
+    const buffer = writePsd(createDocument());
+    expect(convertCmykToRgb(buffer)).toBe(buffer);
+  });
+
+  it('drops the ICC profile of CMYK documents', () => {
+    const cmyk = withResource(transcodePsd(writePsd(createDocument()), { isLargeDocument: false, bitsPerChannel: 8, colorMode: 'cmyk' }), ICC_PROFILE, [1, 2, 3, 4]);
+    expect(resourceIds(cmyk)).toContain(ICC_PROFILE);
+    expect(resourceIds(convertCmykToRgb(cmyk))).not.toContain(ICC_PROFILE);
+  });
+});
@@ -0,0 +1,646 @@
+import { PsdSourceFormat, PsdColorMode } from '../types';
+
+/**
+ * Document formats of source files: header sniffing, load warnings, and writing ag-psd output
+ * (always 8-bit RGB) back in a source's bit depth or color mode.
+ *
+ * ag-psd reduces 16/32-bit channels to 8-bit canvases and converts grayscale and indexed layers to
+ * RGB; 8-bit CMYK files, which it does not read, are rewritten as RGB first (`convertCmykToRgb`),
+ * so everything downstream works on 8-bit RGB.
+ */
+
+const SIGNATURE = 0x38425053; // '8BPS'
+const HEADER_SIZE = 26;
+const CMYK = 4;
+const RGB = 3;
+const MAX_PSD_SIZE = 30000; // Larger documents must be written as PSB
+const ICC_PROFILE_RESOURCE = 1039;
+
+const COLOR_MODES: Record<number, PsdColorMode> = {
+  0: 'bitmap',
+  1: 'grayscale',
+  2: 'indexed',
+  3: 'rgb',
+  4: 'cmyk',
+  7: 'multichannel',
+  8: 'duotone',
+  9: 'lab'
+};
+
+const COLOR_MODE_LABELS: Record<PsdColorMode, string> = {
+  bitmap: 'Bitmap',
+  grayscale: 'Grayscale',
+  indexed: 'Indexed Color',
+  rgb: 'RGB',
+  cmyk: 'CMYK',
+  multichannel: 'Multichannel',
+  duotone: 'Duotone',
+  lab: 'Lab',
+  unknown: 'Unknown color mode'
+};
+
+/**
+ * The formats an export can be written in.
+ */
+export interface PsdWriteFormat {
+  isLargeDocument: boolean; // PSB
+  bitsPerChannel: 8 | 16;
+  colorMode: 'rgb' | 'cmyk';
+}
+
+export const DEFAULT_WRITE_FORMAT: PsdWriteFormat = { isLargeDocument: false, bitsPerChannel: 8, colorMode: 'rgb' };
+
+/**
+ * Reads the color mode, bit depth and PSD/PSB version from the file header.
+ * Returns null when the file is not a Photoshop document (ag-psd reports the details).
+ */
+export const readPsdSourceFormat = async (file: Blob): Promise<PsdSourceFormat | null> => {
+  const view = new DataView(await file.slice(0, HEADER_SIZE).arrayBuffer());
+  if (view.byteLength < HEADER_SIZE || view.getUint32(0) !== SIGNATURE) return null;
+  return {
+    isLargeDocument: view.getUint16(4) === 2,
+    bitsPerChannel: view.getUint16(22),
+    colorMode: COLOR_MODES[view.getUint16(24)] || 'unknown'
+  };
+};
+
+/**
+ * Why a source cannot be decoded at all, or null when it can.
+ */
+export const getUnsupportedFormatReason = (format: PsdSourceFormat): string | null => {
+  const label = COLOR_MODE_LABELS[format.colorMode];
+  if (format.colorMode === 'cmyk' && format.bitsPerChannel !== 8) {
+    return `${format.bitsPerChannel}-bit CMYK documents cannot be decoded. Convert the file to 8-bit CMYK or to RGB in Photoshop (Image > Mode) and load it again.`;
+  }
+  if (['multichannel', 'duotone', 'lab', 'unknown'].includes(format.colorMode)) {
+    return `${label} documents are not supported. Convert the file to RGB in Photoshop (Image > Mode) and load it again.`;
+  }
+  return null;
+};
+
+/**
+ * Conversions applied to a source while loading, as user-facing notes (empty for 8-bit RGB PSDs).
+ */
+export const describeSourceFormatConversions = (format: PsdSourceFormat): string[] => {
+  const notes: string[] = [];
+  if (format.bitsPerChannel > 8) {
+    notes.push(`${format.bitsPerChannel}-bit channels are reduced to 8-bit for preview and remapping.`);
+  }
+  if (format.colorMode === 'cmyk') {
+    notes.push('CMYK is converted to RGB without the embedded ICC profile; on-screen colors are approximate.');
+  } else if (format.colorMode !== 'rgb') {
+    notes.push(`${COLOR_MODE_LABELS[format.colorMode]} is converted to RGB.`);
+  }
+  if (format.isLargeDocument) {
+    notes.push('Large document (PSB).');
+  }
+  return notes;
+};
+
+/**
+ * Short label such as "16-bit RGB" or "8-bit CMYK · PSB".
+ */
+export const formatLabel = (format: PsdSourceFormat | PsdWriteFormat): string => {
+  return `${format.bitsPerChannel}-bit ${COLOR_MODE_LABELS[format.colorMode]}${format.isLargeDocument ? ' · PSB' : ''}`;
+};
+
+/**
+ * The format that preserves the given sources best: CMYK if any source is CMYK, otherwise 16-bit
+ * if any source has more than 8 bits (32-bit float is not written), and PSB if any source is PSB.
+ * Grayscale, indexed and bitmap sources are written as RGB.
+ */
+export const resolveWriteFormat = (sources: PsdSourceFormat[]): PsdWriteFormat => {
+  const isCmyk = sources.some(format => format.colorMode === 'cmyk');
+  return {
+    isLargeDocument: sources.some(format => format.isLargeDocument),
+    // 16-bit CMYK sources cannot be decoded, so mixed CMYK/16-bit inputs settle on 8-bit CMYK
+    bitsPerChannel: !isCmyk && sources.some(format => format.bitsPerChannel > 8) ? 16 : 8,
+    colorMode: isCmyk ? 'cmyk' : 'rgb'
+  };
+};
+
+/**
+ * True when a document of this size can only be stored as PSB.
+ */
+export const requiresLargeDocument = (width: number, height: number): boolean => width > MAX_PSD_SIZE || height > MAX_PSD_SIZE;
+
+// --- TRANSCODING ---
+
+type Rect = { top: number, left: number, bottom: number, right: number };
+
+interface ChannelRecord {
+  id: number; // 0-2 = RGB, -1 = transparency, -2 = user mask, -3 = real user mask
+  length: number;
+}
+
+interface LayerRecord {
+  rect: Rect;
+  channels: ChannelRecord[];
+  blend: Uint8Array; // Signature, blend key, opacity, clipping, flags, filler
+  extra: Uint8Array; // Mask data, blending ranges, name and additional layer info, copied verbatim
+  mask?: Rect;
+  realMask?: Rect;
+}
+
+const rectWidth = (rect: Rect) => Math.max(0, rect.right - rect.left);
+const rectHeight = (rect: Rect) => Math.max(0, rect.bottom - rect.top);
+
+const createReader = (buffer: ArrayBuffer, large: boolean) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let offset = 0;
+
+  const reader = {
+    get offset() { return offset; },
+    set offset(value: number) { offset = value; },
+    u8: () => bytes[offset++],
+    u16: () => { const value = view.getUint16(offset); offset += 2; return value; },
+    i16: () => { const value = view.getInt16(offset); offset += 2; return value; },
+    u32: () => { const value = view.getUint32(offset); offset += 4; return value; },
+    i32: () => { const value = view.getInt32(offset); offset += 4; return value; },
+    // Section and channel lengths are 8 bytes wide in PSB files
+    length: () => large ? reader.u32() * 0x100000000 + reader.u32() : reader.u32(),
+    bytes: (count: number) => { const value = bytes.subarray(offset, offset + count); offset += count; return value; },
+    rect: (): Rect => ({ top: reader.i32(), left: reader.i32(), bottom: reader.i32(), right: reader.i32() })
+  };
+  return reader;
+};
+
+const createWriter = (capacity: number, large: boolean) => {
+  let bytes = new Uint8Array(Math.max(1024, capacity));
+  let view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  const ensure = (count: number) => {
+    if (offset + count <= bytes.length) return;
+    let size = bytes.length * 2;
+    while (size < offset + count) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(bytes.subarray(0, offset));
+    bytes = next;
+    view = new DataView(bytes.buffer);
+  };
+
+  const writer = {
+    get offset() { return offset; },
+    u8: (value: number) => { ensure(1); bytes[offset++] = value; },
+    u16: (value: number) => { ensure(2); view.setUint16(offset, value); offset += 2; },
+    i16: (value: number) => { ensure(2); view.setInt16(offset, value); offset += 2; },
+    u32: (value: number) => { ensure(4); view.setUint32(offset, value); offset += 4; },
+    i32: (value: number) => { ensure(4); view.setInt32(offset, value); offset += 4; },
+    bytes: (data: Uint8Array) => { ensure(data.length); bytes.set(data, offset); offset += data.length; },
+    length: (value: number) => {
+      if (large) writer.u32(Math.floor(value / 0x100000000));
+      writer.u32(value >>> 0);
+    },
+    // Writes a zero length and returns a function that fills in the byte count written since
+    reserveLength: (wide: boolean = large) => {
+      const at = offset;
+      if (wide) writer.u32(0);
+      writer.u32(0);
+      const start = offset;
+      return (padTo: number = 1) => {
+        while ((offset - start) % padTo !== 0) writer.u8(0);
+        const length = offset - start;
+        if (wide) view.setUint32(at, Math.floor(length / 0x100000000));
+        view.setUint32(wide ? at + 4 : at, length >>> 0);
+      };
+    },
+    rect: (rect: Rect) => { writer.i32(rect.top); writer.i32(rect.left); writer.i32(rect.bottom); writer.i32(rect.right); },
+    result: (): ArrayBuffer => bytes.slice(0, offset).buffer
+  };
+  return writer;
+};
+
+type Reader = ReturnType<typeof createReader>;
+type Writer = ReturnType<typeof createWriter>;
+
+// Decodes one channel (raw or PackBits) into a width * height plane
+const readPlane = (reader: Reader, compression: number, width: number, height: number, large: boolean): Uint8Array => {
+  const plane = new Uint8Array(width * height);
+  if (compression === 0) {
+    plane.set(reader.bytes(width * height));
+    return plane;
+  }
+  if (compression !== 1) throw new Error('ZIP-compressed channel data cannot be transcoded.');
+
+  const rowLengths: number[] = [];
+  for (let y = 0; y < height; y++) rowLengths.push(large ? reader.u32() : reader.u16());
+  rowLengths.forEach((rowLength, y) => decodePackBitsRow(reader.bytes(rowLength), plane, y * width, width));
+  return plane;
+};
+
+const decodePackBitsRow = (row: Uint8Array, plane: Uint8Array, start: number, width: number) => {
+  let x = 0;
+  for (let i = 0; i < row.length && x < width;) {
+    const header = row[i++];
+    if (header > 128) {
+      const value = row[i++];
+      for (let n = 257 - header; n > 0 && x < width; n--) plane[start + x++] = value;
+    } else if (header < 128) {
+      for (let n = header + 1; n > 0 && x < width; n--) plane[start + x++] = row[i++];
+    }
+  }
+};
+
+// Multi-plane read for the composite image, where row lengths of every channel come first
+const readCompositePlanes = (reader: Reader, count: number, width: number, height: number, large: boolean): Uint8Array[] => {
+  const compression = reader.u16();
+  if (compression === 0) {
+    return Array.from({ length: count }, () => readPlane(reader, 0, width, height, large));
+  }
+  if (compression !== 1) throw new Error('ZIP-compressed image data cannot be transcoded.');
+
+  const rowLengths: number[] = [];
+  for (let i = 0; i < count * height; i++) rowLengths.push(large ? reader.u32() : reader.u16());
+  return Array.from({ length: count }, (_, c) => {
+    const plane = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) decodePackBitsRow(reader.bytes(rowLengths[c * height + y]), plane, y * width, width);
+    return plane;
+  });
+};
+
+/**
+ * Naive RGB -> CMYK without a color profile, stored the Photoshop way (255 = no ink).
+ * It is the exact inverse of ag-psd's CMYK decoding (R = C * K / 255), so files round-trip.
+ */
+const rgbToCmykPlanes = (r: Uint8Array, g: Uint8Array, b: Uint8Array): Uint8Array[] => {
+  const size = r.length;
+  const c = new Uint8Array(size), m = new Uint8Array(size), y = new Uint8Array(size), k = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    const max = Math.max(r[i], g[i], b[i]);
+    k[i] = max;
+    if (max === 0) {
+      c[i] = m[i] = y[i] = 255;
+      continue;
+    }
+    c[i] = Math.ceil(r[i] * 255 / max);
+    m[i] = Math.ceil(g[i] * 255 / max);
+    y[i] = Math.ceil(b[i] * 255 / max);
+  }
+  return [c, m, y, k];
+};
+
+// Inverse of `rgbToCmykPlanes`, with the same integer rounding as ag-psd's CMYK decoder
+const cmykToRgbPlanes = (c: Uint8Array, m: Uint8Array, y: Uint8Array, k: Uint8Array): Uint8Array[] => {
+  const size = c.length;
+  const r = new Uint8Array(size), g = new Uint8Array(size), b = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    r[i] = (c[i] * k[i] / 255) | 0;
+    g[i] = (m[i] * k[i] / 255) | 0;
+    b[i] = (y[i] * k[i] / 255) | 0;
+  }
+  return [r, g, b];
+};
+
+// PackBits: runs of 2-128 equal bytes as (257 - n, value), everything else as literal blocks of up to 128
+const encodePackBitsRow = (row: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(row.length * 2 + 2);
+  let o = 0;
+  let i = 0;
+  while (i < row.length) {
+    let run = 1;
+    while (i + run < row.length && run < 128 && row[i + run] === row[i]) run++;
+    if (run > 1) {
+      out[o++] = 257 - run;
+      out[o++] = row[i];
+      i += run;
+      continue;
+    }
+    const start = i;
+    while (i < row.length && i - start < 128 && (i + 1 >= row.length || row[i + 1] !== row[i])) i++;
+    out[o++] = i - start - 1;
+    out.set(row.subarray(start, i), o);
+    o += i - start;
+  }
+  return out.subarray(0, o);
+};
+
+/**
+ * Compression flag plus channel data for planes of equal size (one layer channel, or every
+ * composite channel): PackBits for 8-bit, raw for 16-bit, where PackBits is not defined.
+ */
+const encodePlanes = (planes: Uint8Array[], width: number, height: number, bitsPerChannel: 8 | 16, large: boolean): Uint8Array => {
+  const size = width * height;
+  if (bitsPerChannel === 16) {
+    const out = new Uint8Array(2 + planes.length * size * 2);
+    planes.forEach((plane, c) => {
+      // 8 -> 16 bit: v * 257 maps 255 to 65535; big-endian, so both bytes are v
+      const at = 2 + c * size * 2;
+      for (let i = 0; i < size; i++) out[at + i * 2] = out[at + i * 2 + 1] = plane[i];
+    });
+    return out;
+  }
+
+  const rows = planes.flatMap(plane => Array.from({ length: height }, (_, y) => encodePackBitsRow(plane.subarray(y * width, (y + 1) * width))));
+  const countSize = large ? 4 : 2;
+  const out = new Uint8Array(2 + rows.length * countSize + rows.reduce((total, row) => total + row.length, 0));
+  const view = new DataView(out.buffer);
+  view.setUint16(0, 1);
+  let offset = 2 + rows.length * countSize;
+  rows.forEach((row, i) => {
+    if (large) view.setUint32(2 + i * 4, row.length);
+    else view.setUint16(2 + i * 2, row.length);
+    out.set(row, offset);
+    offset += row.length;
+  });
+  return out;
+};
+
+const readLayerRecord = (reader: Reader): LayerRecord => {
+  const rect = reader.rect();
+  const channelCount = reader.u16();
+  const channels: ChannelRecord[] = [];
+  for (let i = 0; i < channelCount; i++) channels.push({ id: reader.i16(), length: reader.length() });
+  const blend = reader.bytes(12);
+  const extra = reader.bytes(reader.u32());
+
+  // Mask rects size the mask channels: user mask at 0, real user mask after flags (and its own flags)
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength);
+  const maskLength = extra.byteLength >= 4 ? view.getUint32(0) : 0;
+  const maskRect = (at: number): Rect => ({
+    top: view.getInt32(at), left: view.getInt32(at + 4), bottom: view.getInt32(at + 8), right: view.getInt32(at + 12)
+  });
+  return {
+    rect,
+    channels,
+    blend,
+    extra,
+    mask: maskLength >= 18 ? maskRect(4) : undefined,
+    realMask: maskLength >= 36 ? maskRect(4 + 20) : undefined
+  };
+};
+
+interface LayerPlanes {
+  planes: Map<number, Uint8Array>;
+  sizes: Map<number, { w: number, h: number }>;
+}
+
+// Decodes every channel of a layer; channels without a rect get an empty plane
+const readLayerPlanes = (reader: Reader, record: LayerRecord, large: boolean): LayerPlanes => {
+  const planes = new Map<number, Uint8Array>();
+  const sizes = new Map<number, { w: number, h: number }>();
+  record.channels.forEach(channel => {
+    if (channel.length === 0) return;
+    const end = reader.offset + channel.length;
+    const compression = reader.u16();
+    const rect = channel.id === -2 ? record.mask : channel.id === -3 ? record.realMask : record.rect;
+    const w = rect ? rectWidth(rect) : 0;
+    const h = rect ? rectHeight(rect) : 0;
+    planes.set(channel.id, w && h ? readPlane(reader, compression, w, h, large) : new Uint8Array(0));
+    sizes.set(channel.id, w && h ? { w, h } : { w: 0, h: 0 });
+    reader.offset = end;
+  });
+  return { planes, sizes };
+};
+
+const encodeLayerPlanes = (
+  ids: number[],
+  { planes, sizes }: LayerPlanes,
+  bitsPerChannel: 8 | 16,
+  large: boolean
+): { channels: ChannelRecord[], data: Uint8Array[] } => {
+  const channels: ChannelRecord[] = [];
+  const data: Uint8Array[] = [];
+  ids.forEach(channelId => {
+    const plane = planes.get(channelId);
+    const size = sizes.get(channelId);
+    const encoded = plane && size ? encodePlanes([plane], size.w, size.h, bitsPerChannel, large) : new Uint8Array(0);
+    channels.push({ id: channelId, length: encoded.length });
+    data.push(encoded);
+  });
+  return { channels, data };
+};
+
+// Re-encodes one layer's channels; RGB color channels become CMYK when requested
+const transcodeLayerChannels = (
+  reader: Reader,
+  record: LayerRecord,
+  format: PsdWriteFormat,
+  large: boolean
+): { channels: ChannelRecord[], data: Uint8Array[] } => {
+  const layer = readLayerPlanes(reader, record, large);
+  const { planes, sizes } = layer;
+
+  if (format.colorMode === 'cmyk' && planes.has(0)) {
+    const blank = new Uint8Array(rectWidth(record.rect) * rectHeight(record.rect));
+    const [c, m, y, k] = rgbToCmykPlanes(planes.get(0)!, planes.get(1) || blank, planes.get(2) || blank);
+    planes.set(0, c).set(1, m).set(2, y).set(3, k);
+    sizes.set(3, sizes.get(0)!);
+  }
+
+  const ids = record.channels.flatMap(channel => {
+    if (format.colorMode === 'cmyk' && channel.id === 0) return [0, 1, 2, 3];
+    if (format.colorMode === 'cmyk' && (channel.id === 1 || channel.id === 2)) return [];
+    return [channel.id];
+  });
+  return encodeLayerPlanes(ids, layer, format.bitsPerChannel, large);
+};
+
+// CMYK color channels of one layer become RGB; alpha and masks are kept
+const cmykLayerChannelsToRgb = (reader: Reader, record: LayerRecord, large: boolean): { channels: ChannelRecord[], data: Uint8Array[] } => {
+  const layer = readLayerPlanes(reader, record, large);
+  const { planes, sizes } = layer;
+
+  if (planes.has(0)) {
+    // Photoshop stores ink inverted (255 = none), so a missing channel adds no ink
+    const none = new Uint8Array(rectWidth(record.rect) * rectHeight(record.rect)).fill(255);
+    const [r, g, b] = cmykToRgbPlanes(planes.get(0)!, planes.get(1) || none, planes.get(2) || none, planes.get(3) || none);
+    planes.set(0, r).set(1, g).set(2, b);
+    sizes.set(1, sizes.get(0)!).set(2, sizes.get(0)!);
+  }
+
+  const ids = record.channels.flatMap(channel => {
+    if (channel.id === 0) return [0, 1, 2];
+    if (channel.id >= 1 && channel.id <= 3) return [];
+    return [channel.id];
+  });
+  return encodeLayerPlanes(ids, layer, 8, large);
+};
+
+// Rewritten layer records plus channel image data, i.e. the body of a layer info section
+const writeLayerInfo = (writer: Writer, layerCount: number, records: LayerRecord[], layers: { channels: ChannelRecord[], data: Uint8Array[] }[]) => {
+  writer.i16(layerCount);
+  records.forEach((record, i) => {
+    writer.rect(record.rect);
+    writer.u16(layers[i].channels.length);
+    layers[i].channels.forEach(channel => {
+      writer.i16(channel.id);
+      writer.length(channel.length);
+    });
+    writer.bytes(record.blend);
+    writer.u32(record.extra.length);
+    writer.bytes(record.extra);
+  });
+  layers.forEach(layer => layer.data.forEach(data => writer.bytes(data)));
+};
+
+/**
+ * Rewrites an 8-bit RGB document produced by ag-psd's `writePsd` in the given bit depth and
+ * color mode. 16-bit channels are written uncompressed, with the layer data in the 'Lr16' block as
+ * Photoshop expects. Layer records, masks and additional layer info are kept as they are.
+ * The PSB flag of `format` must match the buffer (pass `psb` to `writePsd`).
+ */
+export const transcodePsd = (buffer: ArrayBuffer, format: PsdWriteFormat): ArrayBuffer => {
+  if (format.bitsPerChannel === 8 && format.colorMode === 'rgb') return buffer;
+
+  const large = format.isLargeDocument;
+  const reader = createReader(buffer, large);
+  const writer = createWriter(buffer.byteLength * format.bitsPerChannel / 8, large);
+
+  // Header
+  if (reader.u32() !== SIGNATURE) throw new Error('Not a Photoshop document.');
+  const version = reader.u16();
+  if ((version === 2) !== large) throw new Error('PSB flag does not match the document.');
+  reader.bytes(6);
+  const channelCount = reader.u16();
+  const height = reader.u32();
+  const width = reader.u32();
+  if (reader.u16() !== 8 || reader.u16() !== RGB) throw new Error('Only 8-bit RGB documents can be transcoded.');
+  const hasAlpha = channelCount > 3;
+
+  writer.u32(SIGNATURE);
+  writer.u16(version);
+  writer.bytes(new Uint8Array(6));
+  writer.u16((format.colorMode === 'cmyk' ? 4 : 3) + (hasAlpha ? 1 : 0));
+  writer.u32(height);
+  writer.u32(width);
+  writer.u16(format.bitsPerChannel);
+  writer.u16(format.colorMode === 'cmyk' ? CMYK : RGB);
+
+  // Color mode data and image resources are copied
+  for (let section = 0; section < 2; section++) {
+    const length = reader.u32();
+    writer.u32(length);
+    writer.bytes(reader.bytes(length));
+  }
+
+  // Layer and mask information
+  const sectionLength = reader.length();
+  const sectionEnd = reader.offset + sectionLength;
+  const finishSection = writer.reserveLength();
+
+  const layerInfoLength = reader.length();
+  const layerInfoEnd = reader.offset + layerInfoLength;
+  let layerCount = 0;
+  let records: LayerRecord[] = [];
+  let layers: { channels: ChannelRecord[], data: Uint8Array[] }[] = [];
+  if (layerInfoLength > 0) {
+    layerCount = reader.i16(); // Negative when the composite has a transparency channel
+    records = Array.from({ length: Math.abs(layerCount) }, () => readLayerRecord(reader));
+    layers = records.map(record => transcodeLayerChannels(reader, record, format, large));
+  }
+  reader.offset = layerInfoEnd;
+
+  const globalMask = reader.offset < sectionEnd ? reader.bytes(reader.u32()) : new Uint8Array(0);
+  const additionalInfo = reader.bytes(sectionEnd - reader.offset);
+
+  if (format.bitsPerChannel === 16) {
+    // The standard layer info stays empty; 16-bit documents carry it in the 'Lr16' block
+    writer.length(0);
+    writer.u32(globalMask.length);
+    writer.bytes(globalMask);
+    writer.bytes(new TextEncoder().encode('8BIMLr16'));
+    const finishBlock = writer.reserveLength();
+    if (records.length > 0) writeLayerInfo(writer, layerCount, records, layers);
+    finishBlock(4);
+  } else {
+    const finishLayerInfo = writer.reserveLength();
+    if (records.length > 0) writeLayerInfo(writer, layerCount, records, layers);
+    finishLayerInfo(4);
+    writer.u32(globalMask.length);
+    writer.bytes(globalMask);
+  }
+  writer.bytes(additionalInfo);
+  finishSection(2);
+  reader.offset = sectionEnd;
+
+  // Composite image
+  const planes = readCompositePlanes(reader, channelCount, width, height, large);
+  const colorPlanes = format.colorMode === 'cmyk' ? rgbToCmykPlanes(planes[0], planes[1], planes[2]) : planes.slice(0, 3);
+  const outputPlanes = [...colorPlanes, ...planes.slice(3)];
+  writer.bytes(encodePlanes(outputPlanes, width, height, format.bitsPerChannel, large));
+
+  return writer.result();
+};
+
+// Image resource blocks without the ICC profile, which describes the CMYK data, not the RGB result
+const stripIccProfile = (resources: Uint8Array): Uint8Array => {
+  const reader = createReader(resources.buffer.slice(resources.byteOffset, resources.byteOffset + resources.byteLength) as ArrayBuffer, false);
+  const writer = createWriter(resources.byteLength, false);
+  while (reader.offset + 12 <= resources.byteLength) {
+    const start = reader.offset;
+    reader.offset += 4; // '8BIM'
+    const id = reader.u16();
+    const nameLength = reader.u8();
+    reader.offset += nameLength + ((nameLength + 1) % 2); // Pascal name padded to even
+    const size = reader.u32();
+    reader.offset += size + (size % 2);
+    if (id !== ICC_PROFILE_RESOURCE) writer.bytes(resources.subarray(start, Math.min(reader.offset, resources.byteLength)));
+  }
+  return new Uint8Array(writer.result());
+};
+
+/**
+ * Rewrites an 8-bit CMYK document as 8-bit RGB so ag-psd, which does not read CMYK, can decode it.
+ * Colors are converted without the ICC profile (the inverse of the CMYK export); layer records,
+ * masks and additional layer info are kept as they are. Other documents are returned unchanged.
+ */
+export const convertCmykToRgb = (buffer: ArrayBuffer): ArrayBuffer => {
+  if (buffer.byteLength < HEADER_SIZE) return buffer;
+  const header = new DataView(buffer);
+  if (header.getUint32(0) !== SIGNATURE || header.getUint16(24) !== CMYK) return buffer;
+  if (header.getUint16(22) !== 8) throw new Error('Only 8-bit CMYK documents can be converted to RGB.');
+
+  const large = header.getUint16(4) === 2;
+  const reader = createReader(buffer, large);
+  const writer = createWriter(buffer.byteLength, large);
+
+  // Header: one color channel fewer, RGB mode
+  reader.offset = 12;
+  const channelCount = reader.u16();
+  const height = reader.u32();
+  const width = reader.u32();
+  reader.offset = HEADER_SIZE;
+  writer.bytes(new Uint8Array(buffer, 0, 12));
+  writer.u16(channelCount - 1);
+  writer.u32(height);
+  writer.u32(width);
+  writer.u16(8);
+  writer.u16(RGB);
+
+  const colorModeData = reader.bytes(reader.u32());
+  writer.u32(colorModeData.length);
+  writer.bytes(colorModeData);
+  const resources = stripIccProfile(reader.bytes(reader.u32()));
+  writer.u32(resources.length);
+  writer.bytes(resources);
+
+  // Layer and mask information
+  const sectionLength = reader.length();
+  const sectionEnd = reader.offset + sectionLength;
+  const finishSection = writer.reserveLength();
+
+  const layerInfoLength = sectionLength > 0 ? reader.length() : 0;
+  const layerInfoEnd = reader.offset + layerInfoLength;
+  const finishLayerInfo = writer.reserveLength();
+  if (layerInfoLength > 0) {
+    const layerCount = reader.i16();
+    const records = Array.from({ length: Math.abs(layerCount) }, () => readLayerRecord(reader));
+    const layers = records.map(record => cmykLayerChannelsToRgb(reader, record, large));
+    writeLayerInfo(writer, layerCount, records, layers);
+  }
+  finishLayerInfo(4);
+  reader.offset = layerInfoEnd;
+
+  writer.bytes(reader.bytes(sectionEnd - reader.offset)); // Global mask and additional info
+  finishSection(2);
+  reader.offset = sectionEnd;
+
+  // Composite image
+  const planes = readCompositePlanes(reader, channelCount, width, height, large);
+  const rgb = cmykToRgbPlanes(planes[0], planes[1], planes[2], planes[3]);
+  writer.bytes(encodePlanes([...rgb, ...planes.slice(4)], width, height, 8, large));
+
+  return writer.result();
+};
@@ -1,5 +1,8 @@
-import { readPsd, writePsd, Psd, ReadOptions, WriteOptions, Layer } from 'ag-psd';
-import { TemplateMetadata, ContainerDefinition, DesignValidationReport, ValidationIssue, SerializableLayer, ContainerContext } from '../types';
+import { readPsd, writePsd, Psd, ReadOptions, WriteOptions, Layer, LayerTextData } from 'ag-psd';
+import { TemplateMetadata, ContainerDefinition, ContainerTreeNode, SerializableLayer, ContainerContext, TextDescriptor, PsdParseProgress, PsdSourceFormat } from '../types';
+import { parseContainerAnnotations } from './layoutService';
+import { getOpaqueLayerRect, primeOpaqueLayerRect, unionRects } from './boundsService';
+import { readPsdSourceFormat, getUnsupportedFormatReason, transcodePsd, convertCmykToRgb, requiresLargeDocument, PsdWriteFormat, DEFAULT_WRITE_FORMAT } from './psdFormatService';
 
 // --- Procedural Palette & Theme Logic ---
 
@@ -98,24 +101,273 @@ export interface PSDParseOptions {
    * Defaults to true to save resources.
    */
   skipThumbnail?: boolean;
+  /**
+   * Whether to skip the flattened composite image (unused by the pipeline).
+   * Defaults to false.
+   */
+  skipCompositeImageData?: boolean;
+  /**
+   * Decode layer pixels only to measure them (opaque bounds, identity fingerprint), then drop them.
+   * Used for structure-first loads; `pixelCacheService` decodes pixels again when they are needed.
+   */
+  deferLayerImageData?: boolean;
+  /**
+   * Keep decoded pixels only for the layers at these index paths (e.g. "0.3.1").
+   */
+  retainLayerPaths?: string[];
+  /**
+   * Receives staged progress (read, decode, layers, images).
+   */
+  onProgress?: (progress: PsdParseProgress) => void;
+  /**
+   * Aborting rejects with an 'AbortError' DOMException and stops the worker.
+   */
+  signal?: AbortSignal;
+}
+
+// --- WORKER PROTOCOL ---
+
+export interface PsdWorkerRequest {
+  file: File;
+  options: Omit<PSDParseOptions, 'onProgress' | 'signal'>;
 }
 
+export type PsdWorkerResponse =
+  | { type: 'progress', progress: PsdParseProgress }
+  | { type: 'result', psd: Psd, summaries?: (LayerPixelSummary | null)[] } // Canvases replaced by transferred ImageBitmaps
+  | { type: 'error', message: string };
+
 /**
- * Parses a PSD file using ag-psd with enhanced error handling and configuration.
- * @param file The File object to parse.
- * @param options Configuration options for parsing.
- * @returns A Promise resolving to the parsed Psd object.
+ * ag-psd read options for a parse request.
  */
-export const parsePsdFile = async (file: File, options: PSDParseOptions = {}): Promise<Psd> => {
+export const toReadOptions = (options: PSDParseOptions): ReadOptions => ({
+  skipLayerImageData: options.skipLayerImageData ?? false,
+  skipThumbnail: options.skipThumbnail ?? true,
+  skipCompositeImageData: options.skipCompositeImageData ?? false
+});
+
+interface CanvasSlot {
+  holder: Record<string, unknown>;
+  key: string;
+}
+
+/**
+ * Every place ag-psd stores a canvas: layer pixels, layer masks, the composite and the thumbnail.
+ * The worker swaps these for ImageBitmaps before transfer; the main thread swaps them back.
+ */
+export const getCanvasSlots = (psd: Psd): CanvasSlot[] => {
+  const slots: CanvasSlot[] = [];
+  const add = (holder: object | undefined, key: string) => {
+    if (holder && (holder as Record<string, unknown>)[key]) slots.push({ holder: holder as Record<string, unknown>, key });
+  };
+  const visit = (layers: Layer[]) => layers.forEach(layer => {
+    add(layer, 'canvas');
+    add(layer.mask, 'canvas');
+    add(layer.realMask, 'canvas');
+    if (layer.children) visit(layer.children);
+  });
+
+  add(psd, 'canvas');
+  add(psd.imageResources, 'thumbnail');
+  visit(psd.children || []);
+  return slots;
+};
+
+// --- DEFERRED LAYER PIXELS ---
+
+/**
+ * What a structure-first load keeps of a layer after its canvas and mask canvases are dropped.
+ */
+export interface LayerPixelSummary {
+  opaque: { x: number, y: number, w: number, h: number } | null; // See `getOpaqueLayerRect`
+  fingerprint: string; // Pixel sample behind content-hash layer IDs
+  canvas: boolean; // The layer had pixels of its own
+  masks: boolean; // The layer had mask pixels (groups and adjustment layers may have only these)
+}
+
+const pixelSummaries = new WeakMap<Layer, LayerPixelSummary>();
+
+// Pre-order walk with index paths ("0.3.1"); the order is identical on both sides of the worker boundary
+const walkLayers = (layers: Layer[], visit: (layer: Layer, path: string) => void, parentPath: string = '') => {
+  layers.forEach((layer, i) => {
+    const path = parentPath ? `${parentPath}.${i}` : `${i}`;
+    visit(layer, path);
+    if (layer.children) walkLayers(layer.children, visit, path);
+  });
+};
+
+/**
+ * Releases a layer's decoded pixels (canvas and mask canvases); the structure stays intact.
+ */
+export const dropLayerPixels = (layer: Layer) => {
+  delete layer.canvas;
+  if (layer.mask) delete layer.mask.canvas;
+  if (layer.realMask) delete layer.realMask.canvas;
+};
+
+/**
+ * Applies `deferLayerImageData` / `retainLayerPaths` right after decoding.
+ * Deferred loads are measured and then stripped of every layer and mask canvas; the returned summaries
+ * (pre-order, null for layers without pixels) are re-attached with `applyLayerPixelSummaries`.
+ */
+export const reduceLayerPixels = (psd: Psd, options: PSDParseOptions): (LayerPixelSummary | null)[] | undefined => {
+  const { deferLayerImageData, retainLayerPaths } = options;
+  if (!deferLayerImageData && !retainLayerPaths) return undefined;
+
+  const keep = new Set(deferLayerImageData ? [] : retainLayerPaths);
+  const summaries: (LayerPixelSummary | null)[] = [];
+  walkLayers(psd.children || [], (layer, path) => {
+    if (deferLayerImageData) {
+      const canvas = !!layer.canvas && !layer.children;
+      const masks = !!(layer.mask?.canvas || layer.realMask?.canvas);
+      summaries.push(canvas || masks
+        ? { opaque: canvas ? getOpaqueLayerRect(layer) : null, fingerprint: canvas ? sampleLayerPixels(layer) : '', canvas, masks }
+        : null);
+    }
+    if (!keep.has(path)) dropLayerPixels(layer);
+  });
+  return deferLayerImageData ? summaries : undefined;
+};
+
+/**
+ * Attaches summaries from `reduceLayerPixels` to the layers of the (transferred) PSD.
+ */
+export const applyLayerPixelSummaries = (psd: Psd, summaries: (LayerPixelSummary | null)[]) => {
+  let i = 0;
+  walkLayers(psd.children || [], layer => {
+    const summary = summaries[i++];
+    if (!summary) return;
+    pixelSummaries.set(layer, summary);
+    if (summary.canvas) primeOpaqueLayerRect(layer, summary.opaque);
+  });
+};
+
+/**
+ * True for a layer whose canvas or mask canvases were deferred or evicted and must be decoded before drawing.
+ */
+export const isLayerPixelDataDeferred = (layer: Layer): boolean => {
+  const summary = pixelSummaries.get(layer);
+  if (!summary) return false;
+  return (summary.canvas && !layer.canvas) || (summary.masks && !layer.mask?.canvas && !layer.realMask?.canvas);
+};
+
+/**
+ * Maps ag-psd and FileReader failures to a user-facing message.
+ */
+export const describePsdParseError = (error: unknown): string => {
+  if (!(error instanceof Error)) return 'Failed to parse PSD structure.';
+  // Check for common ag-psd or format errors
+  if (error.message.includes('Invalid signature') || error.message.includes('Signature not found')) {
+    return 'Invalid file format. The file does not appear to be a valid Adobe Photoshop file.';
+  }
+  if (error.message.includes('RangeError') || error.message.includes('Out of bounds')) {
+    return 'The PSD file appears to be corrupted or truncated (Buffer out of bounds).';
+  }
+  if (error.message.includes('Color mode not supported') || error.message.includes('bitsPerChannel Not supproted')) {
+    return 'This color mode or bit depth cannot be decoded. Convert the file to 8-bit or 16-bit RGB in Photoshop (Image > Mode) and load it again.';
+  }
+  return `PSD Parsing Error: ${error.message}`;
+};
+
+const createAbortError = () => new DOMException('PSD parsing was cancelled.', 'AbortError');
+
+/**
+ * True for the rejection produced by aborting `parsePsdFile`.
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+const bitmapToCanvas = (bitmap: ImageBitmap): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+};
+
+// Parses in a dedicated worker (one per file, so cancelling can simply terminate it)
+const parsePsdInWorker = (file: File, options: PSDParseOptions): Promise<Psd> => {
   return new Promise((resolve, reject) => {
-    // Input validation
-    if (!file) {
-      reject(new Error('No file provided for parsing.'));
+    const { onProgress, signal } = options;
+    if (signal?.aborted) {
+      reject(createAbortError());
       return;
     }
 
+    const worker = new Worker(new URL('./psdWorker.ts', import.meta.url), { type: 'module' });
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    let hasStarted = false;
+
+    worker.onmessage = (event: MessageEvent<PsdWorkerResponse>) => {
+      const message = event.data;
+      hasStarted = true;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      cleanup();
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+        return;
+      }
+
+      // Rebuild DOM canvases from the transferred bitmaps (the rest of the app draws from canvases)
+      getCanvasSlots(message.psd).forEach(({ holder, key }) => {
+        holder[key] = bitmapToCanvas(holder[key] as ImageBitmap);
+      });
+      if (message.summaries) applyLayerPixelSummaries(message.psd, message.summaries);
+      onProgress?.({ stage: 'images', progress: 1 });
+      resolve(message.psd);
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      // The worker script could not load (e.g. bare imports without a bundler): parse here instead
+      if (!hasStarted) {
+        console.warn("PSD worker unavailable, parsing on the main thread:", event.message);
+        parsePsdOnMainThread(file, options).then(resolve, reject);
+        return;
+      }
+      reject(new Error(`PSD worker failed: ${event.message || 'unknown error'}`));
+    };
+
+    // Callbacks and the signal stay on this side (they cannot be cloned)
+    const request: PsdWorkerRequest = {
+      file,
+      options: {
+        skipLayerImageData: options.skipLayerImageData,
+        skipThumbnail: options.skipThumbnail,
+        skipCompositeImageData: options.skipCompositeImageData,
+        deferLayerImageData: options.deferLayerImageData,
+        retainLayerPaths: options.retainLayerPaths
+      }
+    };
+    worker.postMessage(request);
+  });
+};
+
+// Fallback for environments without module workers or OffscreenCanvas (blocks the UI while decoding)
+const parsePsdOnMainThread = (file: File, options: PSDParseOptions): Promise<Psd> => {
+  return new Promise((resolve, reject) => {
+    const { onProgress, signal } = options;
     const reader = new FileReader();
 
+    reader.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.({ stage: 'read', progress: event.loaded / event.total });
+    };
+
     reader.onload = () => {
       const arrayBuffer = reader.result;
 
@@ -130,35 +382,23 @@ export const parsePsdFile = async (file: File, options: PSDParseOptions = {}): P
         return;
       }
 
-      try {
-        // Configure parsing options
-        const readOptions: ReadOptions = {
-          skipLayerImageData: options.skipLayerImageData ?? false,
-          skipThumbnail: options.skipThumbnail ?? true,
-        };
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
 
+      try {
         // Attempt to parse the PSD
-        const psd = readPsd(arrayBuffer, readOptions);
+        onProgress?.({ stage: 'decode', progress: 0 });
+        const psd = readPsd(convertCmykToRgb(arrayBuffer), toReadOptions(options));
+        const summaries = reduceLayerPixels(psd, options);
+        if (summaries) applyLayerPixelSummaries(psd, summaries);
+        onProgress?.({ stage: 'images', progress: 1 });
         resolve(psd);
 
-      } catch (error: any) {
+      } catch (error: unknown) {
         console.error("PSD Parsing Logic Error:", error);
-
-        // Distinguish between different types of errors
-        let errorMessage = 'Failed to parse PSD structure.';
-        
-        if (error instanceof Error) {
-          // Check for common ag-psd or format errors
-          if (error.message.includes('Invalid signature') || error.message.includes('Signature not found')) {
-            errorMessage = 'Invalid file format. The file does not appear to be a valid Adobe Photoshop file.';
-          } else if (error.message.includes('RangeError') || error.message.includes('Out of bounds')) {
-             errorMessage = 'The PSD file appears to be corrupted or truncated (Buffer out of bounds).';
-          } else {
-             errorMessage = `PSD Parsing Error: ${error.message}`;
-          }
-        }
-
-        reject(new Error(errorMessage));
+        reject(new Error(describePsdParseError(error)));
       }
     };
 
@@ -168,69 +408,238 @@ export const parsePsdFile = async (file: File, options: PSDParseOptions = {}): P
       reject(new Error(`Failed to read file from disk: ${msg}`));
     };
 
+    // Fires after load, error and abort alike, so a long-lived signal does not keep the reader alive
+    const onAbort = () => reader.abort();
+    reader.onloadend = () => signal?.removeEventListener('abort', onAbort);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    reader.onabort = () => reject(createAbortError());
+
     // Start reading
     reader.readAsArrayBuffer(file);
   });
 };
 
+const sourceFormats = new WeakMap<Psd, PsdSourceFormat>();
+
 /**
- * Extracts metadata for the procedural logic engine from the parsed PSD.
- * Looks for a top-level group named '!!TEMPLATE' and extracts its children as containers.
+ * Parses a PSD or PSB file using ag-psd with enhanced error handling and configuration.
+ * Decoding runs in a Web Worker when available, so large files do not freeze the canvas;
+ * progress is reported per stage and `options.signal` cancels the parse.
+ * With `deferLayerImageData` only the structure (plus measured bounds) is kept; see `pixelCacheService`.
+ * Layers of 16/32-bit, CMYK, grayscale and indexed files are decoded to 8-bit RGB canvases;
+ * the original format is available through `getPsdSourceFormat`. Undecodable formats are rejected
+ * from the header before the file is read.
+ * @param file The File object to parse.
+ * @param options Configuration options for parsing.
+ * @returns A Promise resolving to the parsed Psd object.
  */
-export const extractTemplateMetadata = (psd: Psd): TemplateMetadata => {
-  // Default to 1 to avoid division by zero if undefined, though PSDs usually have dims.
-  const canvasWidth = psd.width || 1;
-  const canvasHeight = psd.height || 1;
+export const parsePsdFile = async (file: File, options: PSDParseOptions = {}): Promise<Psd> => {
+  // Input validation
+  if (!file) {
+    throw new Error('No file provided for parsing.');
+  }
+
+  const sourceFormat = await readPsdSourceFormat(file);
+  const unsupportedReason = sourceFormat && getUnsupportedFormatReason(sourceFormat);
+  if (unsupportedReason) {
+    throw new Error(unsupportedReason);
+  }
+
+  const psd = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+    ? await parsePsdInWorker(file, options)
+    : await parsePsdOnMainThread(file, options);
+  if (sourceFormat) sourceFormats.set(psd, sourceFormat);
+  return psd;
+};
+
+/**
+ * Color mode, bit depth and PSB flag of the file a PSD was parsed from.
+ */
+export const getPsdSourceFormat = (psd: Psd): PsdSourceFormat | undefined => sourceFormats.get(psd);
+
+// Group bounds are often empty in the PSD record; fall back to the union of the children
+const getGroupBounds = (layer: Layer): { x: number, y: number, w: number, h: number } => {
+  const left = layer.left ?? 0;
+  const top = layer.top ?? 0;
+  const width = (layer.right ?? 0) - left;
+  const height = (layer.bottom ?? 0) - top;
+  if ((width > 0 && height > 0) || !layer.children?.length) {
+    return { x: left, y: top, w: width, h: height };
+  }
 
+  const childBounds = layer.children.map(getGroupBounds).filter(b => b.w > 0 && b.h > 0);
+  if (childBounds.length === 0) return { x: left, y: top, w: width, h: height };
+  const x = Math.min(...childBounds.map(b => b.x));
+  const y = Math.min(...childBounds.map(b => b.y));
+  return {
+    x,
+    y,
+    w: Math.max(...childBounds.map(b => b.x + b.w)) - x,
+    h: Math.max(...childBounds.map(b => b.y + b.h)) - y
+  };
+};
+
+/**
+ * Builds container definitions from the children of a '!!TEMPLATE' group.
+ * Bounds are made relative to `origin` (the artboard corner, or 0,0 for the document canvas).
+ */
+const buildTemplate = (
+  templateGroup: Layer | undefined,
+  canvasWidth: number,
+  canvasHeight: number,
+  origin: { x: number, y: number } = { x: 0, y: 0 }
+): TemplateMetadata => {
   const containers: ContainerDefinition[] = [];
 
-  // Find the !!TEMPLATE group
-  const templateGroup = psd.children?.find(child => child.name === '!!TEMPLATE');
+  const visit = (layers: Layer[], parent?: ContainerDefinition): ContainerTreeNode[] => {
+    const nodes: ContainerTreeNode[] = [];
 
-  if (templateGroup && templateGroup.children) {
-    templateGroup.children.forEach((child, index) => {
-      // Skip invisible layers if needed, but for now we include all structure
-      
-      const top = child.top ?? 0;
-      const left = child.left ?? 0;
-      const bottom = child.bottom ?? 0;
-      const right = child.right ?? 0;
-      
-      const width = right - left;
-      const height = bottom - top;
-      
+    layers.forEach((child, index) => {
       const rawName = child.name || 'Untitled';
-      const cleanName = rawName.replace(/^!!/, '');
-
-      containers.push({
-        id: `container-${index}-${cleanName.replace(/\s+/g, '_')}`,
-        name: cleanName,
+      if (parent && !rawName.startsWith('!!')) return;
+
+      // "!!HERO[anchor=bottom; strategy=fill]" -> name "HERO" + typed annotations
+      const { name: cleanName, annotations, errors } = parseContainerAnnotations(rawName.replace(/^!!/, ''));
+      const absolute = getGroupBounds(child);
+      const bounds = { ...absolute, x: absolute.x - origin.x, y: absolute.y - origin.y };
+
+      const container: ContainerDefinition = {
+        id: parent
+          ? `${parent.id}.${index}-${cleanName.replace(/\s+/g, '_')}`
+          : `container-${index}-${cleanName.replace(/\s+/g, '_')}`,
+        name: parent ? `${parent.name}/${cleanName}` : cleanName,
         originalName: rawName,
-        bounds: {
-          x: left,
-          y: top,
-          w: width,
-          h: height
-        },
+        annotations,
+        annotationErrors: errors.length > 0 ? errors : undefined,
+        parentId: parent?.id,
+        bounds,
         normalized: {
-          x: left / canvasWidth,
-          y: top / canvasHeight,
-          w: width / canvasWidth,
-          h: height / canvasHeight,
+          x: bounds.x / canvasWidth,
+          y: bounds.y / canvasHeight,
+          w: bounds.w / canvasWidth,
+          h: bounds.h / canvasHeight,
         }
+      };
+
+      containers.push(container);
+      nodes.push({
+        id: container.id,
+        children: child.children ? visit(child.children, container) : []
       });
     });
-  }
+
+    return nodes;
+  };
+
+  const hierarchy = templateGroup?.children ? visit(templateGroup.children) : [];
 
   return {
     canvas: {
       width: canvasWidth,
       height: canvasHeight
     },
-    containers
+    containers,
+    hierarchy
   };
 };
 
+/**
+ * Extracts metadata for the procedural logic engine from the parsed PSD.
+ * Looks for a top-level group named '!!TEMPLATE' and extracts its children as containers.
+ * Inside a container group, children prefixed with '!!' become sub-containers (e.g. "HEADER/LOGO");
+ * other children (such as a frame rectangle) only contribute to the parent's bounds.
+ * Templates placed inside artboards are handled by `extractArtboardTemplates`.
+ */
+export const extractTemplateMetadata = (psd: Psd): TemplateMetadata => {
+  // Default to 1 to avoid division by zero if undefined, though PSDs usually have dims.
+  const canvasWidth = psd.width || 1;
+  const canvasHeight = psd.height || 1;
+
+  const templateGroup = psd.children?.find(child => child.name === '!!TEMPLATE');
+  return buildTemplate(templateGroup, canvasWidth, canvasHeight);
+};
+
+/**
+ * Top-level artboard groups, in document order.
+ */
+export const getArtboardLayers = (psd: Psd): Layer[] => {
+  return (psd.children || []).filter(child => !!child.artboard);
+};
+
+/**
+ * Builds one template per artboard that contains its own '!!TEMPLATE' group.
+ * Each template's canvas is the artboard rect and its container bounds are relative to the artboard corner,
+ * so every artboard behaves like a standalone target document downstream.
+ */
+export const extractArtboardTemplates = (psd: Psd): TemplateMetadata[] => {
+  const templates: TemplateMetadata[] = [];
+
+  getArtboardLayers(psd).forEach((layer, index) => {
+    const templateGroup = layer.children?.find(child => child.name === '!!TEMPLATE');
+    if (!templateGroup) return;
+
+    const { rect, presetName, backgroundType } = layer.artboard!;
+    const bounds = { x: rect.left, y: rect.top, w: rect.right - rect.left, h: rect.bottom - rect.top };
+    if (bounds.w <= 0 || bounds.h <= 0) return;
+
+    templates.push({
+      ...buildTemplate(templateGroup, bounds.w, bounds.h, bounds),
+      artboard: {
+        index,
+        name: layer.name || `Artboard ${index + 1}`,
+        bounds,
+        presetName,
+        backgroundType
+      }
+    });
+  });
+
+  return templates;
+};
+
+/**
+ * Output handle of the Target Template node that carries a single artboard.
+ */
+export const getArtboardHandleId = (artboardIndex: number): string => `artboard-out-${artboardIndex}`;
+
+/**
+ * Output handle of the Target Template node that carries every artboard at once (the whole size
+ * family), for exporting them together. It resolves to the document template with its `artboards`.
+ */
+export const ARTBOARD_FAMILY_HANDLE_ID = 'artboards-out';
+
+/**
+ * Resolves the template behind a Target Template output handle:
+ * artboard handles select that artboard's template, anything else is the document template.
+ */
+export const resolveTemplateForHandle = (template: TemplateMetadata | null | undefined, sourceHandle: string | null | undefined): TemplateMetadata | null => {
+  if (!template) return null;
+  if (!sourceHandle?.startsWith('artboard-out-') || !template.artboards) return template;
+  const index = Number(sourceHandle.replace('artboard-out-', ''));
+  return template.artboards.find(t => t.artboard?.index === index) || null;
+};
+
+/**
+ * Direct sub-containers of a container, in template order.
+ */
+export const getChildContainers = (template: TemplateMetadata, containerId: string): ContainerDefinition[] => {
+  return template.containers.filter(c => c.parentId === containerId);
+};
+
+/**
+ * Every sub-container below a container, depth-first (parents before children).
+ */
+export const getContainerDescendants = (template: TemplateMetadata, containerId: string): ContainerDefinition[] => {
+  return getChildContainers(template, containerId).flatMap(child => [child, ...getContainerDescendants(template, child.id)]);
+};
+
+/**
+ * Last segment of a (possibly qualified) container name: "HEADER/LOGO" -> "LOGO".
+ */
+export const getLocalContainerName = (name: string): string => {
+  return name.split('/').pop() || name;
+};
+
 /**
  * Creates a scoped ContainerContext object for a specific container.
  * Used by downstream nodes to get context from the TemplateSplitterNode.
@@ -244,6 +653,7 @@ export const createContainerContext = (template: TemplateMetadata, containerName
 
   return {
     containerName: container.name,
+    annotations: container.annotations,
     bounds: container.bounds,
     canvasDimensions: {
       w: template.canvas.width,
@@ -253,117 +663,182 @@ export const createContainerContext = (template: TemplateMetadata, containerName
 };
 
 /**
- * Validates 'Design' layers against the 'Template' containers.
- * Design groups (e.g. SYMBOLS) are checked against containers of the same name (e.g. !!SYMBOLS).
- * Any layer within a design group must be fully contained within the container bounds.
+ * Extracts an editable text descriptor from ag-psd text data.
+ * The font size is multiplied by the vertical scale of the text transform so it matches rendered pixels.
  */
-export const mapLayersToContainers = (psd: Psd, template: TemplateMetadata): DesignValidationReport => {
-  const issues: ValidationIssue[] = [];
-  const containerMap = new Map<string, ContainerDefinition>();
-  
-  // Index containers by name (e.g. "SYMBOLS" derived from "!!SYMBOLS")
-  template.containers.forEach(c => {
-    containerMap.set(c.name, c);
-  });
-
-  psd.children?.forEach(group => {
-    // Skip the template group itself
-    if (group.name === '!!TEMPLATE') return;
-    
-    // Check if this group name matches a known container
-    if (group.name && containerMap.has(group.name)) {
-        const container = containerMap.get(group.name)!;
-        
-        // Validate children of this design group
-        group.children?.forEach(layer => {
-            // Check if layer has valid coordinates
-            if (typeof layer.top === 'number' && typeof layer.left === 'number' && 
-                typeof layer.bottom === 'number' && typeof layer.right === 'number') {
-                
-                // Calculate container boundaries
-                const containerRight = container.bounds.x + container.bounds.w;
-                const containerBottom = container.bounds.y + container.bounds.h;
-                
-                // Check if layer exceeds container bounds
-                const isViolation = 
-                    layer.left < container.bounds.x ||
-                    layer.top < container.bounds.y ||
-                    layer.right > containerRight ||
-                    layer.bottom > containerBottom;
-                    
-                if (isViolation) {
-                    issues.push({
-                        layerName: layer.name || 'Untitled Layer',
-                        containerName: container.name,
-                        type: 'PROCEDURAL_VIOLATION',
-                        message: `Layer '${layer.name}' extends outside '${container.name}' container.`
-                    });
-                }
-            }
-        });
-    }
-  });
+export const getTextDescriptor = (text: LayerTextData): TextDescriptor => {
+  const [, , yx = 0, yy = 1] = text.transform || [];
+  const transformScale = Math.sqrt(yx * yx + yy * yy) || 1;
+  const baseSize = text.style?.fontSize ?? text.styleRuns?.[0]?.style.fontSize ?? 12;
 
   return {
-    isValid: issues.length === 0,
-    issues
+    content: text.text,
+    font: text.style?.font?.name ?? text.styleRuns?.[0]?.style.font?.name,
+    fontSize: baseSize * transformScale,
+    boxType: text.shapeType === 'box' ? 'paragraph' : 'point'
+  };
+};
+
+// --- LAYER IDENTITY ---
+
+const LEGACY_PATH_ID = /^\d+(\.\d+)*$/;
+
+/**
+ * True for pre-identity path IDs (e.g. "0.3.1") saved by older projects.
+ */
+export const isLegacyPathId = (id: string): boolean => LEGACY_PATH_ID.test(id);
+
+// FNV-1a, 32 bit
+const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// DOM canvas on the main thread, OffscreenCanvas inside the parse worker
+const createScratchCanvas = (width: number, height: number): HTMLCanvasElement | null => {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height) as unknown as HTMLCanvasElement;
+  return null;
+};
+
+// Coarse 8x8 pixel fingerprint; stable across moves and unrelated edits elsewhere in the file.
+// Deferred layers reuse the fingerprint taken before their pixels were dropped.
+const sampleLayerPixels = (layer: Layer): string => {
+  const summary = pixelSummaries.get(layer);
+  if (summary) return summary.fingerprint;
+  if (!layer.canvas) return '';
+  try {
+    const canvas = createScratchCanvas(8, 8);
+    const ctx = canvas?.getContext('2d');
+    if (!ctx) return '';
+    ctx.drawImage(layer.canvas, 0, 0, 8, 8);
+    return Array.from(ctx.getImageData(0, 0, 8, 8).data, v => v >> 4).join('');
+  } catch (e) {
+    return '';
+  }
+};
+
+const getContentSignature = (layer: Layer): string => {
+  const w = (layer.right ?? 0) - (layer.left ?? 0);
+  const h = (layer.bottom ?? 0) - (layer.top ?? 0);
+  const children = layer.children?.map(c => c.name || '').join('|') ?? '';
+  return `${layer.name || ''}:${w}x${h}:${layer.text?.text ?? ''}:${children}:${sampleLayerPixels(layer)}`;
+};
+
+export interface LayerIndex {
+  byId: Map<string, Layer>;
+  idOf: Map<Layer, string>;
+  pathToId: Map<string, string>; // Current index path -> stable ID (legacy migration fallback)
+}
+
+const layerIndexCache = new WeakMap<Layer[], LayerIndex>();
+
+/**
+ * Assigns a stable ID to every layer in a tree (cached per root array).
+ * Prefers ag-psd's persistent layer `id` ("lyr-<id>"); layers without one fall back to a
+ * name + content hash ("hash-<fnv>"), suffixed when identical siblings collide.
+ */
+export const getLayerIndex = (layers: Layer[]): LayerIndex => {
+  const cached = layerIndexCache.get(layers);
+  if (cached) return cached;
+
+  const index: LayerIndex = { byId: new Map(), idOf: new Map(), pathToId: new Map() };
+
+  const visit = (list: Layer[], path: string) => {
+    list.forEach((layer, i) => {
+      const currentPath = path ? `${path}.${i}` : `${i}`;
+      let id = typeof layer.id === 'number' ? `lyr-${layer.id}` : `hash-${hashString(getContentSignature(layer))}`;
+      if (index.byId.has(id)) {
+        let n = 2;
+        while (index.byId.has(`${id}-${n}`)) n++;
+        id = `${id}-${n}`;
+      }
+
+      index.byId.set(id, layer);
+      index.idOf.set(layer, id);
+      index.pathToId.set(currentPath, id);
+      if (layer.children) visit(layer.children, currentPath);
+    });
   };
+
+  visit(layers, '');
+  layerIndexCache.set(layers, index);
+  return index;
 };
 
 /**
  * Recursively maps ag-psd Layers to a simplified SerializableLayer structure.
- * USES DETERMINISTIC PATH IDs for reconstruction.
- * @param layers The array of layers to process.
- * @param path The current hierarchy path (e.g., "0.1").
+ * IDs are stable layer identities (see `getLayerIndex`), so they survive inserts and reorders.
+ * @param layers The root layer array (e.g. `psd.children`).
  * @returns An array of lightweight SerializableLayer objects.
  */
-export const getCleanLayerTree = (layers: Layer[], path: string = ''): SerializableLayer[] => {
-  const nodes: SerializableLayer[] = [];
-  
-  layers.forEach((child, index) => {
-    // Explicitly filter out the !!TEMPLATE group
-    if (child.name === '!!TEMPLATE') {
-      return;
-    }
+export const getCleanLayerTree = (layers: Layer[]): SerializableLayer[] => {
+  const index = getLayerIndex(layers);
 
-    // Construct deterministic path: "parentIndex.childIndex"
-    // Use the index within the full layers array from ag-psd
-    const currentPath = path ? `${path}.${index}` : `${index}`;
+  const build = (list: Layer[]): SerializableLayer[] => {
+    const nodes: SerializableLayer[] = [];
 
-    const top = child.top ?? 0;
-    const left = child.left ?? 0;
-    const bottom = child.bottom ?? 0;
-    const right = child.right ?? 0;
-    
-    const width = right - left;
-    const height = bottom - top;
-    
-    const node: SerializableLayer = {
-      id: currentPath,
-      name: child.name || `Layer ${index}`,
-      type: child.children ? 'group' : 'layer',
-      isVisible: !child.hidden,
-      opacity: (child.opacity ?? 255) / 255, // ag-psd 0-255 -> 0-1
-      coords: {
-        x: left,
-        y: top,
-        w: width,
-        h: height
-      },
-      // Recursion
-      children: child.children ? getCleanLayerTree(child.children, currentPath) : undefined
-    };
-    
-    nodes.push(node);
-  });
-  
-  return nodes;
+    list.forEach((child, i) => {
+      // Explicitly filter out the !!TEMPLATE group
+      if (child.name === '!!TEMPLATE') {
+        return;
+      }
+
+      const top = child.top ?? 0;
+      const left = child.left ?? 0;
+      const bottom = child.bottom ?? 0;
+      const right = child.right ?? 0;
+
+      const width = right - left;
+      const height = bottom - top;
+      const children = child.children ? build(child.children) : undefined;
+
+      // Alpha-trimmed bounds: from the layer canvas, or the union of the children for groups
+      const opaqueCoords = children
+        ? unionRects(children.map(c => c.opaqueCoords))
+        : getOpaqueLayerRect(child) ?? undefined;
+
+      nodes.push({
+        id: index.idOf.get(child)!,
+        name: child.name || `Layer ${i}`,
+        type: child.children ? 'group' : 'layer',
+        isVisible: !child.hidden,
+        opacity: child.opacity ?? 1, // ag-psd already reports 0-1
+        blendMode: child.blendMode,
+        clipping: child.clipping || undefined,
+        text: child.text ? getTextDescriptor(child.text) : undefined,
+        coords: {
+          x: left,
+          y: top,
+          w: width,
+          h: height
+        },
+        opaqueCoords,
+        // Recursion
+        children
+      });
+    });
+
+    return nodes;
+  };
+
+  return build(layers);
 };
 
 /**
- * Finds a heavy `ag-psd` Layer object in the raw PSD structure using a deterministic path ID.
+ * Finds a heavy `ag-psd` Layer object in the raw PSD structure using a dot-separated index path.
  * The path ID (e.g., "0.3.1") corresponds to the indices in the `children` arrays.
- * 
+ * Kept for legacy IDs only; prefer `findLayerById`.
+ *
  * @param psd The raw parsed PSD object.
  * @param pathId The dot-separated index path (e.g., "0.3.1").
  * @returns The matching Layer object or null if not found.
@@ -386,23 +861,84 @@ export const findLayerByPath = (psd: Psd, pathId: string): Layer | null => {
   return targetLayer || null;
 };
 
+/**
+ * Finds a heavy `ag-psd` Layer object by its stable ID.
+ * Legacy path IDs that were not migrated still resolve by index path.
+ *
+ * @param psd The raw parsed PSD object.
+ * @param layerId The stable layer ID (e.g., "lyr-12").
+ * @returns The matching Layer object or null if not found.
+ */
+export const findLayerById = (psd: Psd, layerId: string): Layer | null => {
+  if (!layerId || !psd.children) return null;
+  const layer = getLayerIndex(psd.children).byId.get(layerId);
+  if (layer) return layer;
+  return isLegacyPathId(layerId) ? findLayerByPath(psd, layerId) : null;
+};
+
+/**
+ * Maps legacy path IDs from a previously loaded layer tree to stable IDs in a freshly parsed PSD.
+ * Layers are matched by their name chain (e.g. "SYMBOLS/Coin/Glow"); ambiguous or missing
+ * names fall back to the same index path in the new file.
+ *
+ * @param previous The persisted `designLayers` from before the re-upload.
+ * @param psd The newly parsed PSD.
+ * @returns Old ID -> new ID for every legacy ID that could be resolved.
+ */
+export const buildLayerIdMigration = (previous: SerializableLayer[], psd: Psd): Record<string, string> => {
+  if (!psd.children) return {};
+  const index = getLayerIndex(psd.children);
+
+  const byNameChain = new Map<string, string[]>();
+  const collect = (layers: Layer[], chain: string) => {
+    layers.forEach(layer => {
+      const key = chain ? `${chain}/${layer.name || ''}` : layer.name || '';
+      byNameChain.set(key, [...(byNameChain.get(key) || []), index.idOf.get(layer)!]);
+      if (layer.children) collect(layer.children, key);
+    });
+  };
+  collect(psd.children, '');
+
+  const migration: Record<string, string> = {};
+  const walk = (layers: SerializableLayer[], chain: string) => {
+    layers.forEach(layer => {
+      const key = chain ? `${chain}/${layer.name}` : layer.name;
+      if (isLegacyPathId(layer.id)) {
+        const matches = byNameChain.get(key);
+        const resolved = matches?.length === 1 ? matches[0] : index.pathToId.get(layer.id);
+        if (resolved) migration[layer.id] = resolved;
+      }
+      if (layer.children) walk(layer.children, key);
+    });
+  };
+  walk(previous, '');
+
+  return migration;
+};
+
 /**
  * Writes a PSD object to a file and triggers a browser download.
  * 
  * @param psd The PSD object to write.
  * @param filename The name of the file to download.
+ * @param options Extra ag-psd write options (e.g. `invalidateTextLayers` after text edits).
+ * @param format Bit depth, color mode and PSB flag to write; documents over 30000px are always PSB (named .psb).
  */
-export const writePsdFile = async (psd: Psd, filename: string) => {
+export const writePsdFile = async (psd: Psd, filename: string, options: WriteOptions = {}, format: PsdWriteFormat = DEFAULT_WRITE_FORMAT) => {
   try {
+    const isLargeDocument = format.isLargeDocument || requiresLargeDocument(psd.width, psd.height);
     // writePsd returns an ArrayBuffer or Buffer depending on environment. In browser, ArrayBuffer.
-    const buffer = writePsd(psd, { generateThumbnail: false });
+    const buffer = transcodePsd(
+      writePsd(psd, { generateThumbnail: false, ...options, psb: isLargeDocument }),
+      { ...format, isLargeDocument }
+    );
     
     const blob = new Blob([buffer], { type: 'application/octet-stream' });
     const url = URL.createObjectURL(blob);
     
     const link = document.createElement('a');
     link.href = url;
-    link.download = filename;
+    link.download = isLargeDocument ? filename.replace(/\.psd$/i, '.psb') : filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -0,0 +1,85 @@
+import { readPsd, initializeCanvas, Layer } from 'ag-psd';
+import { PsdParseProgress } from '../types';
+import { PsdWorkerRequest, PsdWorkerResponse, getCanvasSlots, describePsdParseError, toReadOptions, reduceLayerPixels } from './psdService';
+import { convertCmykToRgb } from './psdFormatService';
+
+/**
+ * Dedicated worker behind `parsePsdFile`: reads the file, decodes it with ag-psd and
+ * posts the structure back with every canvas swapped for a transferred ImageBitmap.
+ * Deferred and partial loads drop unwanted layer pixels here, so they never reach the main thread.
+ * One worker handles one file; the main thread terminates it to cancel.
+ */
+
+// ag-psd creates canvases through `document`, which workers lack
+initializeCanvas(
+  (width, height) => new OffscreenCanvas(width, height) as unknown as HTMLCanvasElement,
+  (width, height) => new ImageData(width, height)
+);
+
+const post = (message: PsdWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const progress = (stage: PsdParseProgress['stage'], value: number, detail?: string) => {
+  post({ type: 'progress', progress: { stage, progress: value, detail } });
+};
+
+const countLayers = (layers: Layer[]): number => {
+  return layers.reduce((count, layer) => count + 1 + (layer.children ? countLayers(layer.children) : 0), 0);
+};
+
+// Avoid flooding the main thread with one message per layer
+const shouldReport = (index: number, total: number) => index === total - 1 || index % Math.max(1, Math.floor(total / 50)) === 0;
+
+const parse = (buffer: ArrayBuffer, options: PsdWorkerRequest['options']) => {
+  progress('decode', 0, `${(buffer.byteLength / (1024 * 1024)).toFixed(1)} MB`);
+  const psd = readPsd(convertCmykToRgb(buffer), toReadOptions(options));
+  progress('decode', 1);
+
+  progress('layers', 1, `${countLayers(psd.children || [])} layers`);
+  const summaries = reduceLayerPixels(psd, options);
+
+  const slots = getCanvasSlots(psd);
+  const bitmaps: ImageBitmap[] = [];
+  slots.forEach(({ holder, key }, index) => {
+    const bitmap = (holder[key] as unknown as OffscreenCanvas).transferToImageBitmap();
+    holder[key] = bitmap;
+    bitmaps.push(bitmap);
+    if (shouldReport(index, slots.length)) progress('images', (index + 1) / slots.length, `${index + 1} / ${slots.length}`);
+  });
+
+  post({ type: 'result', psd, summaries }, bitmaps);
+};
+
+self.onmessage = (event: MessageEvent<PsdWorkerRequest>) => {
+  const { file, options } = event.data;
+  const reader = new FileReader();
+
+  reader.onprogress = (e) => {
+    if (e.lengthComputable) progress('read', e.loaded / e.total);
+  };
+
+  reader.onload = () => {
+    const buffer = reader.result;
+    if (!buffer || !(buffer instanceof ArrayBuffer)) {
+      post({ type: 'error', message: 'FileReader failed to produce a valid ArrayBuffer.' });
+      return;
+    }
+    if (buffer.byteLength === 0) {
+      post({ type: 'error', message: 'The provided file is empty.' });
+      return;
+    }
+
+    try {
+      parse(buffer, options);
+    } catch (error) {
+      post({ type: 'error', message: describePsdParseError(error) });
+    }
+  };
+
+  reader.onerror = () => {
+    post({ type: 'error', message: `Failed to read file from disk: ${reader.error ? reader.error.message : 'Unknown IO error'}` });
+  };
+
+  reader.readAsArrayBuffer(file);
+};
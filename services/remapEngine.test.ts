@@ -0,0 +1,246 @@
+import { describe, it, expect } from 'vitest';
+import { remap, resolveGeometricStrategy, applyOverridesToPayload } from './remapEngine';
+import { ANCHOR_GRID } from './layoutService';
+import { SerializableLayer, ContainerDefinition, MappingContext, LayoutStrategy, TransformedLayer, TransformedPayload, AnchorPoint } from '../types';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+const layer = (id: string, coords: Rect, children?: SerializableLayer[]): SerializableLayer => ({
+  id,
+  name: id,
+  type: children ? 'group' : 'layer',
+  isVisible: true,
+  opacity: 1,
+  coords,
+  children
+});
+
+const source = (layers: SerializableLayer[], bounds: Rect = { x: 0, y: 0, w: 100, h: 100 }): MappingContext => ({
+  container: { containerName: 'SOURCE', bounds, canvasDimensions: { w: 1000, h: 1000 } },
+  layers,
+  status: 'resolved'
+});
+
+const target = (bounds: Rect, extra: Partial<ContainerDefinition> = {}): ContainerDefinition => ({
+  id: 'target',
+  name: 'TARGET',
+  originalName: 'TARGET',
+  bounds,
+  normalized: { x: 0, y: 0, w: 1, h: 1 },
+  ...extra
+});
+
+const strategy = (extra: Partial<LayoutStrategy>): LayoutStrategy => ({
+  suggestedScale: 1,
+  anchor: 'CENTER',
+  generativePrompt: '',
+  reasoning: '',
+  ...extra
+});
+
+const NO_COLLISIONS = { collision: { enabled: false } };
+
+// Source container 100x100 at the origin, target 200x100 to the right
+const WIDE_TARGET = target({ x: 1000, y: 0, w: 200, h: 100 });
+
+const find = (layers: TransformedLayer[], id: string): TransformedLayer => {
+  for (const l of layers) {
+    if (l.id === id) return l;
+    if (l.children) {
+      try { return find(l.children, id); } catch { /* keep looking */ }
+    }
+  }
+  throw new Error(`Layer ${id} not found`);
+};
+
+describe('resolveGeometricStrategy', () => {
+  const src = { x: 0, y: 0, w: 100, h: 100 };
+  const dst = { x: 0, y: 0, w: 200, h: 50 };
+
+  it('fits uniformly to the smaller ratio', () => {
+    expect(resolveGeometricStrategy('UNIFORM_FIT', src, dst)).toMatchObject({ scaleX: 0.5, scaleY: 0.5, anchorX: 75, anchorY: 0 });
+  });
+
+  it('fills uniformly to the larger ratio', () => {
+    expect(resolveGeometricStrategy('UNIFORM_FILL', src, dst)).toMatchObject({ scaleX: 2, scaleY: 2, anchorX: 0, anchorY: -75 });
+  });
+
+  it('stretches each axis independently', () => {
+    expect(resolveGeometricStrategy('STRETCH', src, dst)).toEqual({ scaleX: 2, scaleY: 0.5, anchorX: 0, anchorY: 0 });
+  });
+
+  it('keeps the source size for NONE', () => {
+    expect(resolveGeometricStrategy('NONE', src, dst)).toMatchObject({ scaleX: 1, scaleY: 1 });
+  });
+
+  describe('anchor grid', () => {
+    const expected: Record<AnchorPoint, [number, number]> = {
+      TOP_LEFT: [0, 0], TOP_CENTER: [100, 0], TOP_RIGHT: [200, 0],
+      CENTER_LEFT: [0, 50], CENTER: [100, 50], CENTER_RIGHT: [200, 50],
+      BOTTOM_LEFT: [0, 100], BOTTOM_CENTER: [100, 100], BOTTOM_RIGHT: [200, 100]
+    };
+
+    it.each(ANCHOR_GRID)('pins the scaled source to %s', anchor => {
+      const { anchorX, anchorY } = resolveGeometricStrategy('NONE', src, { x: 0, y: 0, w: 300, h: 200 }, anchor);
+      expect([anchorX, anchorY]).toEqual(expected[anchor]);
+    });
+  });
+});
+
+describe('remap', () => {
+  const box = layer('box', { x: 10, y: 20, w: 30, h: 40 });
+
+  it('centers a uniform fit inside the target', () => {
+    const payload = remap(source([box]), WIDE_TARGET, undefined, NO_COLLISIONS);
+    expect(payload.status).toBe('success');
+    expect(payload.remapStrategy).toBe('UNIFORM_FIT');
+    expect(find(payload.layers, 'box').coords).toEqual({ x: 1060, y: 20, w: 30, h: 40 });
+  });
+
+  it('uses the template anchor annotation for geometric remaps', () => {
+    const payload = remap(source([box]), target(WIDE_TARGET.bounds, { annotations: { anchor: 'TOP_RIGHT' } }), undefined, NO_COLLISIONS);
+    expect(find(payload.layers, 'box').coords.x).toBe(1110);
+  });
+
+  it('stretches layers along both axes', () => {
+    const payload = remap(source([box]), WIDE_TARGET, undefined, { ...NO_COLLISIONS, geometricStrategy: 'STRETCH' });
+    const result = find(payload.layers, 'box');
+    expect(result.coords).toEqual({ x: 1020, y: 20, w: 60, h: 40 });
+    expect(result.transform).toMatchObject({ scaleX: 2, scaleY: 1 });
+  });
+
+  it('fills the target, crops to it and culls layers left outside', () => {
+    const outside = layer('outside', { x: 0, y: 0, w: 10, h: 10 });
+    const payload = remap(source([box, outside]), WIDE_TARGET, undefined, { ...NO_COLLISIONS, geometricStrategy: 'UNIFORM_FILL' });
+    expect(payload.cropBounds).toEqual(WIDE_TARGET.bounds);
+    expect(find(payload.layers, 'box').coords).toEqual({ x: 1020, y: -10, w: 60, h: 80 });
+    expect(payload.layers.map(l => l.id)).toEqual(['box']);
+  });
+
+  it('scales text by font size', () => {
+    const text = { ...layer('title', { x: 0, y: 0, w: 50, h: 10 }), text: { content: 'Hi', fontSize: 12, boxType: 'point' as const } };
+    const payload = remap(source([text]), WIDE_TARGET, undefined, { ...NO_COLLISIONS, geometricStrategy: 'STRETCH' });
+    expect(find(payload.layers, 'title').text?.fontSize).toBe(12);
+  });
+
+  describe('with an AI strategy', () => {
+    it('applies the suggested scale at the strategy anchor', () => {
+      const payload = remap(source([box]), WIDE_TARGET, strategy({ suggestedScale: 0.5, anchor: 'BOTTOM_RIGHT' }), NO_COLLISIONS);
+      expect(payload.remapStrategy).toBeUndefined();
+      expect(find(payload.layers, 'box').coords).toEqual({ x: 1155, y: 60, w: 15, h: 20 });
+    });
+
+    it('fills stretched axes instead of using the suggested scale', () => {
+      const payload = remap(source([box]), WIDE_TARGET, strategy({ suggestedScale: 0.5, anchor: 'TOP_LEFT', stretch: 'X' }), NO_COLLISIONS);
+      expect(find(payload.layers, 'box').transform).toMatchObject({ scaleX: 2, scaleY: 0.5 });
+    });
+
+    it('accepts legacy anchors', () => {
+      const payload = remap(source([box]), WIDE_TARGET, strategy({ suggestedScale: 0.5, anchor: 'BOTTOM' }), NO_COLLISIONS);
+      expect(find(payload.layers, 'box').coords).toMatchObject({ x: 1080, y: 60 });
+    });
+
+    it('places overridden layers relative to the target origin', () => {
+      const payload = remap(source([box]), WIDE_TARGET, strategy({
+        overrides: [{ layerId: 'box', xOffset: 5, yOffset: 10, individualScale: 2 }]
+      }), NO_COLLISIONS);
+      expect(find(payload.layers, 'box').coords).toEqual({ x: 1005, y: 10, w: 60, h: 80 });
+    });
+
+    it('clamps overrides vertically into the bleed zone', () => {
+      const payload = remap(source([box]), target(WIDE_TARGET.bounds, { annotations: { bleed: 0.1 } }), strategy({
+        overrides: [{ layerId: 'box', xOffset: 0, yOffset: 500, individualScale: 1 }]
+      }), NO_COLLISIONS);
+      expect(find(payload.layers, 'box').coords.y).toBe(110);
+    });
+
+    it('locks overridden layers against the collision resolver', () => {
+      const a = layer('a', { x: 0, y: 0, w: 50, h: 50 });
+      const b = layer('b', { x: 10, y: 10, w: 50, h: 50 });
+      const payload = remap(source([a, b]), WIDE_TARGET, strategy({
+        overrides: [{ layerId: 'a', xOffset: 0, yOffset: 0, individualScale: 1 }, { layerId: 'b', xOffset: 10, yOffset: 10, individualScale: 1 }]
+      }));
+      expect(find(payload.layers, 'a').coords).toMatchObject({ x: 1000, y: 0 });
+      expect(find(payload.layers, 'b').coords).toMatchObject({ x: 1010, y: 10 });
+    });
+  });
+
+  describe('nested groups', () => {
+    const tree = () => [
+      layer('group', { x: 0, y: 0, w: 50, h: 50 }, [
+        layer('child', { x: 10, y: 10, w: 20, h: 20 }),
+        layer('inner', { x: 30, y: 30, w: 20, h: 20 }, [layer('leaf', { x: 35, y: 35, w: 5, h: 5 })])
+      ])
+    ];
+
+    it('maps unconstrained descendants with the container baseline', () => {
+      const payload = remap(source(tree()), WIDE_TARGET, undefined, NO_COLLISIONS);
+      expect(find(payload.layers, 'group').coords).toEqual({ x: 1050, y: 0, w: 50, h: 50 });
+      expect(find(payload.layers, 'child').coords).toEqual({ x: 1060, y: 10, w: 20, h: 20 });
+      expect(find(payload.layers, 'leaf').coords).toEqual({ x: 1085, y: 35, w: 5, h: 5 });
+    });
+
+    it('moves the children of a constrained group with the group', () => {
+      const payload = remap(source(tree()), WIDE_TARGET, undefined, {
+        ...NO_COLLISIONS,
+        geometricStrategy: 'STRETCH',
+        layerConstraints: { group: { horizontal: 'RIGHT', vertical: 'TOP', fixedSize: true } }
+      });
+      const group = find(payload.layers, 'group');
+      expect(group.coords).toEqual({ x: 1100, y: 0, w: 50, h: 50 });
+      expect(find(payload.layers, 'child').coords).toEqual({ x: 1110, y: 10, w: 20, h: 20 });
+      expect(find(payload.layers, 'leaf').coords).toEqual({ x: 1135, y: 35, w: 5, h: 5 });
+    });
+
+    it('moves the children of an overridden group to its clamped position', () => {
+      const payload = remap(source(tree()), target(WIDE_TARGET.bounds, { annotations: { bleed: 0.1 } }), strategy({
+        overrides: [{ layerId: 'group', xOffset: 20, yOffset: 500, individualScale: 1 }]
+      }), NO_COLLISIONS);
+      expect(find(payload.layers, 'group').coords).toEqual({ x: 1020, y: 110, w: 50, h: 50 });
+      expect(find(payload.layers, 'child').coords).toEqual({ x: 1030, y: 120, w: 20, h: 20 });
+      expect(find(payload.layers, 'leaf').coords).toEqual({ x: 1055, y: 145, w: 5, h: 5 });
+    });
+
+    it('remaps groups matching a nested container into the sub-container', () => {
+      const logo = target({ x: 1100, y: 50, w: 25, h: 25 }, { id: 'logo', name: 'TARGET/LOGO', originalName: 'LOGO', parentId: 'target' });
+      const payload = remap(source([layer('LOGO', { x: 0, y: 0, w: 50, h: 50 }, [layer('mark', { x: 0, y: 0, w: 50, h: 50 })])]), WIDE_TARGET, undefined, {
+        ...NO_COLLISIONS,
+        nested: [{ name: 'LOGO', sourceBounds: { x: 0, y: 0, w: 50, h: 50 }, target: logo }]
+      });
+      const group = find(payload.layers, 'LOGO');
+      expect(group.nestedContainer).toBe('TARGET/LOGO');
+      expect(group.coords).toEqual(logo.bounds);
+      expect(find(payload.layers, 'mark').coords).toEqual({ x: 1100, y: 50, w: 25, h: 25 });
+    });
+  });
+});
+
+describe('applyOverridesToPayload', () => {
+  const payload = (): TransformedPayload => remap(source([
+    { ...layer('title', { x: 10, y: 10, w: 40, h: 10 }), text: { content: 'Hi', fontSize: 10, boxType: 'point' } },
+    layer('group', { x: 50, y: 50, w: 40, h: 40 }, [layer('child', { x: 60, y: 60, w: 10, h: 10 })])
+  ]), target({ x: 0, y: 0, w: 100, h: 100 }), undefined, NO_COLLISIONS);
+
+  it('adds offsets, multiplies scale and accumulates rotation', () => {
+    const once = applyOverridesToPayload(payload(), [{ layerId: 'title', xOffset: 5, yOffset: -5, individualScale: 2, rotation: 10 }]);
+    const twice = applyOverridesToPayload(once, [{ layerId: 'title', xOffset: 5, yOffset: 0, individualScale: 1, rotation: 5 }]);
+    const title = find(twice.layers, 'title');
+    expect(title.coords).toEqual({ x: 20, y: 5, w: 80, h: 20 });
+    expect(title.transform).toMatchObject({ scaleX: 2, scaleY: 2, offsetX: 20, offsetY: 5, rotation: 15 });
+    expect(title.text?.fontSize).toBe(20);
+    expect(twice.isPolished).toBe(true);
+  });
+
+  it('reaches layers inside groups and leaves the rest untouched', () => {
+    const result = applyOverridesToPayload(payload(), [{ layerId: 'child', xOffset: 1, yOffset: 2, individualScale: 1 }]);
+    expect(find(result.layers, 'child').coords).toEqual({ x: 61, y: 62, w: 10, h: 10 });
+    expect(find(result.layers, 'group').coords).toEqual({ x: 50, y: 50, w: 40, h: 40 });
+    expect(find(result.layers, 'title').coords).toEqual({ x: 10, y: 10, w: 40, h: 10 });
+  });
+
+  it('does not mutate the input payload', () => {
+    const input = payload();
+    applyOverridesToPayload(input, [{ layerId: 'title', xOffset: 5, yOffset: 5, individualScale: 2 }]);
+    expect(find(input.layers, 'title').coords).toEqual({ x: 10, y: 10, w: 40, h: 10 });
+  });
+});
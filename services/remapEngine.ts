@@ -0,0 +1,380 @@
+import {
+  MappingContext,
+  ContainerDefinition,
+  LayoutStrategy,
+  TransformedPayload,
+  TransformedLayer,
+  SerializableLayer,
+  LayerOverride,
+  LayerConstraint,
+  RemapStrategy,
+  CollisionConfig,
+  TextDescriptor,
+  AnchorPoint,
+  TemplateMetadata,
+  BoundsMode,
+  MAX_BOUNDARY_VIOLATION_PERCENT
+} from '../types';
+import { resolveAnchorAlignment, alignWithin, resolveLayerConstraint, applyLayerConstraint } from './layoutService';
+import { resolveCollisions } from './collisionService';
+import { getChildContainers, getLocalContainerName } from './psdService';
+import { DEFAULT_BOUNDS_MODE, getLayerRect, reprojectOpaqueCoords } from './boundsService';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+export const DEFAULT_REMAP_STRATEGY: RemapStrategy = 'UNIFORM_FIT';
+export const DEFAULT_COLLISION_CONFIG: CollisionConfig = { enabled: true };
+
+// A design group inside the source container that is remapped into its own target sub-container
+export interface NestedContainerMapping {
+  name: string; // Local container name, matched case-insensitively against group names
+  sourceBounds: Rect; // Source sub-container bounds
+  target: ContainerDefinition;
+  nested?: NestedContainerMapping[];
+}
+
+export interface RemapOptions {
+  geometricStrategy?: RemapStrategy; // Used only when no AI strategy is supplied
+  layerConstraints?: Record<string, LayerConstraint>;
+  collision?: CollisionConfig;
+  sourceNodeId?: string;
+  nested?: NestedContainerMapping[];
+  boundsMode?: BoundsMode; // Rect pinned by per-layer constraints (the raw rect follows it)
+}
+
+export interface RemapBaseline {
+  scaleX: number;
+  scaleY: number;
+  anchorX: number;
+  anchorY: number;
+}
+
+/**
+ * Resolves the container-wide scale and top-left anchor for a geometric remap mode.
+ * The scaled source rect is centered inside the target, or pinned to `anchor` when the
+ * template annotates one (a no-op on both axes for STRETCH).
+ */
+export const resolveGeometricStrategy = (strategy: RemapStrategy, sourceRect: Rect, targetRect: Rect, anchor?: AnchorPoint): RemapBaseline => {
+  const ratioX = targetRect.w / sourceRect.w;
+  const ratioY = targetRect.h / sourceRect.h;
+  let scaleX: number;
+  let scaleY: number;
+
+  switch (strategy) {
+    case 'STRETCH':
+      scaleX = ratioX;
+      scaleY = ratioY;
+      break;
+    case 'UNIFORM_FILL':
+      scaleX = scaleY = Math.max(ratioX, ratioY);
+      break;
+    case 'NONE':
+      scaleX = scaleY = 1;
+      break;
+    case 'UNIFORM_FIT':
+    default:
+      scaleX = scaleY = Math.min(ratioX, ratioY);
+      break;
+  }
+
+  const scaledW = sourceRect.w * scaleX;
+  const scaledH = sourceRect.h * scaleY;
+  const { x: anchorX, y: anchorY } = alignWithin(resolveAnchorAlignment(anchor), targetRect, scaledW, scaledH);
+
+  return { scaleX, scaleY, anchorX, anchorY };
+};
+
+/**
+ * Resolves the container-wide baseline for an AI strategy.
+ * Stretched axes fill the target; the rest use the AI's uniform scale.
+ */
+export const resolveStrategyBaseline = (strategy: LayoutStrategy, sourceRect: Rect, targetRect: Rect): RemapBaseline => {
+  const alignment = resolveAnchorAlignment(strategy.anchor, strategy.stretch);
+  const scaleX = alignment.stretchX ? targetRect.w / sourceRect.w : strategy.suggestedScale;
+  const scaleY = alignment.stretchY ? targetRect.h / sourceRect.h : strategy.suggestedScale;
+  const { x: anchorX, y: anchorY } = alignWithin(alignment, targetRect, sourceRect.w * scaleX, sourceRect.h * scaleY);
+  return { scaleX, scaleY, anchorX, anchorY };
+};
+
+/**
+ * Returns a copy of a text descriptor with its font size multiplied by `factor`.
+ */
+export const scaleText = (text: TextDescriptor, factor: number): TextDescriptor => ({
+  ...text,
+  fontSize: text.fontSize * factor
+});
+
+/**
+ * Pairs the sub-containers of a source container with the target's sub-containers by local name (recursively).
+ * Sub-containers without a counterpart on either side are skipped.
+ */
+export const buildNestedMappings = (
+  sourceTemplate: TemplateMetadata,
+  sourceContainerName: string,
+  targetTemplate: TemplateMetadata,
+  target: ContainerDefinition
+): NestedContainerMapping[] => {
+  const sourceContainer = sourceTemplate.containers.find(c => c.name === sourceContainerName);
+  if (!sourceContainer) return [];
+  const sourceChildren = getChildContainers(sourceTemplate, sourceContainer.id);
+
+  return getChildContainers(targetTemplate, target.id).flatMap(targetChild => {
+    const name = getLocalContainerName(targetChild.name);
+    const sourceChild = sourceChildren.find(c => getLocalContainerName(c.name).toLowerCase() === name.toLowerCase());
+    if (!sourceChild) return [];
+    return [{
+      name,
+      sourceBounds: sourceChild.bounds,
+      target: targetChild,
+      nested: buildNestedMappings(sourceTemplate, sourceChild.name, targetTemplate, targetChild)
+    }];
+  });
+};
+
+// Drops layers whose transformed bounds fall entirely outside the crop rect (UNIFORM_FILL)
+const cullOutsideBounds = (layers: TransformedLayer[], bounds: Rect): TransformedLayer[] => {
+  return layers
+    .filter(layer =>
+      layer.coords.x < bounds.x + bounds.w &&
+      layer.coords.x + layer.coords.w > bounds.x &&
+      layer.coords.y < bounds.y + bounds.h &&
+      layer.coords.y + layer.coords.h > bounds.y
+    )
+    .map(layer => layer.children
+      ? { ...layer, children: cullOutsideBounds(layer.children, bounds) }
+      : layer
+    );
+};
+
+/**
+ * Remaps a resolved source container into a target container. Pure: no React, store or canvas access.
+ *
+ * Pipeline: baseline (AI strategy or geometric mode) -> per-layer constraints -> AI overrides
+ * -> bleed clamp -> collision resolver -> crop culling (UNIFORM_FILL only).
+ * Template annotations (target first, then source container) supply the geometric anchor and bleed.
+ * Nested containers run parent-then-child: groups matching `options.nested` skip the parent mapping and
+ * are remapped into their own target sub-container (geometric, using the child's annotations).
+ *
+ * @param source The resolved source context (layers in absolute PSD coordinates).
+ * @param target The target container definition.
+ * @param strategy Optional AI layout strategy. When present the geometric mode is ignored.
+ * @param options Geometric mode, per-layer constraints and collision settings.
+ * @returns A 'success' payload. Generation gating and preview state are left to the caller.
+ */
+export const remap = (
+  source: MappingContext,
+  target: ContainerDefinition,
+  strategy?: LayoutStrategy,
+  options: RemapOptions = {}
+): TransformedPayload => {
+  const sourceRect = source.container.bounds;
+  const targetRect = target.bounds;
+  const geometricStrategy = options.geometricStrategy ?? DEFAULT_REMAP_STRATEGY;
+  const collisionConfig = options.collision ?? DEFAULT_COLLISION_CONFIG;
+  const boundsMode = options.boundsMode ?? DEFAULT_BOUNDS_MODE;
+  const annotations = target.annotations ?? source.container.annotations;
+  const bleedRatio = annotations?.bleed ?? MAX_BOUNDARY_VIOLATION_PERCENT;
+
+  const { scaleX, scaleY, anchorX, anchorY } = strategy
+    ? resolveStrategyBaseline(strategy, sourceRect, targetRect)
+    : resolveGeometricStrategy(geometricStrategy, sourceRect, targetRect, annotations?.anchor);
+
+  const isCropped = !strategy && geometricStrategy === 'UNIFORM_FILL';
+
+  const nestedByName = new Map((options.nested || []).map(n => [n.name.toLowerCase(), n]));
+
+  const remapNested = (layer: SerializableLayer, mapping: NestedContainerMapping): TransformedLayer => {
+    const child = remap(
+      {
+        container: { ...source.container, containerName: mapping.name, bounds: mapping.sourceBounds, annotations: undefined },
+        layers: layer.children || [],
+        status: 'resolved'
+      },
+      mapping.target,
+      undefined,
+      { ...options, geometricStrategy: mapping.target.annotations?.strategy ?? geometricStrategy, nested: mapping.nested }
+    );
+    const targetBounds = mapping.target.bounds;
+    return {
+      ...layer,
+      coords: { ...targetBounds },
+      opaqueCoords: undefined,
+      transform: {
+        scaleX: mapping.sourceBounds.w > 0 ? targetBounds.w / mapping.sourceBounds.w : 1,
+        scaleY: mapping.sourceBounds.h > 0 ? targetBounds.h / mapping.sourceBounds.h : 1,
+        offsetX: targetBounds.x,
+        offsetY: targetBounds.y
+      },
+      children: child.layers,
+      nestedContainer: mapping.target.name
+    };
+  };
+
+  // Children of a constrained or overridden group follow the group's own mapping (parentFrame)
+  const transformLayers = (layers: SerializableLayer[], parentFrame?: { source: Rect, target: Rect }): TransformedLayer[] => {
+    return layers.map(layer => {
+      const nested = layer.type === 'group' ? nestedByName.get(layer.name.toLowerCase()) : undefined;
+      if (nested) return remapNested(layer, nested);
+
+      let finalX: number;
+      let finalY: number;
+      let layerScaleX: number;
+      let layerScaleY: number;
+      // Descendants follow the group once it is placed independently of the container baseline
+      let framed = !!parentFrame;
+
+      if (parentFrame) {
+        layerScaleX = parentFrame.source.w > 0 ? parentFrame.target.w / parentFrame.source.w : 1;
+        layerScaleY = parentFrame.source.h > 0 ? parentFrame.target.h / parentFrame.source.h : 1;
+        finalX = parentFrame.target.x + (layer.coords.x - parentFrame.source.x) * layerScaleX;
+        finalY = parentFrame.target.y + (layer.coords.y - parentFrame.source.y) * layerScaleY;
+      } else {
+        const relX = (layer.coords.x - sourceRect.x) / sourceRect.w;
+        const relY = (layer.coords.y - sourceRect.y) / sourceRect.h;
+        finalX = anchorX + (relX * (sourceRect.w * scaleX));
+        finalY = anchorY + (relY * (sourceRect.h * scaleY));
+        layerScaleX = scaleX;
+        layerScaleY = scaleY;
+
+        // Per-layer constraints resolve before AI overrides
+        const constraint = resolveLayerConstraint(layer, options.layerConstraints);
+        if (constraint) {
+          // Margins are measured on the chosen rect (e.g. the visible pixels, not transparent padding)
+          const measured = getLayerRect(layer, boundsMode);
+          const geometric = {
+            x: finalX + (measured.x - layer.coords.x) * scaleX,
+            y: finalY + (measured.y - layer.coords.y) * scaleY
+          };
+          const placed = applyLayerConstraint(constraint, measured, sourceRect, targetRect, scaleX, scaleY, geometric);
+          layerScaleX = placed.scaleX;
+          layerScaleY = placed.scaleY;
+          finalX = placed.x - (measured.x - layer.coords.x) * layerScaleX;
+          finalY = placed.y - (measured.y - layer.coords.y) * layerScaleY;
+          framed = true;
+        }
+      }
+
+      const override = strategy?.overrides?.find(o => o.layerId === layer.id);
+
+      if (override) {
+        finalX = targetRect.x + override.xOffset;
+        finalY = targetRect.y + override.yOffset;
+        layerScaleX *= override.individualScale;
+        layerScaleY *= override.individualScale;
+        framed = true;
+      }
+
+      // Cropped modes intentionally overflow; only clamp into the bleed zone otherwise.
+      // Children of a framed group were already placed by the group's clamp.
+      if (!isCropped && !parentFrame) {
+        const bleedY = targetRect.h * bleedRatio;
+        const minY = targetRect.y - bleedY;
+        const maxY = targetRect.y + targetRect.h + bleedY;
+        finalY = Math.max(minY, Math.min(finalY, maxY));
+      }
+      const newW = layer.coords.w * layerScaleX;
+      const newH = layer.coords.h * layerScaleY;
+      const coords = { x: finalX, y: finalY, w: newW, h: newH };
+
+      return {
+        ...layer,
+        coords,
+        opaqueCoords: reprojectOpaqueCoords(layer.opaqueCoords, layer.coords, coords),
+        transform: { scaleX: layerScaleX, scaleY: layerScaleY, offsetX: finalX, offsetY: finalY },
+        // Text scales by font size (uniform) so it stays editable and sharp on export
+        text: layer.text ? scaleText(layer.text, Math.min(layerScaleX, layerScaleY)) : undefined,
+        // Frame from the final, clamped coords so children land where the group does
+        children: layer.children ? transformLayers(layer.children, framed ? { source: layer.coords, target: coords } : undefined) : undefined
+      };
+    });
+  };
+
+  let layers = transformLayers(source.layers as SerializableLayer[]);
+
+  // Local collision pass: separates overlapping siblings without a network call.
+  // Layers positioned by AI overrides are locked in place.
+  let collisionOverrides: LayerOverride[] | undefined;
+  if (collisionConfig.enabled) {
+    const lockedIds = new Set<string>((strategy?.overrides || []).map(o => o.layerId));
+    layers.forEach(layer => { if (layer.nestedContainer) lockedIds.add(layer.id); });
+    const collisions = resolveCollisions(layers, targetRect, {
+      rules: collisionConfig.rules,
+      minScale: collisionConfig.minScale,
+      boundsMode: collisionConfig.boundsMode ?? boundsMode,
+      lockedIds
+    });
+    layers = collisions.layers;
+    collisionOverrides = collisions.overrides.length > 0 ? collisions.overrides : undefined;
+  }
+
+  if (isCropped) {
+    layers = cullOutsideBounds(layers, targetRect);
+  }
+
+  return {
+    status: 'success',
+    sourceNodeId: options.sourceNodeId ?? '',
+    sourceContainer: source.container.containerName,
+    targetContainer: target.originalName || target.name,
+    layers,
+    scaleFactor: Math.max(scaleX, scaleY),
+    metrics: { source: { w: sourceRect.w, h: sourceRect.h }, target: { w: targetRect.w, h: targetRect.h } },
+    remapStrategy: strategy ? undefined : geometricStrategy,
+    cropBounds: isCropped ? { ...targetRect } : undefined,
+    targetBounds: { ...targetRect },
+    collisionOverrides
+  };
+};
+
+/**
+ * Applies additive nudge overrides (CARO / collision resolver semantics) to an existing payload.
+ * Offsets are added to the current position; scale is multiplicative; rotation accumulates.
+ */
+export const applyOverridesToPayload = (payload: TransformedPayload, overrides: LayerOverride[]): TransformedPayload => {
+  const deepUpdate = (layers: TransformedLayer[]): TransformedLayer[] => {
+    return layers.map(layer => {
+      const override = overrides.find(o => o.layerId === layer.id);
+      let newLayer = { ...layer };
+
+      if (override) {
+        const newX = layer.coords.x + override.xOffset;
+        const newY = layer.coords.y + override.yOffset;
+        const scaleMult = override.individualScale || 1;
+
+        newLayer.coords = {
+          ...layer.coords,
+          x: newX,
+          y: newY,
+          w: layer.coords.w * scaleMult,
+          h: layer.coords.h * scaleMult
+        };
+        newLayer.opaqueCoords = reprojectOpaqueCoords(layer.opaqueCoords, layer.coords, newLayer.coords);
+
+        if (layer.text) {
+          newLayer.text = scaleText(layer.text, scaleMult);
+        }
+
+        newLayer.transform = {
+          ...layer.transform,
+          scaleX: layer.transform.scaleX * scaleMult,
+          scaleY: layer.transform.scaleY * scaleMult,
+          offsetX: newX,
+          offsetY: newY,
+          rotation: (layer.transform.rotation || 0) + (override.rotation || 0)
+        };
+      }
+
+      if (layer.children) {
+        newLayer.children = deepUpdate(layer.children);
+      }
+
+      return newLayer;
+    });
+  };
+
+  return {
+    ...payload,
+    layers: deepUpdate(payload.layers),
+    isPolished: true
+  };
+};
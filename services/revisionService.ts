@@ -0,0 +1,136 @@
+import { SerializableLayer, LayerChange, LayerChangeKind } from '../types';
+
+type IdMap = Record<string, string>;
+
+// Sub-pixel differences come from float bounds; ignore them
+const GEOMETRY_TOLERANCE = 0.5;
+
+interface FlatLayer {
+  layer: SerializableLayer;
+  parentId: string | null;
+  chain: string; // Name path, e.g. "SYMBOLS/Coin/Glow"
+}
+
+const flatten = (layers: SerializableLayer[], parentId: string | null = null, chain: string = ''): FlatLayer[] => {
+  return layers.flatMap(layer => {
+    const key = chain ? `${chain}/${layer.name}` : layer.name;
+    return [
+      { layer, parentId, chain: key },
+      ...(layer.children ? flatten(layer.children, layer.id, key) : [])
+    ];
+  });
+};
+
+const differs = (a: number, b: number) => Math.abs(a - b) > GEOMETRY_TOLERANCE;
+
+/**
+ * Diffs two `designLayers` trees from consecutive uploads of the same PSD.
+ *
+ * Layers are matched in passes: known ID migrations (legacy path IDs), identical IDs,
+ * a unique name path, then same parent + identical bounds (a rename of a hash-identified layer).
+ * Matched layers report 'renamed' / 'moved' / 'resized'; the rest are 'added' or 'removed'.
+ *
+ * @param previous The tree persisted before the re-upload.
+ * @param next The tree parsed from the new file.
+ * @param knownMatches Old ID -> new ID pairs resolved elsewhere (see `buildLayerIdMigration`).
+ * @returns The changes (new tree order, removals last) and an old -> new map for every ID that changed.
+ */
+export const diffLayerTrees = (
+  previous: SerializableLayer[],
+  next: SerializableLayer[],
+  knownMatches: IdMap = {}
+): { changes: LayerChange[], idMap: IdMap } => {
+  const prevFlat = flatten(previous);
+  const nextFlat = flatten(next);
+  const nextById = new Map(nextFlat.map(entry => [entry.layer.id, entry]));
+
+  const matches = new Map<string, string>(); // prevId -> nextId
+  const claimed = new Set<string>();
+  const bind = (prevId: string, nextId: string) => {
+    matches.set(prevId, nextId);
+    claimed.add(nextId);
+  };
+  const unmatchedPrev = () => prevFlat.filter(entry => !matches.has(entry.layer.id));
+  const unmatchedNext = () => nextFlat.filter(entry => !claimed.has(entry.layer.id));
+
+  // 1. Known migrations and identical IDs
+  prevFlat.forEach(({ layer }) => {
+    const candidate = knownMatches[layer.id] ?? layer.id;
+    if (nextById.has(candidate) && !claimed.has(candidate)) bind(layer.id, candidate);
+  });
+
+  // 2. Unique name path on both sides
+  const countChains = (entries: FlatLayer[]) => entries.reduce((acc, e) => acc.set(e.chain, (acc.get(e.chain) || 0) + 1), new Map<string, number>());
+  const prevChains = countChains(unmatchedPrev());
+  const nextCandidates = unmatchedNext();
+  const nextChains = countChains(nextCandidates);
+  unmatchedPrev().forEach(entry => {
+    if (prevChains.get(entry.chain) !== 1 || nextChains.get(entry.chain) !== 1) return;
+    const candidate = nextCandidates.find(e => e.chain === entry.chain)!;
+    bind(entry.layer.id, candidate.layer.id);
+  });
+
+  // 3. Renames: same (matched) parent, type and bounds
+  unmatchedPrev().forEach(entry => {
+    const parentId = entry.parentId ? matches.get(entry.parentId) ?? null : null;
+    if (entry.parentId && !parentId) return;
+    const { coords, type } = entry.layer;
+    const candidate = unmatchedNext().find(e =>
+      e.parentId === parentId &&
+      e.layer.type === type &&
+      !differs(e.layer.coords.x, coords.x) && !differs(e.layer.coords.y, coords.y) &&
+      !differs(e.layer.coords.w, coords.w) && !differs(e.layer.coords.h, coords.h)
+    );
+    if (candidate) bind(entry.layer.id, candidate.layer.id);
+  });
+
+  const prevByNextId = new Map<string, SerializableLayer>();
+  prevFlat.forEach(({ layer }) => {
+    const nextId = matches.get(layer.id);
+    if (nextId) prevByNextId.set(nextId, layer);
+  });
+
+  const changes: LayerChange[] = [];
+
+  nextFlat.forEach(({ layer }) => {
+    const before = prevByNextId.get(layer.id);
+    if (!before) {
+      changes.push({ layerId: layer.id, name: layer.name, kinds: ['added'], coords: layer.coords });
+      return;
+    }
+
+    const kinds: LayerChangeKind[] = [];
+    if (before.name !== layer.name) kinds.push('renamed');
+    if (differs(before.coords.x, layer.coords.x) || differs(before.coords.y, layer.coords.y)) kinds.push('moved');
+    if (differs(before.coords.w, layer.coords.w) || differs(before.coords.h, layer.coords.h)) kinds.push('resized');
+    if (kinds.length === 0) return;
+
+    changes.push({
+      layerId: layer.id,
+      previousId: before.id !== layer.id ? before.id : undefined,
+      name: layer.name,
+      previousName: before.name !== layer.name ? before.name : undefined,
+      kinds,
+      previousCoords: before.coords,
+      coords: layer.coords
+    });
+  });
+
+  unmatchedPrev().forEach(({ layer }) => {
+    changes.push({ layerId: layer.id, name: layer.name, kinds: ['removed'], previousCoords: layer.coords });
+  });
+
+  const idMap: IdMap = {};
+  matches.forEach((nextId, prevId) => {
+    if (nextId !== prevId) idMap[prevId] = nextId;
+  });
+
+  return { changes, idMap };
+};
+
+/**
+ * Every layer ID in a tree (groups included).
+ */
+export const collectLayerIds = (layers: SerializableLayer[]): Set<string> => {
+  return new Set(flatten(layers).map(entry => entry.layer.id));
+};
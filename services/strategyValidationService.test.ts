@@ -0,0 +1,195 @@
+import { describe, it, expect, vi } from 'vitest';
+import { validateLayoutStrategy, validateReviewerStrategy, generateValidatedStrategy, DEFAULT_STRATEGY_LIMITS, StrategyContext } from './strategyValidationService';
+import { AIProvider, AIJsonRequest, AIJsonResponse, AIInvalidJsonError } from './aiProvider';
+import { attachErrorUsage } from './aiUsageService';
+import { AIUsage } from '../types';
+
+const context: StrategyContext = {
+  layers: [{ id: 'title' }, { id: 'group', children: [{ id: 'logo' }] }],
+  target: { w: 1000, h: 500 },
+  fallbackScale: 1
+};
+
+const response = (extra: Record<string, unknown>) => ({
+  method: 'GEOMETRIC',
+  reasoning: 'Fits the frame.',
+  suggestedScale: 0.8,
+  anchor: 'CENTER',
+  stretch: 'NONE',
+  generativePrompt: '',
+  ...extra
+});
+
+const validate = (extra: Record<string, unknown>) => validateLayoutStrategy(response(extra), context, DEFAULT_STRATEGY_LIMITS);
+
+describe('validateLayoutStrategy', () => {
+  it('uses a valid response as-is', () => {
+    const { strategy, corrections } = validate({ anchor: 'BOTTOM_LEFT', overrides: [{ layerId: 'logo', xOffset: 10, yOffset: -5, individualScale: 1.5 }] });
+    expect(corrections).toEqual([]);
+    expect(strategy).toMatchObject({ anchor: 'BOTTOM_LEFT', stretch: 'NONE', suggestedScale: 0.8 });
+    expect(strategy.overrides).toEqual([{ layerId: 'logo', xOffset: 10, yOffset: -5, individualScale: 1.5 }]);
+  });
+
+  it.each([
+    ['TOP', 'TOP_CENTER'],
+    ['BOTTOM', 'BOTTOM_CENTER']
+  ])('normalizes the legacy %s anchor to %s', (legacy, anchor) => {
+    const { strategy, corrections } = validate({ anchor: legacy });
+    expect(corrections).toEqual([]);
+    expect(strategy).toMatchObject({ anchor, stretch: 'NONE' });
+  });
+
+  it('normalizes the legacy STRETCH anchor to a centered stretch', () => {
+    const { strategy, corrections } = validate({ anchor: 'STRETCH', stretch: undefined });
+    expect(corrections).toEqual([]);
+    expect(strategy).toMatchObject({ anchor: 'CENTER', stretch: 'BOTH' });
+  });
+
+  it('keeps an explicit stretch next to the legacy STRETCH anchor', () => {
+    expect(validate({ anchor: 'STRETCH', stretch: 'X' }).strategy).toMatchObject({ anchor: 'CENTER', stretch: 'X' });
+  });
+
+  it('corrects unknown anchors to CENTER', () => {
+    const { strategy, corrections } = validate({ anchor: 'SOMEWHERE' });
+    expect(strategy.anchor).toBe('CENTER');
+    expect(corrections).toHaveLength(1);
+  });
+
+  it('clamps numbers and drops overrides for unknown layers', () => {
+    const { strategy, corrections } = validate({
+      suggestedScale: 100,
+      overrides: [{ layerId: 'ghost', xOffset: 0, yOffset: 0, individualScale: 1 }, { layerId: 'title', xOffset: 5000, yOffset: 0, individualScale: 1 }]
+    });
+    expect(strategy.suggestedScale).toBe(DEFAULT_STRATEGY_LIMITS.maxScale);
+    expect(strategy.overrides).toEqual([{ layerId: 'title', xOffset: 1000, yOffset: 0, individualScale: 1 }]);
+    expect(corrections).toHaveLength(3);
+  });
+});
+
+describe('validateReviewerStrategy', () => {
+  it('keeps rotation within the limit', () => {
+    const { strategy, corrections } = validateReviewerStrategy({
+      CARO_Audit: 'Nudged the logo.',
+      overrides: [{ layerId: 'logo', xOffset: 4, yOffset: 0, individualScale: 0.95, rotation: 90 }]
+    }, context, DEFAULT_STRATEGY_LIMITS);
+    expect(strategy).toEqual({
+      CARO_Audit: 'Nudged the logo.',
+      overrides: [{ layerId: 'logo', xOffset: 4, yOffset: 0, individualScale: 0.95, rotation: DEFAULT_STRATEGY_LIMITS.maxRotation }]
+    });
+    expect(corrections).toHaveLength(1);
+  });
+
+  it('drops repeated and unknown layers and fills missing fields', () => {
+    const { strategy, corrections } = validateReviewerStrategy({
+      overrides: [{ layerId: 'title', xOffset: 1 }, { layerId: 'title', xOffset: 2, yOffset: 0, individualScale: 1 }, { layerId: 'ghost' }]
+    }, context, DEFAULT_STRATEGY_LIMITS);
+    expect(strategy).toEqual({ CARO_Audit: '', overrides: [{ layerId: 'title', xOffset: 1, yOffset: 0, individualScale: 1 }] });
+    expect(corrections).toHaveLength(5);
+  });
+
+  it('reports responses that are not objects', () => {
+    const { strategy, corrections } = validateReviewerStrategy('nudge it', context, DEFAULT_STRATEGY_LIMITS);
+    expect(strategy).toEqual({ CARO_Audit: '', overrides: [] });
+    expect(corrections[0]).toBe('Response was not a JSON object.');
+  });
+});
+
+describe('generateValidatedStrategy', () => {
+  const usage = (costUSD: number): AIUsage => ({ calls: 1, inputTokens: 100, outputTokens: 50, thinkingTokens: 0, images: 0, costUSD });
+
+  const answer = (data: unknown, costUSD: number): AIJsonResponse<unknown> => ({ data, text: JSON.stringify(data), usage: usage(costUSD) });
+
+  // Answers each generateJson call with the next response, or rejects with it when it is an error
+  const stubProvider = (...responses: (AIJsonResponse<unknown> | Error)[]) => {
+    const generateJson = vi.fn(async (_request: AIJsonRequest) => {
+      const next = responses.shift();
+      if (!next) throw new Error('Unexpected call');
+      if (next instanceof Error) throw next;
+      return next;
+    });
+    const provider = {
+      id: 'mock',
+      label: 'Stub',
+      isAvailable: () => true,
+      generateText: async () => ({ text: '' }),
+      generateJson,
+      generateImage: async () => null
+    } as unknown as AIProvider;
+    return { provider, generateJson };
+  };
+
+  const request: AIJsonRequest = { model: 'fast', contents: 'Lay it out.', schema: { type: 'object' } };
+
+  const run = (provider: AIProvider) =>
+    generateValidatedStrategy(provider, request, raw => validateLayoutStrategy(raw, context, DEFAULT_STRATEGY_LIMITS));
+
+  it('uses a clean first answer without re-asking', async () => {
+    const { provider, generateJson } = stubProvider(answer(response({}), 0.01));
+    const result = await run(provider);
+    expect(generateJson).toHaveBeenCalledTimes(1);
+    expect(result.strategy).toMatchObject({ anchor: 'CENTER', suggestedScale: 0.8 });
+    expect(result.auditNotes).toEqual([]);
+    expect(result.usage?.costUSD).toBe(0.01);
+  });
+
+  it('re-asks with the validation errors and uses the corrected answer', async () => {
+    const { provider, generateJson } = stubProvider(answer(response({ anchor: 'SOMEWHERE' }), 0.01), answer(response({ anchor: 'TOP_LEFT' }), 0.02));
+    const result = await run(provider);
+
+    const contents = generateJson.mock.calls[1][0].contents;
+    expect(contents).toHaveLength(3);
+    expect(contents[1]).toMatchObject({ role: 'model', parts: [{ text: JSON.stringify(response({ anchor: 'SOMEWHERE' })) }] });
+    expect(JSON.stringify(contents[2])).toContain('anchor \\"SOMEWHERE\\" is not one of');
+
+    expect(result.strategy.anchor).toBe('TOP_LEFT');
+    expect(result.auditNotes).toEqual(['Re-asked once after 1 validation issue(s).']);
+    expect(result.usage).toMatchObject({ calls: 2, inputTokens: 200, costUSD: 0.03 });
+  });
+
+  it('sanitizes a second answer that is still invalid', async () => {
+    const { provider } = stubProvider(answer(response({ anchor: 'SOMEWHERE' }), 0.01), answer(response({ suggestedScale: 100 }), 0.02));
+    const result = await run(provider);
+    expect(result.strategy.suggestedScale).toBe(DEFAULT_STRATEGY_LIMITS.maxScale);
+    expect(result.auditNotes).toHaveLength(2);
+  });
+
+  it('re-asks after a response that is not valid JSON', async () => {
+    const { provider, generateJson } = stubProvider(attachErrorUsage(new AIInvalidJsonError('{"anchor": "TOP'), usage(0.01)), answer(response({}), 0.02));
+    const result = await run(provider);
+    expect(generateJson.mock.calls[1][0].contents[1]).toEqual({ role: 'model', parts: [{ text: '{"anchor": "TOP' }] });
+    expect(result.strategy.anchor).toBe('CENTER');
+    expect(result.auditNotes).toEqual(['Re-asked once after a response that was not valid JSON.']);
+    expect(result.usage?.costUSD).toBe(0.03);
+  });
+
+  it('falls back to the corrected first answer when the re-ask fails', async () => {
+    const { provider } = stubProvider(answer(response({ anchor: 'SOMEWHERE' }), 0.01), attachErrorUsage(new Error('503 UNAVAILABLE'), usage(0.02)));
+    const result = await run(provider);
+    expect(result.strategy.anchor).toBe('CENTER');
+    expect(result.auditNotes[0]).toBe('Re-ask failed; corrected the first response instead.');
+    expect(result.usage?.costUSD).toBe(0.03);
+  });
+
+  it('rethrows when the re-ask after invalid JSON fails', async () => {
+    const failure = new Error('503 UNAVAILABLE');
+    const { provider } = stubProvider(attachErrorUsage(new AIInvalidJsonError('{'), usage(0.01)), failure);
+    await expect(run(provider)).rejects.toBe(failure);
+    expect(failure).toMatchObject({ usage: { calls: 1, costUSD: 0.01 } });
+  });
+
+  it.each([
+    ['cancelled', new DOMException('AI job cancelled', 'AbortError')],
+    ['refused by the budget', Object.assign(new Error('AI budget of $1.000 reached'), { name: 'AIBudgetError' })]
+  ])('rethrows a re-ask that was %s with the usage of both attempts', async (_, failure) => {
+    const { provider } = stubProvider(answer(response({ anchor: 'SOMEWHERE' }), 0.01), attachErrorUsage(failure, usage(0.02)));
+    await expect(run(provider)).rejects.toBe(failure);
+    expect(failure).toMatchObject({ usage: { calls: 2, costUSD: 0.03 } });
+  });
+
+  it('passes other errors of the first call through', async () => {
+    const failure = new Error('API Key missing');
+    const { provider, generateJson } = stubProvider(failure);
+    await expect(run(provider)).rejects.toBe(failure);
+    expect(generateJson).toHaveBeenCalledTimes(1);
+  });
+});
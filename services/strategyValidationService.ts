@@ -0,0 +1,268 @@
+import { LayoutStrategy, ReviewerStrategy, LayerOverride, StrategyLimits, AnchorPoint, LegacyAnchor, StretchAxis, AIUsage } from '../types';
+import { ANCHOR_GRID, STRETCH_AXES, resolveAnchorAlignment, toAnchorPoint } from './layoutService';
+import { AIProvider, AIJsonRequest, AIMessage, AIInvalidJsonError } from './aiProvider';
+import { addAIUsage, getErrorUsage, attachErrorUsage, isAIBudgetError } from './aiUsageService';
+
+/**
+ * Validation of model-generated layout strategies before they reach the remapper.
+ *
+ * Responses are checked against the real layer tree (overrides for unknown layers are dropped) and
+ * numeric values are clamped to the project's strategy limits. Every correction is reported as a
+ * human-readable note so it can be shown in the node's chat.
+ */
+
+export const DEFAULT_STRATEGY_LIMITS: StrategyLimits = {
+  minScale: 0.01,
+  maxScale: 20,
+  minLayerScale: 0.1,
+  maxLayerScale: 5,
+  maxOffsetRatio: 1,
+  maxRotation: 45
+};
+
+// Still understood by the remapper, so they are normalized rather than corrected
+const LEGACY_ANCHORS: LegacyAnchor[] = ['TOP', 'BOTTOM', 'STRETCH'];
+
+const INVALID_JSON = 'Response was not valid JSON.';
+
+interface LayerNode {
+  id: string;
+  children?: LayerNode[];
+}
+
+export interface StrategyContext {
+  layers: LayerNode[]; // Layers the overrides may address
+  target: { w: number, h: number }; // Target container size offsets are measured against
+  fallbackScale: number; // Used when the response has no usable suggestedScale
+}
+
+export interface StrategyValidationResult<T> {
+  strategy: T;
+  corrections: string[]; // Empty when the response was used as-is
+}
+
+/**
+ * Merges project overrides over the default limits.
+ */
+export const resolveStrategyLimits = (overrides: Partial<StrategyLimits> = {}): StrategyLimits => ({ ...DEFAULT_STRATEGY_LIMITS, ...overrides });
+
+const collectLayerIds = (layers: LayerNode[], ids: Set<string> = new Set()): Set<string> => {
+  layers.forEach(layer => {
+    ids.add(layer.id);
+    if (layer.children) collectLayerIds(layer.children, ids);
+  });
+  return ids;
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Reads a finite number, clamping it into [min, max]; missing or non-numeric values use the fallback
+const readNumber = (value: unknown, field: string, min: number, max: number, fallback: number, corrections: string[]): number => {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    corrections.push(`${field} was ${value === undefined ? 'missing' : `not a number (${JSON.stringify(value)})`}; used ${round(fallback)}.`);
+    return fallback;
+  }
+  if (value < min || value > max) {
+    const clamped = Math.max(min, Math.min(value, max));
+    corrections.push(`${field} ${round(value)} is outside ${round(min)}..${round(max)}; clamped to ${round(clamped)}.`);
+    return clamped;
+  }
+  return value;
+};
+
+const readEnum = <T extends string>(value: unknown, field: string, allowed: readonly T[], fallback: T, corrections: string[]): T => {
+  if (typeof value === 'string' && allowed.includes(value as T)) return value as T;
+  corrections.push(`${field} ${JSON.stringify(value)} is not one of ${allowed.join(', ')}; used ${fallback}.`);
+  return fallback;
+};
+
+const readString = (value: unknown, field: string, corrections: string[]): string => {
+  if (typeof value === 'string') return value;
+  corrections.push(`${field} was ${value === undefined ? 'missing' : 'not a string'}; used an empty string.`);
+  return '';
+};
+
+const readOverrides = (
+  value: unknown,
+  context: StrategyContext,
+  limits: StrategyLimits,
+  corrections: string[],
+  allowRotation: boolean
+): LayerOverride[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    corrections.push('overrides was not an array; ignored.');
+    return [];
+  }
+
+  const layerIds = collectLayerIds(context.layers);
+  const seen = new Set<string>();
+  const maxX = context.target.w * limits.maxOffsetRatio;
+  const maxY = context.target.h * limits.maxOffsetRatio;
+  const overrides: LayerOverride[] = [];
+
+  value.forEach((raw, i) => {
+    const item = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const layerId = item.layerId;
+    if (typeof layerId !== 'string' || !layerIds.has(layerId)) {
+      corrections.push(`overrides[${i}] targets unknown layer ${JSON.stringify(layerId)}; dropped.`);
+      return;
+    }
+    if (seen.has(layerId)) {
+      corrections.push(`overrides[${i}] repeats layer '${layerId}'; dropped.`);
+      return;
+    }
+    seen.add(layerId);
+
+    const field = `overrides['${layerId}']`;
+    const override: LayerOverride = {
+      layerId,
+      xOffset: readNumber(item.xOffset, `${field}.xOffset`, -maxX, maxX, 0, corrections),
+      yOffset: readNumber(item.yOffset, `${field}.yOffset`, -maxY, maxY, 0, corrections),
+      individualScale: readNumber(item.individualScale, `${field}.individualScale`, limits.minLayerScale, limits.maxLayerScale, 1, corrections)
+    };
+    if (item.rotation !== undefined) {
+      if (allowRotation) override.rotation = readNumber(item.rotation, `${field}.rotation`, -limits.maxRotation, limits.maxRotation, 0, corrections);
+      else corrections.push(`${field}.rotation is not supported here; ignored.`);
+    }
+    overrides.push(override);
+  });
+
+  return overrides;
+};
+
+/**
+ * Checks an Analyst response and returns a strategy that is safe to apply.
+ * Enrichment fields (sourceReference, knowledgeMuted, ...) are left to the caller.
+ */
+export const validateLayoutStrategy = (raw: unknown, context: StrategyContext, limits: StrategyLimits): StrategyValidationResult<LayoutStrategy> => {
+  const corrections: string[] = [];
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  if (!raw || typeof raw !== 'object') corrections.push('Response was not a JSON object.');
+
+  const method = readEnum(data.method, 'method', ['GEOMETRIC', 'GENERATIVE', 'HYBRID'] as const, 'GEOMETRIC', corrections);
+  const safety = data.safetyReport as Record<string, unknown> | undefined;
+
+  // TOP/BOTTOM become their grid points; STRETCH centers and stretches both axes unless stretch is given
+  const legacyAnchor = LEGACY_ANCHORS.find(anchor => anchor === data.anchor);
+  const anchor = legacyAnchor
+    ? toAnchorPoint(resolveAnchorAlignment(legacyAnchor))
+    : readEnum<AnchorPoint>(data.anchor, 'anchor', ANCHOR_GRID, 'CENTER', corrections);
+  const stretch = legacyAnchor === 'STRETCH' && data.stretch === undefined
+    ? 'BOTH'
+    : readEnum<StretchAxis>(data.stretch, 'stretch', STRETCH_AXES, 'NONE', corrections);
+
+  const strategy: LayoutStrategy = {
+    reasoning: readString(data.reasoning, 'reasoning', corrections),
+    method,
+    suggestedScale: readNumber(data.suggestedScale, 'suggestedScale', limits.minScale, limits.maxScale, Math.max(limits.minScale, Math.min(context.fallbackScale, limits.maxScale)), corrections),
+    anchor,
+    stretch,
+    generativePrompt: readString(data.generativePrompt, 'generativePrompt', corrections),
+    clearance: data.clearance === true,
+    knowledgeApplied: data.knowledgeApplied === true,
+    overrides: readOverrides(data.overrides, context, limits, corrections, false),
+    safetyReport: {
+      allowedBleed: safety?.allowedBleed === true,
+      violationCount: typeof safety?.violationCount === 'number' && isFinite(safety.violationCount) ? Math.max(0, Math.round(safety.violationCount)) : 0
+    }
+  };
+
+  if (method === 'GEOMETRIC' && strategy.generativePrompt) {
+    corrections.push('generativePrompt must be empty for GEOMETRIC layouts; cleared.');
+    strategy.generativePrompt = '';
+  }
+
+  return { strategy, corrections };
+};
+
+/**
+ * Checks a Reviewer (CARO) response and returns a strategy that is safe to apply.
+ */
+export const validateReviewerStrategy = (raw: unknown, context: StrategyContext, limits: StrategyLimits): StrategyValidationResult<ReviewerStrategy> => {
+  const corrections: string[] = [];
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  if (!raw || typeof raw !== 'object') corrections.push('Response was not a JSON object.');
+
+  return {
+    strategy: {
+      CARO_Audit: readString(data.CARO_Audit, 'CARO_Audit', corrections),
+      overrides: readOverrides(data.overrides, context, limits, corrections, true)
+    },
+    corrections
+  };
+};
+
+export interface ValidatedResponse<T> {
+  strategy: T;
+  text: string; // Raw text of the response that was used
+  auditNotes: string[]; // Re-ask and remaining corrections, for the chat
+  usage?: AIUsage; // Both attempts when the model was re-asked
+}
+
+const isCancellation = (error: unknown): boolean =>
+  (error instanceof DOMException && error.name === 'AbortError') || isAIBudgetError(error);
+
+const sumUsage = (a: AIUsage | undefined, b: AIUsage | undefined): AIUsage | undefined => a || b ? addAIUsage(a, b) : undefined;
+
+/**
+ * Requests a strategy and validates it. When the first response does not parse or needs
+ * corrections the model is asked once more with the validation errors; whatever the second answer
+ * is, it is sanitized and used. A failing re-ask falls back to the sanitized first response, or
+ * rethrows when there is none; cancellations and budget refusals are always rethrown. Errors carry
+ * the usage of both attempts.
+ */
+export const generateValidatedStrategy = async <T>(
+  provider: AIProvider,
+  request: AIJsonRequest,
+  validate: (raw: unknown) => StrategyValidationResult<T>
+): Promise<ValidatedResponse<T>> => {
+  let first: { text: string, usage?: AIUsage, checked?: StrategyValidationResult<T> };
+  try {
+    const response = await provider.generateJson<unknown>(request);
+    first = { text: response.text, usage: response.usage, checked: validate(response.data) };
+  } catch (e) {
+    if (!(e instanceof AIInvalidJsonError)) throw e;
+    first = { text: e.text, usage: getErrorUsage(e) };
+  }
+
+  const { checked } = first;
+  if (checked && checked.corrections.length === 0) {
+    return { strategy: checked.strategy, text: first.text, auditNotes: [], usage: first.usage };
+  }
+
+  const issues = checked ? checked.corrections : [INVALID_JSON];
+  const history: AIMessage[] = typeof request.contents === 'string'
+    ? [{ role: 'user', parts: [{ text: request.contents }] }]
+    : request.contents;
+  const contents: AIMessage[] = [
+    ...history,
+    { role: 'model', parts: [{ text: first.text }] },
+    {
+      role: 'user',
+      parts: [{ text: `Your response failed validation:\n${issues.map(c => `- ${c}`).join('\n')}\nReturn the complete corrected JSON. Only use layerId values from the provided hierarchy.` }]
+    }
+  ];
+  const reason = checked ? `${issues.length} validation issue(s)` : 'a response that was not valid JSON';
+
+  try {
+    const second = await provider.generateJson<unknown>({ ...request, contents });
+    const rechecked = validate(second.data);
+    return {
+      strategy: rechecked.strategy,
+      text: second.text,
+      auditNotes: [`Re-asked once after ${reason}.`, ...rechecked.corrections],
+      usage: sumUsage(first.usage, second.usage)
+    };
+  } catch (e) {
+    const usage = sumUsage(first.usage, getErrorUsage(e));
+    if (!checked || isCancellation(e)) throw attachErrorUsage(e, usage);
+    console.error("Strategy re-ask failed", e);
+    return {
+      strategy: checked.strategy,
+      text: first.text,
+      auditNotes: ['Re-ask failed; corrected the first response instead.', ...checked.corrections],
+      usage
+    };
+  }
+};
@@ -0,0 +1,270 @@
+import { Psd, Layer } from 'ag-psd';
+import {
+  TemplateMetadata,
+  ContainerDefinition,
+  DesignValidationReport,
+  ValidationIssue,
+  ValidationRuleId,
+  ValidationRuleConfig,
+  ValidationSeverity,
+  BoundsMode,
+  MAX_BOUNDARY_VIOLATION_PERCENT
+} from '../types';
+import { getLayerIndex } from './psdService';
+import { DEFAULT_BOUNDS_MODE, getOpaqueLayerRect } from './boundsService';
+
+type Rect = { x: number, y: number, w: number, h: number };
+type Finding = Omit<ValidationIssue, 'type' | 'severity'>;
+
+// Siblings overlapping by at least this fraction of the smaller layer are reported
+const OVERLAP_RATIO = 0.5;
+
+interface DesignEntry {
+  layer: Layer;
+  id: string;
+  container: ContainerDefinition; // Innermost container the layer belongs to
+  depth: number; // 1 = direct child of the design group (or sub-container group)
+  isHidden: boolean; // Hidden itself or through an ancestor
+  parentHidden: boolean;
+}
+
+export interface RuleContext {
+  template: TemplateMetadata;
+  entries: DesignEntry[]; // Every layer inside a matched design group
+  siblingSets: DesignEntry[][]; // Entries grouped by parent layer
+  unmatchedGroups: { layer: Layer, id: string }[]; // Top-level groups without a container
+  measure: (layer: Layer) => Rect; // Layer rect in the configured bounds mode
+}
+
+export interface ValidationRule {
+  id: ValidationRuleId;
+  label: string;
+  description: string;
+  defaultSeverity: ValidationSeverity;
+  defaultEnabled: boolean;
+  check: (context: RuleContext) => Finding[];
+}
+
+const getRect = (layer: Layer): Rect => ({
+  x: layer.left ?? 0,
+  y: layer.top ?? 0,
+  w: (layer.right ?? 0) - (layer.left ?? 0),
+  h: (layer.bottom ?? 0) - (layer.top ?? 0)
+});
+
+const isGroup = (layer: Layer) => !!layer.children;
+
+// Layers that carry pixels (adjustment layers legitimately have no bounds)
+const isPixelLayer = (layer: Layer) => !isGroup(layer) && !layer.adjustment;
+
+const hasArea = (rect: Rect) => rect.w > 0 && rect.h > 0;
+
+const finding = (entry: { layer: Layer, id: string }, containerName: string, message: string): Finding => ({
+  layerId: entry.id,
+  layerName: entry.layer.name || 'Untitled Layer',
+  containerName,
+  message
+});
+
+// Bounds check against the container, allowing the container's bleed (annotation or project default)
+const checkBounds = (entries: DesignEntry[], measure: (layer: Layer) => Rect): Finding[] => {
+  return entries.flatMap(entry => {
+    if (entry.isHidden || !isPixelLayer(entry.layer)) return [];
+    const rect = measure(entry.layer);
+    if (!hasArea(rect)) return [];
+
+    const c = entry.container.bounds;
+    const bleed = entry.container.annotations?.bleed ?? MAX_BOUNDARY_VIOLATION_PERCENT;
+    const overflowX = Math.max(0, c.x - rect.x, rect.x + rect.w - (c.x + c.w));
+    const overflowY = Math.max(0, c.y - rect.y, rect.y + rect.h - (c.y + c.h));
+    if (overflowX <= bleed * c.w && overflowY <= bleed * c.h) return [];
+
+    const ratio = Math.max(c.w > 0 ? overflowX / c.w : 1, c.h > 0 ? overflowY / c.h : 1);
+    return [finding(
+      entry,
+      entry.container.name,
+      `Layer '${entry.layer.name}' extends ${Math.round(Math.max(overflowX, overflowY))}px (${(ratio * 100).toFixed(1)}%) outside '${entry.container.name}' (tolerance ${Math.round(bleed * 100)}%).`
+    )];
+  });
+};
+
+const overlapArea = (a: Rect, b: Rect): number => {
+  const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  return w > 0 && h > 0 ? w * h : 0;
+};
+
+/**
+ * The built-in rule set, in report order.
+ */
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'bleed-tolerance',
+    label: 'Container bounds',
+    description: 'Direct children must stay inside their container, within the bleed tolerance.',
+    defaultSeverity: 'error',
+    defaultEnabled: true,
+    check: ({ entries, measure }) => checkBounds(entries.filter(e => e.depth === 1), measure)
+  },
+  {
+    id: 'nested-bounds',
+    label: 'Nested bounds',
+    description: 'Layers inside sub-groups must stay inside the container, within the bleed tolerance.',
+    defaultSeverity: 'warning',
+    defaultEnabled: true,
+    check: ({ entries, measure }) => checkBounds(entries.filter(e => e.depth > 1), measure)
+  },
+  {
+    id: 'hidden-layers',
+    label: 'Hidden layers',
+    description: 'Hidden layers are carried through remaps but never rendered.',
+    defaultSeverity: 'info',
+    defaultEnabled: true,
+    // Only the outermost hidden layer of a subtree is reported
+    check: ({ entries }) => entries
+      .filter(e => e.layer.hidden && !e.parentHidden)
+      .map(e => finding(e, e.container.name, `Layer '${e.layer.name}' is hidden.`))
+  },
+  {
+    id: 'empty-groups',
+    label: 'Empty groups',
+    description: 'Groups without any layers.',
+    defaultSeverity: 'warning',
+    defaultEnabled: true,
+    check: ({ entries }) => entries
+      .filter(e => isGroup(e.layer) && e.layer.children!.length === 0)
+      .map(e => finding(e, e.container.name, `Group '${e.layer.name}' is empty.`))
+  },
+  {
+    id: 'unmatched-groups',
+    label: 'Unmatched design groups',
+    description: 'Top-level groups whose name matches no template container are ignored by the pipeline.',
+    defaultSeverity: 'warning',
+    defaultEnabled: true,
+    check: ({ unmatchedGroups }) => unmatchedGroups
+      .map(g => finding(g, '', `Group '${g.layer.name}' matches no template container.`))
+  },
+  {
+    id: 'overlapping-siblings',
+    label: 'Overlapping siblings',
+    description: `Visible sibling layers overlapping by ${OVERLAP_RATIO * 100}% or more of the smaller layer.`,
+    defaultSeverity: 'info',
+    defaultEnabled: false,
+    check: ({ siblingSets, measure }) => siblingSets.flatMap(siblings => {
+      const visible = siblings
+        .filter(e => !e.isHidden && isPixelLayer(e.layer))
+        .map(e => ({ entry: e, rect: measure(e.layer) }))
+        .filter(({ rect }) => hasArea(rect));
+      const results: Finding[] = [];
+      for (let i = 0; i < visible.length; i++) {
+        for (let j = i + 1; j < visible.length; j++) {
+          const a = visible[i], b = visible[j];
+          const smaller = Math.min(a.rect.w * a.rect.h, b.rect.w * b.rect.h);
+          if (overlapArea(a.rect, b.rect) / smaller < OVERLAP_RATIO) continue;
+          results.push(finding(b.entry, b.entry.container.name, `Layer '${b.entry.layer.name}' overlaps sibling '${a.entry.layer.name}'.`));
+        }
+      }
+      return results;
+    })
+  },
+  {
+    id: 'zero-size',
+    label: 'Zero-size layers',
+    description: 'Pixel layers without width or height cannot be positioned or scaled.',
+    defaultSeverity: 'warning',
+    defaultEnabled: true,
+    check: ({ entries }) => entries
+      .filter(e => isPixelLayer(e.layer) && !hasArea(getRect(e.layer)))
+      .map(e => finding(e, e.container.name, `Layer '${e.layer.name}' has no size.`))
+  }
+];
+
+export const DEFAULT_VALIDATION_RULES: ValidationRuleConfig = VALIDATION_RULES.reduce((config, rule) => {
+  config[rule.id] = { enabled: rule.defaultEnabled, severity: rule.defaultSeverity };
+  return config;
+}, {} as ValidationRuleConfig);
+
+/**
+ * Merges project overrides over the default rule settings.
+ */
+export const resolveValidationRules = (overrides: Partial<ValidationRuleConfig> = {}): ValidationRuleConfig => {
+  const config = { ...DEFAULT_VALIDATION_RULES };
+  (Object.keys(overrides) as ValidationRuleId[]).forEach(id => {
+    if (config[id] && overrides[id]) config[id] = { ...config[id], ...overrides[id] };
+  });
+  return config;
+};
+
+const buildContext = (psd: Psd, template: TemplateMetadata, boundsMode: BoundsMode): RuleContext => {
+  const index = getLayerIndex(psd.children || []);
+  const idOf = (layer: Layer) => index.idOf.get(layer) || layer.name || 'unknown';
+  const containerMap = new Map(template.containers.map(c => [c.name, c]));
+
+  const entries: DesignEntry[] = [];
+  const siblingSets: DesignEntry[][] = [];
+
+  const visit = (layers: Layer[], container: ContainerDefinition, depth: number, parentHidden: boolean) => {
+    const siblings: DesignEntry[] = [];
+    layers.forEach(layer => {
+      const isHidden = parentHidden || !!layer.hidden;
+      const entry: DesignEntry = { layer, id: idOf(layer), container, depth, isHidden, parentHidden };
+      entries.push(entry);
+      siblings.push(entry);
+
+      if (!layer.children) return;
+      // A group named after a sub-container (e.g. "LOGO" inside "HEADER") switches to that container
+      const subContainer = containerMap.get(`${container.name}/${layer.name}`);
+      if (subContainer) {
+        visit(layer.children, subContainer, 1, isHidden);
+      } else {
+        visit(layer.children, container, depth + 1, isHidden);
+      }
+    });
+    siblingSets.push(siblings);
+  };
+
+  const unmatchedGroups: RuleContext['unmatchedGroups'] = [];
+  psd.children?.forEach(group => {
+    if (group.name === '!!TEMPLATE' || !group.children) return;
+    const container = group.name ? containerMap.get(group.name) : undefined;
+    if (container) {
+      visit(group.children, container, 1, !!group.hidden);
+    } else {
+      unmatchedGroups.push({ layer: group, id: idOf(group) });
+    }
+  });
+
+  // Opaque bounds need pixel data; fully transparent or unloaded layers fall back to the raw rect
+  const measure = (layer: Layer): Rect => {
+    const opaque = boundsMode === 'opaque' ? getOpaqueLayerRect(layer) : null;
+    return opaque && hasArea(opaque) ? opaque : getRect(layer);
+  };
+
+  return { template, entries, siblingSets, unmatchedGroups, measure };
+};
+
+/**
+ * Validates 'Design' layers against the 'Template' containers with the configured rule set.
+ * Design groups (e.g. SYMBOLS) are checked against containers of the same name (e.g. !!SYMBOLS);
+ * sub-groups named after sub-containers are checked against those instead.
+ * Bounds and overlap rules measure opaque pixel bounds unless `boundsMode` is 'raw'.
+ * The report is valid when no enabled rule produced an 'error' issue.
+ */
+export const validateDesign = (
+  psd: Psd,
+  template: TemplateMetadata,
+  overrides?: Partial<ValidationRuleConfig>,
+  boundsMode: BoundsMode = DEFAULT_BOUNDS_MODE
+): DesignValidationReport => {
+  const config = resolveValidationRules(overrides);
+  const context = buildContext(psd, template, boundsMode);
+
+  const issues: ValidationIssue[] = VALIDATION_RULES
+    .filter(rule => config[rule.id].enabled)
+    .flatMap(rule => rule.check(context).map(f => ({ ...f, type: rule.id, severity: config[rule.id].severity })));
+
+  return {
+    isValid: !issues.some(issue => issue.severity === 'error'),
+    issues
+  };
+};
@@ -1,6 +1,10 @@
-import React, { createContext, useContext, useState, useCallback, useMemo } from 'react';
+import React, { createContext, useContext, useState, useCallback, useMemo, useEffect } from 'react';
 import { Psd } from 'ag-psd';
-import { TemplateMetadata, MappingContext, TransformedPayload, LayoutStrategy, KnowledgeContext, KnowledgeRegistry, StyleAnchor, StyleRegistry } from '../types';
+import { TemplateMetadata, MappingContext, TransformedPayload, LayoutStrategy, KnowledgeContext, KnowledgeRegistry, StyleAnchor, StyleRegistry, ProjectSettings } from '../types';
+import { releasePixelSource, setPixelCacheLimit, DEFAULT_PIXEL_CACHE_LIMIT_MB } from '../services/pixelCacheService';
+import { setActiveAIProvider, getDefaultAIProviderId } from '../services/aiProvider';
+import { setAIConcurrency, DEFAULT_AI_CONCURRENCY } from '../services/aiQueueService';
+import { setAIBudget } from '../services/aiUsageService';
 
 interface ProceduralState {
   // Maps NodeID -> Raw PSD Object (Binary/Structure)
@@ -28,6 +32,9 @@ interface ProceduralState {
   // Maps NodeID -> StyleAnchor List (Style Gallery)
   styleRegistry: StyleRegistry;
 
+  // Project-wide preferences (saved with the project file)
+  projectSettings: ProjectSettings;
+
   // Global counter to force re-evaluation of downstream nodes upon binary re-hydration
   globalVersion: number;
 }
@@ -43,6 +50,8 @@ interface ProceduralContextType extends ProceduralState {
   registerKnowledge: (nodeId: string, context: KnowledgeContext) => void;
   registerStyleAnchors: (nodeId: string, anchors: StyleAnchor[]) => void;
   updatePreview: (nodeId: string, handleId: string, url: string) => void;
+  updateProjectSettings: (partial: Partial<ProjectSettings>) => void;
+  replaceProjectSettings: (settings: ProjectSettings) => void;
   unregisterNode: (nodeId: string) => void;
   triggerGlobalRefresh: () => void;
   sampleStyle: (imageSource: CanvasImageSource) => Promise<{ palette: string[], vibe: string }>;
@@ -209,8 +218,27 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
   const [analysisRegistry, setAnalysisRegistry] = useState<Record<string, Record<string, LayoutStrategy>>>({});
   const [knowledgeRegistry, setKnowledgeRegistry] = useState<KnowledgeRegistry>({});
   const [styleRegistry, setStyleRegistry] = useState<StyleRegistry>({});
+  const [projectSettings, setProjectSettings] = useState<ProjectSettings>({});
   const [globalVersion, setGlobalVersion] = useState<number>(0);
 
+  // The pixel cache lives outside React; keep its ceiling in step with the project
+  useEffect(() => {
+    setPixelCacheLimit(projectSettings.pixelCacheLimitMB ?? DEFAULT_PIXEL_CACHE_LIMIT_MB);
+  }, [projectSettings.pixelCacheLimitMB]);
+
+  // Same for the AI provider the nodes resolve at call time
+  useEffect(() => {
+    setActiveAIProvider(projectSettings.aiProvider ?? getDefaultAIProviderId());
+  }, [projectSettings.aiProvider]);
+
+  useEffect(() => {
+    setAIConcurrency(projectSettings.aiConcurrency ?? DEFAULT_AI_CONCURRENCY);
+  }, [projectSettings.aiConcurrency]);
+
+  useEffect(() => {
+    setAIBudget(projectSettings.aiBudgetUSD);
+  }, [projectSettings.aiBudgetUSD]);
+
   const registerPsd = useCallback((nodeId: string, psd: Psd) => {
     setPsdRegistry(prev => ({ ...prev, [nodeId]: psd }));
   }, []);
@@ -420,6 +448,7 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
 
   const unregisterNode = useCallback((nodeId: string) => {
     setPsdRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
+    releasePixelSource(nodeId);
     setTemplateRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
     setResolvedRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
     setPayloadRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
@@ -446,6 +475,15 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
     setGlobalVersion(v => v + 1);
   }, []);
 
+  const updateProjectSettings = useCallback((partial: Partial<ProjectSettings>) => {
+    setProjectSettings(prev => ({ ...prev, ...partial }));
+  }, []);
+
+  // Used when loading a project file: settings are not merged across projects
+  const replaceProjectSettings = useCallback((settings: ProjectSettings) => {
+    setProjectSettings(settings);
+  }, []);
+
   const triggerGlobalRefresh = useCallback(() => {
     setGlobalVersion(v => v + 1);
   }, []);
@@ -476,6 +514,7 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
     analysisRegistry,
     knowledgeRegistry,
     styleRegistry,
+    projectSettings,
     globalVersion,
     registerPsd,
     registerTemplate,
@@ -487,13 +526,15 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
     registerKnowledge,
     registerStyleAnchors,
     updatePreview,
+    updateProjectSettings,
+    replaceProjectSettings,
     unregisterNode,
     triggerGlobalRefresh,
     sampleStyle
   }), [
-    psdRegistry, templateRegistry, resolvedRegistry, payloadRegistry, reviewerRegistry, analysisRegistry, knowledgeRegistry, styleRegistry, globalVersion,
+    psdRegistry, templateRegistry, resolvedRegistry, payloadRegistry, reviewerRegistry, analysisRegistry, knowledgeRegistry, styleRegistry, projectSettings, globalVersion,
     registerPsd, registerTemplate, registerResolved, registerPayload, registerReviewerPayload, updatePayload, registerAnalysis, registerKnowledge, registerStyleAnchors, updatePreview,
-    unregisterNode, triggerGlobalRefresh, sampleStyle
+    updateProjectSettings, replaceProjectSettings, unregisterNode, triggerGlobalRefresh, sampleStyle
   ]);
 
   return (
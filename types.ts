@@ -1,12 +1,23 @@
-import { Psd } from 'ag-psd';
+import { Psd, BlendMode } from 'ag-psd';
 import { Node, Edge } from 'reactflow';
 
 export const MAX_BOUNDARY_VIOLATION_PERCENT = 0.03;
 
+// Layout intent encoded in a template layer name, e.g. "!!HERO[anchor=bottom; strategy=fill; bleed=0.05; priority=1]"
+export interface ContainerAnnotations {
+  anchor?: AnchorPoint; // Placement of geometric remaps inside the container
+  strategy?: RemapStrategy; // Default geometric remap mode
+  bleed?: number; // Allowed vertical overflow as a fraction of container height
+  priority?: number; // 1 = most important container
+}
+
 export interface ContainerDefinition {
   id: string;
   name: string;
   originalName: string;
+  annotations?: ContainerAnnotations;
+  annotationErrors?: string[]; // Unrecognized keys/values, surfaced to the template author
+  parentId?: string; // Set on sub-containers; `name` is then the qualified path (e.g. "HEADER/LOGO")
   bounds: {
     x: number;
     y: number;
@@ -21,12 +32,29 @@ export interface ContainerDefinition {
   };
 }
 
+// Container nesting by ID; definitions stay in the flat `containers` list
+export interface ContainerTreeNode {
+  id: string;
+  children: ContainerTreeNode[];
+}
+
+export interface ArtboardInfo {
+  index: number; // Position among the document's artboards (stable handle id)
+  name: string;
+  bounds: { x: number, y: number, w: number, h: number }; // Artboard rect in document space
+  presetName?: string;
+  backgroundType?: number;
+}
+
 export interface TemplateMetadata {
   canvas: {
     width: number;
     height: number;
   };
-  containers: ContainerDefinition[];
+  containers: ContainerDefinition[]; // Every container, parents before their children
+  hierarchy?: ContainerTreeNode[]; // Absent on templates saved before nesting support
+  artboard?: ArtboardInfo; // Set on templates built from a single artboard
+  artboards?: TemplateMetadata[]; // Document template only: one template per artboard with a !!TEMPLATE group
 }
 
 // --- KNOWLEDGE INTEGRATION ---
@@ -46,7 +74,7 @@ export type KnowledgeRegistry = Record<string, KnowledgeContext>;
 // --- STYLE ANCHOR INTEGRATION ---
 export interface StyleAnchor {
   id: string;
-  layerId: string; // Path ID from PSD
+  layerId: string; // Stable layer ID from PSD (see getLayerIndex)
   layerName: string;
   thumbnail: string; // Base64 Data URL (64x64 optimized)
   palette: string[]; // Top 5 Hex Colors
@@ -58,6 +86,7 @@ export type StyleRegistry = Record<string, StyleAnchor[]>;
 
 export interface ContainerContext {
   containerName: string;
+  annotations?: ContainerAnnotations;
   bounds: {
     x: number;
     y: number;
@@ -70,6 +99,17 @@ export interface ContainerContext {
   };
 }
 
+// Editable text extracted from ag-psd `layer.text`
+export interface TextDescriptor {
+  content: string;
+  font?: string; // PostScript font name (e.g. 'ArialMT')
+  fontSize: number; // Effective px size (includes the text transform; scaled on remap)
+  boxType: 'point' | 'paragraph';
+}
+
+// Which rect a consumer measures: the PSD layer rectangle, or the alpha-trimmed pixel bounds
+export type BoundsMode = 'raw' | 'opaque';
+
 export interface SerializableLayer {
   id: string;
   name: string;
@@ -77,16 +117,30 @@ export interface SerializableLayer {
   children?: SerializableLayer[];
   isVisible: boolean;
   opacity: number;
+  blendMode?: BlendMode; // PSD blend mode ('pass through' for most groups)
+  clipping?: boolean; // Clipped to the nearest non-clipping layer below
+  text?: TextDescriptor; // Present on live text layers
   coords: {
     x: number;
     y: number;
     w: number;
     h: number;
   };
+  opaqueCoords?: { x: number, y: number, w: number, h: number }; // Alpha-trimmed bounds; absent without pixel data
 }
 
 export type RemapStrategy = 'STRETCH' | 'UNIFORM_FIT' | 'UNIFORM_FILL' | 'NONE';
 
+// Figma-style per-layer constraints, resolved relative to the container before AI overrides
+export type HorizontalConstraint = 'LEFT' | 'RIGHT' | 'LEFT_RIGHT' | 'CENTER' | 'SCALE';
+export type VerticalConstraint = 'TOP' | 'BOTTOM' | 'TOP_BOTTOM' | 'CENTER' | 'SCALE';
+
+export interface LayerConstraint {
+  horizontal: HorizontalConstraint;
+  vertical: VerticalConstraint;
+  fixedSize?: boolean; // Keep source pixel dimensions (and pinned margins) instead of scaling
+}
+
 export interface LayerOverride {
   layerId: string;
   xOffset: number;
@@ -95,10 +149,22 @@ export interface LayerOverride {
   rotation?: number; // Added for Reviewer Node support
 }
 
+// 3x3 placement grid for LayoutStrategy.anchor
+export type AnchorPoint =
+  | 'TOP_LEFT' | 'TOP_CENTER' | 'TOP_RIGHT'
+  | 'CENTER_LEFT' | 'CENTER' | 'CENTER_RIGHT'
+  | 'BOTTOM_LEFT' | 'BOTTOM_CENTER' | 'BOTTOM_RIGHT';
+
+// Pre-grid values, still accepted when loading older projects
+export type LegacyAnchor = 'TOP' | 'BOTTOM' | 'STRETCH';
+
+export type StretchAxis = 'NONE' | 'X' | 'Y' | 'BOTH';
+
 export interface LayoutStrategy {
   method?: 'GEOMETRIC' | 'GENERATIVE' | 'HYBRID';
   suggestedScale: number;
-  anchor: 'TOP' | 'CENTER' | 'BOTTOM' | 'STRETCH';
+  anchor: AnchorPoint | LegacyAnchor;
+  stretch?: StretchAxis; // Axes that fill the target instead of using suggestedScale
   generativePrompt: string;
   reasoning: string;
   overrides?: LayerOverride[];
@@ -131,6 +197,7 @@ export interface TransformedLayer extends SerializableLayer {
   };
   children?: TransformedLayer[];
   generativePrompt?: string;
+  nestedContainer?: string; // Group remapped into this target sub-container (parent-then-child)
 }
 
 export interface MappingContext {
@@ -147,18 +214,85 @@ export interface MappingContext {
   generationAllowed?: boolean; // Propagated gate state
 }
 
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export type ValidationRuleId =
+  | 'bleed-tolerance'
+  | 'nested-bounds'
+  | 'hidden-layers'
+  | 'empty-groups'
+  | 'unmatched-groups'
+  | 'overlapping-siblings'
+  | 'zero-size';
+
+export interface ValidationRuleSetting {
+  enabled: boolean;
+  severity: ValidationSeverity;
+}
+
+export type ValidationRuleConfig = Record<ValidationRuleId, ValidationRuleSetting>;
+
 export interface ValidationIssue {
+  layerId?: string;
   layerName: string;
   containerName: string;
-  type: 'PROCEDURAL_VIOLATION';
+  type: ValidationRuleId | 'PROCEDURAL_VIOLATION'; // 'PROCEDURAL_VIOLATION' only appears in older projects
+  severity?: ValidationSeverity; // Absent on older projects (treated as 'error')
   message: string;
 }
 
 export interface DesignValidationReport {
-  isValid: boolean;
+  isValid: boolean; // No 'error' severity issues
   issues: ValidationIssue[];
 }
 
+// --- PSD PARSING ---
+export type PsdParseStage = 'read' | 'decode' | 'layers' | 'images';
+
+export interface PsdParseProgress {
+  stage: PsdParseStage;
+  progress: number; // 0-1 within the stage
+  detail?: string;
+}
+
+export type PsdColorMode = 'bitmap' | 'grayscale' | 'indexed' | 'rgb' | 'cmyk' | 'multichannel' | 'duotone' | 'lab' | 'unknown';
+
+// Document format from the file header; layers are always decoded to 8-bit RGB
+export interface PsdSourceFormat {
+  isLargeDocument: boolean; // PSB
+  bitsPerChannel: number; // 1, 8, 16 or 32
+  colorMode: PsdColorMode;
+}
+
+// --- SOURCE REVISIONS (PSD re-upload) ---
+export type LayerChangeKind = 'added' | 'removed' | 'renamed' | 'moved' | 'resized';
+
+export interface LayerChange {
+  layerId: string; // New ID (previous ID for 'removed')
+  previousId?: string; // Set when the match was found under a different ID
+  name: string;
+  previousName?: string;
+  kinds: LayerChangeKind[];
+  previousCoords?: SerializableLayer['coords'];
+  coords?: SerializableLayer['coords'];
+}
+
+export interface UnmatchedLayerReference {
+  nodeId: string;
+  source: 'override' | 'reviewer' | 'styleAnchor' | 'constraint';
+  layerId: string;
+  label: string; // Human readable owner (e.g. "Analyst #2", anchor layer name)
+}
+
+export interface RevisionDiff {
+  previousFileName: string | null;
+  fileName: string;
+  timestamp: number;
+  changes: LayerChange[];
+  reboundCount: number; // References rewritten to a matching layer under a new ID
+  unmatched: UnmatchedLayerReference[]; // References that point at no layer in the new revision
+}
+
 export interface TargetAssembly {
   targetDimensions: {
     width: number;
@@ -191,16 +325,36 @@ export interface TransformedPayload {
   generationId?: number; // Timestamp of the specific generation to force React updates
   generationAllowed?: boolean; // New Flag: Per-instance enforcement state
   isPolished?: boolean; // Flag indicating if this payload has been refined by CARO
+  remapStrategy?: RemapStrategy; // Geometric mode used when no AI strategy drives the remap
+  cropBounds?: { x: number, y: number, w: number, h: number }; // UNIFORM_FILL: content outside is clipped
+  targetBounds?: { x: number, y: number, w: number, h: number }; // Absolute target rect (canvas origin for renders)
+  collisionOverrides?: LayerOverride[]; // Nudges/shrinks applied by the local collision resolver
+}
+
+export interface CollisionRule {
+  pattern: string; // Case-insensitive regex matched against layer names
+  priority: number; // Higher wins; lower-priority layers are nudged or shrunk
+}
+
+export interface CollisionConfig {
+  enabled: boolean;
+  rules?: CollisionRule[]; // Falls back to DEFAULT_COLLISION_RULES
+  minScale?: number; // Smallest shrink factor before a collision is left unresolved
+  boundsMode?: BoundsMode; // Rect used for overlap tests (defaults to 'opaque')
 }
 
 export interface RemapperConfig {
   targetContainerName: string | null;
   strategy?: RemapStrategy;
   generationAllowed?: boolean; // Global Toggle
+  collision?: CollisionConfig;
+  boundsMode?: BoundsMode; // Rect used to pin constrained layers and test collisions (defaults to 'opaque')
 }
 
 export interface InstanceSettings {
   generationAllowed?: boolean;
+  strategy?: RemapStrategy; // Per-instance geometric mode (falls back to RemapperConfig.strategy)
+  layerConstraints?: Record<string, LayerConstraint>; // Keyed by layer ID; takes precedence over name tags
 }
 
 export interface ChatMessage {
@@ -208,6 +362,7 @@ export interface ChatMessage {
   role: 'user' | 'model';
   parts: { text: string }[];
   strategySnapshot?: LayoutStrategy;
+  auditNotes?: string[]; // Corrections strategy validation applied to this model response
   timestamp: number;
 }
 
@@ -235,6 +390,10 @@ export interface PSDNodeData {
   transformedPayload?: TransformedPayload | null; // For RemapperNode output
   knowledgeContext?: KnowledgeContext | null; // For KnowledgeNode state
   styleAnchors?: StyleAnchor[]; // For StyleAnchorNode state
+  revisionDiff?: RevisionDiff | null; // For LoadPSDNode: changes since the previously loaded file
+  sourceFormat?: PsdSourceFormat | null; // For LoadPSDNode: color mode, bit depth and PSB flag of the file
+  artboardExportMode?: 'document' | 'artboard'; // For ExportPSDNode: artboards written back as documents (one file each) or as artboards (a family shares one file)
+  matchSourceFormat?: boolean; // For ExportPSDNode: write in the sources' bit depth, color mode and PSB flag
   
   // Dynamic State Persistence
   channelCount?: number;
@@ -244,6 +403,7 @@ export interface PSDNodeData {
   // Multi-Instance Analysis State
   analystInstances?: Record<number, AnalystInstanceState>;
   reviewerInstances?: Record<number, ReviewerInstanceState>; // Reviewer Node State
+  aiUsage?: Record<number, AIUsage>; // AI usage per instance (single-instance nodes use 0)
   
   // Legacy Single-Instance Fields (Kept for backward compatibility if needed, but deprecated)
   layoutStrategy?: LayoutStrategy | null; 
@@ -264,13 +424,47 @@ export interface TargetTemplateData {
   error?: string | null;
 }
 
+export type AIProviderId = 'gemini' | 'mock';
+
+// Usage reported by AI calls, summed per node instance
+export interface AIUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number; // Includes thinking tokens
+  thinkingTokens: number;
+  images: number;
+  costUSD: number; // Estimated from list prices
+}
+
+// Sane ranges for AI layout responses; values outside are clamped before they are applied
+export interface StrategyLimits {
+  minScale: number; // LayoutStrategy.suggestedScale
+  maxScale: number;
+  minLayerScale: number; // LayerOverride.individualScale
+  maxLayerScale: number;
+  maxOffsetRatio: number; // |xOffset| / target width and |yOffset| / target height
+  maxRotation: number; // Degrees in either direction
+}
+
 // Persistence Schema
+// Project-wide preferences, saved with the project file
+export interface ProjectSettings {
+  validationRules?: Partial<ValidationRuleConfig>; // Overrides of the default rule set
+  validationBoundsMode?: BoundsMode; // Rect used by bounds and overlap rules (defaults to 'opaque')
+  pixelCacheLimitMB?: number; // Memory ceiling for decoded source layer pixels (defaults to 512)
+  aiProvider?: AIProviderId; // Model provider for every AI node (defaults to Gemini with an API key, else the mock)
+  strategyLimits?: Partial<StrategyLimits>; // Overrides of the default AI response ranges
+  aiConcurrency?: number; // AI calls running at once (defaults to 2)
+  aiBudgetUSD?: number; // New AI calls are blocked once the project's estimated spend reaches this
+}
+
 export interface ProjectExport {
   version: string;
   timestamp: number;
   nodes: Node<PSDNodeData>[];
   edges: Edge[];
   viewport: { x: number, y: number, zoom: number };
+  settings?: ProjectSettings; // Absent on projects saved before project settings
 }
 
 // Re-export Psd type for convenience in other files